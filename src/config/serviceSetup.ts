@@ -2,13 +2,35 @@ import { connectToDb } from "./db.ts";
 import { UserRepo } from "../repositories/user.ts";
 import { NoteRepo } from "../repositories/note.ts";
 import { TodoRepo } from "../repositories/todo.ts";
+import { SessionRepo } from "../repositories/session.ts";
+import { AccessTokenRepo } from "../repositories/accessToken.ts";
+import { TombstoneRepo } from "../repositories/tombstone.ts";
+import { SecurityEventRepo } from "../repositories/securityEvent.ts";
+import { AdminAuditRepo } from "../repositories/adminAudit.ts";
+import { TrustedDeviceRepo } from "../repositories/trustedDevice.ts";
 import { UserService } from "../services/user.ts";
 import { NoteService } from "../services/note.ts";
 import { TodoService } from "../services/todo.ts";
+import { SessionService } from "../services/session.ts";
+import { PasskeyService } from "../services/passkey.ts";
+import { OidcService } from "../services/oidc.ts";
+import { AccessTokenService } from "../services/accessToken.ts";
+import { AccountDeletionService } from "../services/accountDeletion.ts";
+import { AuditService } from "../services/audit.ts";
+import { AdminService } from "../services/admin.ts";
+import { TrustedDeviceService } from "../services/trustedDevice.ts";
 
 let userService: UserService;
 let noteService: NoteService;
 let todoService: TodoService;
+let sessionService: SessionService;
+let passkeyService: PasskeyService;
+let oidcService: OidcService;
+let accessTokenService: AccessTokenService;
+let accountDeletionService: AccountDeletionService;
+let auditService: AuditService;
+let adminService: AdminService;
+let trustedDeviceService: TrustedDeviceService;
 
 export async function initializeServices() {
   const dbClient = await connectToDb();
@@ -16,12 +38,59 @@ export async function initializeServices() {
   const userRepo = new UserRepo(dbClient);
   const noteRepo = new NoteRepo(dbClient);
   const todoRepo = new TodoRepo(dbClient);
+  const sessionRepo = new SessionRepo(dbClient);
+  const accessTokenRepo = new AccessTokenRepo(dbClient);
+  const tombstoneRepo = new TombstoneRepo(dbClient);
+  const securityEventRepo = new SecurityEventRepo(dbClient);
+  const adminAuditRepo = new AdminAuditRepo(dbClient);
+  const trustedDeviceRepo = new TrustedDeviceRepo(dbClient);
 
   userService = new UserService(userRepo);
   noteService = new NoteService(noteRepo);
   todoService = new TodoService(todoRepo);
+  sessionService = new SessionService(sessionRepo, userRepo);
+  passkeyService = new PasskeyService(userRepo);
+  oidcService = new OidcService(userRepo);
+  accessTokenService = new AccessTokenService(accessTokenRepo);
+  accountDeletionService = new AccountDeletionService(
+    userRepo,
+    noteRepo,
+    todoRepo,
+    sessionRepo,
+    accessTokenRepo,
+    tombstoneRepo,
+    securityEventRepo,
+    trustedDeviceRepo,
+  );
+  auditService = new AuditService(securityEventRepo);
+  adminService = new AdminService(userRepo, adminAuditRepo);
+  trustedDeviceService = new TrustedDeviceService(trustedDeviceRepo);
 
-  return { userService, noteService, todoService };
+  return {
+    userService,
+    noteService,
+    todoService,
+    sessionService,
+    passkeyService,
+    oidcService,
+    accessTokenService,
+    accountDeletionService,
+    auditService,
+    adminService,
+    trustedDeviceService,
+  };
 }
 
-export { noteService, todoService, userService };
+export {
+  accessTokenService,
+  accountDeletionService,
+  adminService,
+  auditService,
+  noteService,
+  oidcService,
+  passkeyService,
+  sessionService,
+  todoService,
+  trustedDeviceService,
+  userService,
+};
@@ -0,0 +1,104 @@
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { accessTokenService } from "../config/serviceSetup.ts";
+import { Response } from "../utils/response.ts";
+import { CreateAccessTokenRequest } from "../models/accessToken.ts";
+import { toAccessTokenResponse } from "../dto/accessToken.ts";
+import { RouterContext } from "@oak/oak";
+
+export async function createAccessToken(
+  ctx: RouterContext<"/api/:userId/tokens">,
+) {
+  HTTPMetrics.track("POST", "/api/:userId/tokens");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const body = (await ctx.request.body.json()) as CreateAccessTokenRequest;
+    if (!body?.name || !body?.scopes) {
+      return Response.badRequest(ctx, "Name and scopes are required");
+    }
+
+    try {
+      const { token, accessToken } = await accessTokenService.createToken(
+        tokenUserId,
+        body.name,
+        body.scopes,
+        body.expiresInDays,
+      );
+
+      // The raw token is only ever returned here
+      return Response.created(ctx, {
+        token,
+        accessToken: toAccessTokenResponse(accessToken),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return Response.badRequest(ctx, error.message);
+      }
+      throw error;
+    }
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "create_access_token",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error creating access token",
+    );
+  }
+}
+
+export async function listAccessTokens(
+  ctx: RouterContext<"/api/:userId/tokens">,
+) {
+  HTTPMetrics.track("GET", "/api/:userId/tokens");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const tokens = await accessTokenService.listTokens(tokenUserId);
+
+    return Response.success(ctx, {
+      tokens: tokens.map(toAccessTokenResponse),
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "list_access_tokens",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error listing access tokens",
+    );
+  }
+}
+
+export async function revokeAccessToken(
+  ctx: RouterContext<"/api/:userId/tokens/:tokenId">,
+) {
+  HTTPMetrics.track("DELETE", "/api/:userId/tokens/:tokenId");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const revoked = await accessTokenService.revokeToken(
+      tokenUserId,
+      ctx.params.tokenId,
+    );
+    if (!revoked) {
+      return Response.notFound(ctx, "Access token not found");
+    }
+
+    return Response.success(ctx, { message: "Access token revoked" });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "revoke_access_token",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error revoking access token",
+    );
+  }
+}
@@ -0,0 +1,436 @@
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { Response } from "../utils/response.ts";
+import { clientInfo } from "../utils/context.ts";
+import {
+  accessTokenService,
+  adminService,
+  auditService,
+  sessionService,
+  trustedDeviceService,
+  userService,
+} from "../config/serviceSetup.ts";
+import {
+  AdminAuditPageResponse,
+  AdminUserDetailResponse,
+  AdminUserPageResponse,
+  toAdminAuditEntryResponse,
+  toAdminUserResponse,
+} from "../dto/admin.ts";
+import {
+  SecurityEventPageResponse,
+  toSecurityEventResponse,
+} from "../dto/securityEvent.ts";
+import { Context, RouterContext } from "@oak/oak";
+
+// Admin routes sit behind authorize({ roles: ["admin"] }), the account
+// changes also behind a step-up. Every handler writes its admin audit entry
+// before it touches anything.
+
+const MAX_PAGE_SIZE = 100;
+
+type PageLinks = AdminUserPageResponse["links"];
+
+function readPage(url: URL): { page: number; pageSize: number } | null {
+  const page = parseInt(url.searchParams.get("page") || "1", 10);
+  const pageSize = parseInt(url.searchParams.get("page_size") || "20", 10);
+  if (
+    !Number.isInteger(page) || page < 1 ||
+    !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE
+  ) {
+    return null;
+  }
+  return { page, pageSize };
+}
+
+function pageLinks(
+  url: URL,
+  page: number,
+  pageSize: number,
+  pageCount: number,
+): PageLinks {
+  const href = (target: number) => {
+    const params = new URLSearchParams(url.searchParams);
+    params.set("page", target.toString());
+    params.set("page_size", pageSize.toString());
+    return `${url.pathname}?${params}`;
+  };
+
+  const links: PageLinks = { self: { href: href(page), method: "GET" } };
+  if (page < pageCount) {
+    links["next"] = { href: href(page + 1), method: "GET" };
+  }
+  if (page > 1) {
+    links["prev"] = { href: href(page - 1), method: "GET" };
+  }
+  return links;
+}
+
+function actor(ctx: Context) {
+  return { adminId: ctx.state.user.userId as string, ...clientInfo(ctx) };
+}
+
+async function readReason(ctx: Context, field: string) {
+  const body = await ctx.request.body.json();
+  const value = body?.[field];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export async function searchUsers(ctx: RouterContext<"/api/admin/users">) {
+  HTTPMetrics.track("GET", "/api/admin/users");
+
+  try {
+    const paging = readPage(ctx.request.url);
+    if (!paging) {
+      return Response.badRequest(ctx, "Invalid page or page_size");
+    }
+    const query = ctx.request.url.searchParams.get("q")?.trim() ?? "";
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "search_users",
+      details: { query },
+    });
+
+    const { users, totalCount } = await adminService.searchUsers(
+      query,
+      paging.page,
+      paging.pageSize,
+    );
+    const pageCount = Math.ceil(totalCount / paging.pageSize);
+
+    const response: AdminUserPageResponse = {
+      users: users.map(toAdminUserResponse),
+      totalCount,
+      pageCount,
+      currentPage: paging.page,
+      links: pageLinks(
+        ctx.request.url,
+        paging.page,
+        paging.pageSize,
+        pageCount,
+      ),
+    };
+
+    return Response.success(ctx, response);
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_search_users",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error searching users",
+    );
+  }
+}
+
+export async function getUser(ctx: RouterContext<"/api/admin/users/:userId">) {
+  HTTPMetrics.track("GET", "/api/admin/users/:userId");
+
+  try {
+    const user = await userService.findById(ctx.params.userId);
+    if (!user) {
+      return Response.notFound(ctx, "User not found");
+    }
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "view_user",
+      targetUserId: user.userId,
+    });
+
+    const response: AdminUserDetailResponse = {
+      ...toAdminUserResponse(user),
+      activity: await auditService.getActivityStats(user),
+      activeSessions: (await sessionService.listSessions(user.userId)).length,
+    };
+
+    return Response.success(ctx, response);
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_get_user",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error fetching user",
+    );
+  }
+}
+
+export async function listUserEvents(
+  ctx: RouterContext<"/api/admin/users/:userId/events">,
+) {
+  HTTPMetrics.track("GET", "/api/admin/users/:userId/events");
+
+  try {
+    const paging = readPage(ctx.request.url);
+    if (!paging) {
+      return Response.badRequest(ctx, "Invalid page or page_size");
+    }
+
+    const user = await userService.findById(ctx.params.userId);
+    if (!user) {
+      return Response.notFound(ctx, "User not found");
+    }
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "view_user_events",
+      targetUserId: user.userId,
+    });
+
+    const { events, totalCount } = await auditService.listEvents(
+      user.userId,
+      paging.page,
+      paging.pageSize,
+    );
+    const pageCount = Math.ceil(totalCount / paging.pageSize);
+
+    const response: SecurityEventPageResponse = {
+      events: events.map(toSecurityEventResponse),
+      activity: await auditService.getActivityStats(user),
+      totalCount,
+      pageCount,
+      currentPage: paging.page,
+      links: pageLinks(
+        ctx.request.url,
+        paging.page,
+        paging.pageSize,
+        pageCount,
+      ),
+    };
+
+    return Response.success(ctx, response);
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_list_user_events",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error listing security events",
+    );
+  }
+}
+
+// Disabling signs the user out everywhere and revokes their access tokens,
+// and blocks every way of logging in until an admin enables them again.
+export async function disableUser(
+  ctx: RouterContext<"/api/admin/users/:userId/disable">,
+) {
+  HTTPMetrics.track("POST", "/api/admin/users/:userId/disable");
+
+  try {
+    const reason = await readReason(ctx, "reason");
+    if (!reason) {
+      return Response.badRequest(ctx, "A reason is required");
+    }
+
+    if (ctx.params.userId === ctx.state.user.userId) {
+      return Response.badRequest(ctx, "You can't disable your own account");
+    }
+
+    const user = await userService.findById(ctx.params.userId);
+    if (!user) {
+      return Response.notFound(ctx, "User not found");
+    }
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "disable_user",
+      targetUserId: user.userId,
+      reason,
+    });
+
+    await adminService.disableUser(user.userId, reason);
+    await sessionService.revokeAllSessions(user.userId);
+    await accessTokenService.revokeAllTokens(user.userId);
+
+    return Response.success(ctx, { disabled: true });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_disable_user",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error disabling user",
+    );
+  }
+}
+
+export async function enableUser(
+  ctx: RouterContext<"/api/admin/users/:userId/enable">,
+) {
+  HTTPMetrics.track("POST", "/api/admin/users/:userId/enable");
+
+  try {
+    const reason = await readReason(ctx, "reason");
+    if (!reason) {
+      return Response.badRequest(ctx, "A reason is required");
+    }
+
+    const user = await userService.findById(ctx.params.userId);
+    if (!user) {
+      return Response.notFound(ctx, "User not found");
+    }
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "enable_user",
+      targetUserId: user.userId,
+      reason,
+    });
+
+    await adminService.enableUser(user.userId);
+
+    return Response.success(ctx, { disabled: false });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_enable_user",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error enabling user",
+    );
+  }
+}
+
+export async function forceLogout(
+  ctx: RouterContext<"/api/admin/users/:userId/logout">,
+) {
+  HTTPMetrics.track("POST", "/api/admin/users/:userId/logout");
+
+  try {
+    const reason = await readReason(ctx, "reason");
+    if (!reason) {
+      return Response.badRequest(ctx, "A reason is required");
+    }
+
+    const user = await userService.findById(ctx.params.userId);
+    if (!user) {
+      return Response.notFound(ctx, "User not found");
+    }
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "force_logout",
+      targetUserId: user.userId,
+      reason,
+    });
+
+    const revokedSessions = await sessionService.revokeAllSessions(
+      user.userId,
+    );
+
+    return Response.success(ctx, { revokedSessions });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_force_logout",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error signing user out",
+    );
+  }
+}
+
+// The request has to say how the user's identity was checked (e.g. a ticket
+// reference); it is kept as the reason of the audit entry.
+export async function resetTwoFactor(
+  ctx: RouterContext<"/api/admin/users/:userId/2fa/reset">,
+) {
+  HTTPMetrics.track("POST", "/api/admin/users/:userId/2fa/reset");
+
+  try {
+    const verification = await readReason(ctx, "verification");
+    if (!verification) {
+      return Response.badRequest(
+        ctx,
+        "Describe how the user's identity was verified",
+      );
+    }
+
+    const user = await userService.findById(ctx.params.userId);
+    if (!user) {
+      return Response.notFound(ctx, "User not found");
+    }
+
+    if (!user.twoFactorEnabled) {
+      return Response.badRequest(ctx, "Two factor is not enabled");
+    }
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "reset_two_factor",
+      targetUserId: user.userId,
+      reason: verification,
+    });
+
+    await adminService.resetTwoFactor(user.userId);
+    await trustedDeviceService.revokeAllDevices(user.userId);
+
+    return Response.success(ctx, { twoFactorEnabled: false });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_reset_two_factor",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error resetting 2FA",
+    );
+  }
+}
+
+export async function listAdminAudit(ctx: RouterContext<"/api/admin/audit">) {
+  HTTPMetrics.track("GET", "/api/admin/audit");
+
+  try {
+    const paging = readPage(ctx.request.url);
+    if (!paging) {
+      return Response.badRequest(ctx, "Invalid page or page_size");
+    }
+    const target = ctx.request.url.searchParams.get("target") ?? undefined;
+
+    await adminService.recordAction({
+      ...actor(ctx),
+      action: "view_admin_audit",
+      targetUserId: target,
+    });
+
+    const { entries, totalCount } = await adminService.listAuditEntries(
+      target,
+      paging.page,
+      paging.pageSize,
+    );
+    const pageCount = Math.ceil(totalCount / paging.pageSize);
+
+    const response: AdminAuditPageResponse = {
+      entries: entries.map(toAdminAuditEntryResponse),
+      totalCount,
+      pageCount,
+      currentPage: paging.page,
+      links: pageLinks(
+        ctx.request.url,
+        paging.page,
+        paging.pageSize,
+        pageCount,
+      ),
+    };
+
+    return Response.success(ctx, response);
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "admin_list_audit",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error listing admin audit",
+    );
+  }
+}
@@ -1,28 +1,21 @@
-import { ChangeEmailRequest } from "../models/user.ts";
+import { ChangeEmailRequest, EmailChangeTokenRequest } from "../models/user.ts";
 import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
-import { userService } from "../config/serviceSetup.ts";
+import {
+  auditService,
+  sessionService,
+  userService,
+} from "../config/serviceSetup.ts";
+import { clientInfo } from "../utils/context.ts";
 import { ChangeRateLimit } from "../utils/rateLimiter.ts";
 import { Response } from "../utils/response.ts";
-import { RouterContext } from "@oak/oak";
+import { Context, RouterContext } from "@oak/oak";
 
 export async function changeEmail(
   ctx: RouterContext<"/api/:userId/change-email">,
 ) {
   HTTPMetrics.track("PUT", "/change-email");
 
-  const tokenUserId = ctx.state.user?.userId;
-  const paramUserId = ctx.params?.userId;
-
-  if (!tokenUserId || !paramUserId || tokenUserId !== paramUserId) {
-    ErrorCounter.add(1, {
-      type: "auth",
-      operation: "change_email_unauthorized",
-    });
-    return Response.unauthorized(
-      ctx,
-      "Missing or invalid Token",
-    );
-  }
+  const tokenUserId = ctx.state.user.userId as string;
 
   try {
     const body = await ctx.request.body.json();
@@ -41,7 +34,7 @@ export async function changeEmail(
         return Response.unauthorized(ctx, "User not found");
       }
 
-      await userService.updateEmail(user.userId, req.newEmail);
+      await userService.requestEmailChange(user.userId, req.newEmail);
     } catch (error) {
       if (error instanceof Error) {
         Response.badRequest(ctx, error.message);
@@ -49,7 +42,10 @@ export async function changeEmail(
       throw error;
     }
 
-    return Response.success(ctx, "User email has been updated");
+    return Response.success(
+      ctx,
+      "Check your new email address to confirm the change",
+    );
   } catch (error) {
     if (error instanceof ChangeRateLimit) {
       ErrorCounter.add(1, {
@@ -71,3 +67,96 @@ export async function changeEmail(
     );
   }
 }
+
+export async function confirmEmailChange(ctx: Context) {
+  HTTPMetrics.track("POST", "/email/change/confirm");
+
+  try {
+    const body = (await ctx.request.body.json()) as EmailChangeTokenRequest;
+    if (!body?.token) {
+      return Response.badRequest(ctx, "Confirmation token is required");
+    }
+
+    let userId: string;
+
+    try {
+      userId = await userService.confirmEmailChange(body.token);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "confirm_email_change_failed",
+      });
+      return Response.badRequest(
+        ctx,
+        error instanceof Error ? error.message : "Email change failed",
+      );
+    }
+
+    await auditService.record({
+      userId: userId,
+      type: "email_changed",
+      details: { method: "confirm" },
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(ctx, "User email has been updated");
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "confirm_email_change",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error confirming email change",
+    );
+  }
+}
+
+export async function revertEmailChange(ctx: Context) {
+  HTTPMetrics.track("POST", "/email/change/revert");
+
+  try {
+    const body = (await ctx.request.body.json()) as EmailChangeTokenRequest;
+    if (!body?.token) {
+      return Response.badRequest(ctx, "Revert token is required");
+    }
+
+    let userId: string;
+
+    try {
+      userId = await userService.revertEmailChange(body.token);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "revert_email_change_failed",
+      });
+      return Response.badRequest(
+        ctx,
+        error instanceof Error ? error.message : "Email revert failed",
+      );
+    }
+
+    // Whoever asked for the change may still be signed in
+    await sessionService.revokeAllSessions(userId);
+    await auditService.record({
+      userId: userId,
+      type: "email_changed",
+      details: { method: "revert" },
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(
+      ctx,
+      "Email change reverted and all sessions signed out",
+    );
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "revert_email_change",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error reverting email change",
+    );
+  }
+}
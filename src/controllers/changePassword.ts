@@ -1,7 +1,14 @@
 import { Response } from "../utils/response.ts";
-import { userService } from "../config/serviceSetup.ts";
+import {
+  auditService,
+  sessionService,
+  trustedDeviceService,
+  userService,
+} from "../config/serviceSetup.ts";
+import { clientInfo } from "../utils/context.ts";
 import { ChangePasswordRequest } from "../models/user.ts";
 import { ChangeRateLimit } from "../utils/rateLimiter.ts";
+import { PasswordPolicyError } from "../services/password.ts";
 import { RouterContext } from "@oak/oak";
 import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
 
@@ -10,32 +17,16 @@ export async function changePassword(
 ) {
   HTTPMetrics.track("PUT", "/change-password");
 
-  const tokenUserId = ctx.state?.user?.userId;
-  const paramUserId = ctx.params?.userId;
-
-  if (!tokenUserId || !paramUserId || tokenUserId !== paramUserId) {
-    ErrorCounter.add(1, {
-      type: "auth",
-      operation: "change_password_unauthorized",
-    });
-    return Response.unauthorized(
-      ctx,
-      "Missing or invalid Token",
-    );
-  }
+  const tokenUserId = ctx.state.user.userId as string;
 
   try {
     const body = await ctx.request.body.json();
     const req: ChangePasswordRequest = {
-      oldPassword: body.oldPassword?.trim(),
       newPassword: body.newPassword?.trim(),
     };
 
-    if (!req.newPassword || !req.oldPassword) {
-      return Response.badRequest(
-        ctx,
-        "new or existing password not provided",
-      );
+    if (!req.newPassword) {
+      return Response.badRequest(ctx, "new password not provided");
     }
 
     const user = await userService.findById(tokenUserId);
@@ -44,23 +35,27 @@ export async function changePassword(
       return Response.unauthorized(ctx, "User not found");
     }
 
-    if (req.newPassword === req.oldPassword) {
-      return Response.badRequest(ctx, "failed to provide a new password");
-    }
-
     try {
-      await userService.changePassword(
-        user.userId,
-        req.newPassword,
-        req.oldPassword,
-      );
+      await userService.changePassword(user.userId, req.newPassword);
     } catch (error) {
-      if (error instanceof Error) {
-        Response.badRequest(ctx, error.message);
+      if (error instanceof PasswordPolicyError) {
+        return Response.badRequest(ctx, error.message, error.feedback);
+      }
+      if (error instanceof Error && !(error instanceof ChangeRateLimit)) {
+        return Response.badRequest(ctx, error.message);
       }
       throw error;
     }
 
+    await sessionService.revokeAllSessions(user.userId);
+    await trustedDeviceService.revokeAllDevices(user.userId);
+    await auditService.record({
+      userId: user.userId,
+      type: "password_changed",
+      details: { method: "change" },
+      ...clientInfo(ctx),
+    });
+
     return Response.success(ctx, "Password successfully updated");
   } catch (error) {
     if (error instanceof ChangeRateLimit) {
@@ -0,0 +1,86 @@
+import { ChangeUsernameRequest, User } from "../models/user.ts";
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { sessionService, userService } from "../config/serviceSetup.ts";
+import { ChangeRateLimit } from "../utils/rateLimiter.ts";
+import { Response } from "../utils/response.ts";
+import { clientInfo } from "../utils/context.ts";
+import { CSRF_COOKIE, deliverTokens } from "../utils/cookies.ts";
+import { makeUserLink } from "../utils/makeLinks.ts";
+import { toUserResponse } from "../dto/user.ts";
+import { RouterContext } from "@oak/oak";
+
+export async function changeUsername(
+  ctx: RouterContext<"/api/:userId/change-username">,
+) {
+  HTTPMetrics.track("PUT", "/change-username");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const body = await ctx.request.body.json();
+    const req: ChangeUsernameRequest = {
+      newUsername: body.newUsername?.trim(),
+    };
+
+    if (!req.newUsername) {
+      return Response.badRequest(ctx, "New username not provided");
+    }
+
+    let user: User | null;
+    try {
+      user = await userService.updateUsername(tokenUserId, req.newUsername);
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof ChangeRateLimit)) {
+        return Response.badRequest(ctx, error.message);
+      }
+      throw error;
+    }
+
+    if (!user) {
+      return Response.unauthorized(ctx, "User not found");
+    }
+
+    // Every token issued so far still names the old username, so all
+    // sessions end and this one continues on a fresh pair, handed back the
+    // same way the caller sent its credentials.
+    await sessionService.revokeAllSessions(user.userId);
+    const { ipAddress, userAgent } = clientInfo(ctx);
+    const tokenPair = await sessionService.startSession(
+      user,
+      ipAddress,
+      userAgent,
+    );
+    const tokens = deliverTokens(
+      ctx,
+      tokenPair,
+      ctx.state.credential === "bearer" ? "token" : "cookie",
+      await ctx.cookies.get(CSRF_COOKIE),
+    );
+
+    return Response.success(ctx, {
+      user: toUserResponse(user, {
+        self: makeUserLink(user.userId, "self"),
+      }),
+      tokens,
+    });
+  } catch (error) {
+    if (error instanceof ChangeRateLimit) {
+      ErrorCounter.add(1, {
+        type: "rate_limit",
+        operation: "change_username",
+      });
+      return Response.tooManyRequests(
+        ctx,
+        `Trying to update too frequently: ${error.daysUntil}`,
+      );
+    }
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "change_username",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error updating username",
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Response } from "../utils/response.ts";
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { CSRF_COOKIE, setCsrfCookie } from "../utils/cookies.ts";
+import { Context } from "@oak/oak";
+
+// Login already sets the CSRF cookie. A frontend served from another origin
+// can't read that cookie, so it fetches the same value from here instead.
+export async function getCsrfToken(ctx: Context) {
+  HTTPMetrics.track("GET", "/auth/csrf");
+
+  try {
+    const csrfToken = await ctx.cookies.get(CSRF_COOKIE) ?? setCsrfCookie(ctx);
+
+    return Response.success(ctx, { csrfToken });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "get_csrf_token",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error issuing CSRF token",
+    );
+  }
+}
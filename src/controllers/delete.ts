@@ -1,61 +1,63 @@
 import { Response } from "../utils/response.ts";
 import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
-import { Context } from "@oak/oak";
-import { DeleteUserRequest } from "../models/user.ts";
-import { userService } from "../config/serviceSetup.ts";
+import { RouterContext } from "@oak/oak";
+import {
+  accessTokenService,
+  sessionService,
+  userService,
+} from "../config/serviceSetup.ts";
 import { tokenService } from "../services/token.ts";
+import { clearAuthCookies } from "../utils/cookies.ts";
 
-export async function deleteUser(ctx: Context) {
-  HTTPMetrics.track("POST", "/delete");
-  const userId = ctx.state.user?.userId;
-  if (!userId) {
-    ErrorCounter.add(1, {
-      type: "auth",
-      operation: "account_deletion_failed",
-    });
-
-    return Response.unauthorized(ctx, "Missing or invalid Token");
-  }
+// Deleting an account only schedules it. Everything is signed out now and the
+// data is purged once the grace period is over, unless the user logs in again.
+export async function deleteUser(ctx: RouterContext<"/api/:userId">) {
+  HTTPMetrics.track("DELETE", "/api/:userId");
+  const userId = ctx.state.user.userId as string;
 
   try {
-    const body = await ctx.request.body.json();
-    const req: DeleteUserRequest = {
-      passwordOne: body.passwordOne.trim(),
-      passwordTwo: body.passwordTwo.trim(),
-    };
-
-    if (req.passwordOne !== req.passwordTwo) {
-      return Response.badRequest(ctx, "Passwords do not match");
+    const user = await userService.findById(userId);
+    if (!user) {
+      return Response.unauthorized(ctx, "User not found");
     }
 
+    let scheduledFor: Date;
     try {
-      const user = await userService.findById(userId);
-      if (!user) {
-        return Response.unauthorized(ctx, "User not found");
-      }
-
-      await userService.deleteUser(
-        user.userId,
-        req.passwordOne,
-        req.passwordTwo,
-      );
-
-      await tokenService.blacklistTokens([
-        { token: ctx.state.accessToken, type: "access" },
-        { token: ctx.state.refreshToken, type: "refresh" },
-      ]);
+      scheduledFor = await userService.scheduleDeletion(user.userId);
     } catch (error) {
       if (error instanceof Error) {
-        Response.badRequest(ctx, error.message);
+        return Response.badRequest(ctx, error.message);
       }
 
       throw error;
     }
 
-    ctx.cookies.delete("accessToken", { path: "/" });
-    ctx.cookies.delete("refreshToken", { path: "/" });
+    const refreshToken = await ctx.cookies.get("refreshToken");
+    const tokensToBlacklist = [];
+    if (ctx.state.accessToken) {
+      tokensToBlacklist.push({
+        token: ctx.state.accessToken,
+        type: "access" as const,
+      });
+    }
+    if (refreshToken) {
+      tokensToBlacklist.push({
+        token: refreshToken,
+        type: "refresh" as const,
+      });
+    }
+
+    await tokenService.blacklistTokens(tokensToBlacklist);
+    await sessionService.revokeAllSessions(user.userId);
+    await accessTokenService.revokeAllTokens(user.userId);
+
+    clearAuthCookies(ctx);
 
-    return Response.success(ctx, "User has been permanently deleted");
+    return Response.success(ctx, {
+      message:
+        "Account scheduled for deletion. Log in again before then to cancel.",
+      scheduledFor,
+    });
   } catch (error) {
     ErrorCounter.add(1, {
       type: "internal",
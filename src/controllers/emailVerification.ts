@@ -0,0 +1,82 @@
+import { userService } from "../config/serviceSetup.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { RateLimiter } from "../utils/rateLimiter.ts";
+import { Context, RouterContext } from "@oak/oak";
+
+export async function verifyEmail(ctx: Context) {
+  HTTPMetrics.track("POST", "/email/verify");
+
+  try {
+    const body = await ctx.request.body.json();
+    if (!body?.token) {
+      return Response.badRequest(ctx, "Verification token is required");
+    }
+
+    try {
+      await userService.verifyEmail(body.token);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "email_verify_failed",
+      });
+      return Response.badRequest(
+        ctx,
+        error instanceof Error ? error.message : "Email verification failed",
+      );
+    }
+
+    return Response.success(ctx, { message: "Email address verified" });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "verify_email",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error verifying email",
+    );
+  }
+}
+
+export async function resendVerification(
+  ctx: RouterContext<"/api/:userId/email/verify/resend">,
+) {
+  HTTPMetrics.track("POST", "/email/verify/resend");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const ipKey = `verify:${ctx.request.ip}`;
+    const userKey = `verify:${tokenUserId}`;
+
+    if (await RateLimiter.isRateLimited(ipKey, userKey)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many verification emails. Please try again later.",
+      );
+    }
+    await RateLimiter.trackAttempt(ipKey, userKey);
+
+    const user = await userService.findById(tokenUserId);
+    if (!user) {
+      return Response.unauthorized(ctx, "User not found");
+    }
+    if (user.emailVerified) {
+      return Response.badRequest(ctx, "Email is already verified");
+    }
+
+    await userService.sendEmailVerification(user.userId);
+
+    return Response.success(ctx, { message: "Verification email sent" });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "resend_verification",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error sending verification",
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { keyService } from "../services/keys.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { keyConfig } from "../utils/token.ts";
+import { Context } from "@oak/oak";
+
+// Served as a bare JWK Set rather than through Response.success so standard
+// JOSE clients can consume it directly.
+export async function getJwks(ctx: Context) {
+  HTTPMetrics.track("GET", "/.well-known/jwks.json");
+
+  try {
+    const jwks = await keyService.getPublicJwks();
+
+    ctx.response.status = 200;
+    ctx.response.headers.set(
+      "Cache-Control",
+      `public, max-age=${keyConfig.jwksMaxAge}`,
+    );
+    ctx.response.body = jwks;
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "get_jwks",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error fetching signing keys",
+    );
+  }
+}
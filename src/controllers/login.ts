@@ -1,15 +1,52 @@
-import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import {
+  ErrorCounter,
+  HTTPMetrics,
+  SecondFactorFailures,
+} from "../utils/metrics.ts";
 import { Response } from "../utils/response.ts";
 import { LoginRequest } from "../models/user.ts";
 import { toUserResponse } from "../dto/user.ts";
 import { verifyPassword } from "../services/password.ts";
 import { tokenService } from "../services/token.ts";
-import { verifyTOTP } from "../utils/totp.ts";
+import {
+  canUseEmailOtp,
+  EMAIL_OTP_TTL,
+  emailOtpService,
+} from "../services/emailOtp.ts";
 import { RateLimiter } from "../utils/rateLimiter.ts";
 import { Context } from "@oak/oak";
-import * as OTPAuth from "@hectorm/otpauth";
-import { userService } from "../config/serviceSetup.ts";
+import {
+  auditService,
+  sessionService,
+  trustedDeviceService,
+  userService,
+} from "../config/serviceSetup.ts";
 import { makeUserLink } from "../utils/makeLinks.ts";
+import {
+  deliverTokens,
+  isLoginMode,
+  setTrustedDeviceCookie,
+  TRUSTED_DEVICE_COOKIE,
+} from "../utils/cookies.ts";
+import { clientInfo } from "../utils/context.ts";
+
+// An expired, revoked or forged temp token all end up as the same 401.
+async function readTempToken(token: string) {
+  try {
+    return await tokenService.verifyTempToken(token);
+  } catch {
+    return null;
+  }
+}
+
+// A cookie from another user's login, or for a revoked device, just means
+// the second factor is asked for as usual.
+async function readTrustedDevice(ctx: Context, userId: string) {
+  const cookie = await ctx.cookies.get(TRUSTED_DEVICE_COOKIE);
+  return cookie
+    ? await trustedDeviceService.verifyDevice(userId, cookie)
+    : null;
+}
 
 export async function login(ctx: Context) {
   HTTPMetrics.track("POST", "/login");
@@ -20,6 +57,10 @@ export async function login(ctx: Context) {
       return Response.badRequest(ctx, "Invalid Input");
     }
 
+    if (loginReq.mode !== undefined && !isLoginMode(loginReq.mode)) {
+      return Response.badRequest(ctx, "Invalid login mode");
+    }
+
     if (await RateLimiter.isRateLimited(ctx.request.ip, loginReq.username)) {
       return Response.tooManyRequests(
         ctx,
@@ -38,16 +79,42 @@ export async function login(ctx: Context) {
         user.passwordHash,
         loginReq.password,
       );
-      if (!checkPassword) {
+      if (!checkPassword.valid) {
         await RateLimiter.trackAttempt(ctx.request.ip, loginReq.username);
+        await auditService.record({
+          userId: user.userId,
+          type: "login",
+          success: false,
+          details: { method: "password", reason: "invalid_password" },
+          ...clientInfo(ctx),
+        });
         return Response.unauthorized(ctx, "Invalid password");
       }
 
       await RateLimiter.resetAttempts(ctx.request.ip, loginReq.username);
 
-      if (user.twoFactorEnabled) {
-        const recoveryAvailable =
-          user.recoveryCodes && user.recoveryCodes.length > 0;
+      if (checkPassword.needsRehash) {
+        await userService.upgradePasswordHash(user, loginReq.password);
+      }
+
+      if (user.disabled) {
+        await auditService.record({
+          userId: user.userId,
+          type: "login",
+          success: false,
+          details: { method: "password", reason: "account_disabled" },
+          ...clientInfo(ctx),
+        });
+        return Response.forbidden(ctx, "Account is disabled");
+      }
+
+      const trustedDevice = user.twoFactorEnabled
+        ? await readTrustedDevice(ctx, user.userId)
+        : null;
+
+      if (user.twoFactorEnabled && !trustedDevice) {
+        const recoveryAvailable = user.recoveryCodes &&
+          user.recoveryCodes.length > 0;
 
         const temp = await tokenService.generateTempToken(
           user.userId,
@@ -60,36 +127,39 @@ export async function login(ctx: Context) {
           tempToken: temp,
           user: user.username,
           recoveryAvailable,
+          emailCodeAvailable: canUseEmailOtp(user),
         });
       }
 
-      const tokenPair = await tokenService.generateTokenPair(user);
+      // Logging in calls off a scheduled account deletion
+      await userService.cancelDeletion(user);
+      await auditService.record({
+        userId: user.userId,
+        type: "login",
+        details: trustedDevice
+          ? { method: "password", trustedDevice: trustedDevice.deviceId }
+          : { method: "password" },
+        ...clientInfo(ctx),
+      });
+
+      const { ipAddress, userAgent } = clientInfo(ctx);
+      const tokenPair = await sessionService.startSession(
+        user,
+        ipAddress,
+        userAgent,
+      );
       const links = {
         self: makeUserLink(user.userId, "self"),
         logout: { href: "/auth/logout", method: "POST" },
       };
       const userResponse = toUserResponse(user, links);
 
-      const isProd = Deno.env.get("ENV") === "PROD";
-
-      ctx.cookies.set("accessToken", tokenPair.accessToken, {
-        httpOnly: true,
-        secure: isProd,
-        sameSite: "lax",
-        path: "/",
-      });
-
-      ctx.cookies.set("refreshToken", tokenPair.refreshToken, {
-        httpOnly: true,
-        secure: isProd,
-        sameSite: "lax",
-        path: "/",
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days (longer than access token)
-      });
+      const tokens = deliverTokens(ctx, tokenPair, loginReq.mode);
 
       console.log("Successful Login");
       return Response.success(ctx, {
         user: userResponse,
+        tokens,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -127,6 +197,17 @@ export async function withTwoFactor(ctx: Context) {
       return Response.badRequest(ctx, "Invalid input");
     }
 
+    if (body.mode !== undefined && !isLoginMode(body.mode)) {
+      return Response.badRequest(ctx, "Invalid login mode");
+    }
+
+    if (
+      body.rememberDevice !== undefined &&
+      typeof body.rememberDevice !== "boolean"
+    ) {
+      return Response.badRequest(ctx, "Invalid input");
+    }
+
     const { tempToken, totpCode } = body;
 
     if (totpCode.length !== 6) {
@@ -141,12 +222,23 @@ export async function withTwoFactor(ctx: Context) {
       );
     }
 
-    const payload = await tokenService.verifyTempToken(tempToken);
+    const payload = await readTempToken(tempToken);
     if (!payload || payload.type !== "temp" || !payload.userId) {
       await RateLimiter.trackAttempt(ctx.request.ip);
+      SecondFactorFailures.add(1, {
+        method: "totp",
+        reason: "invalid_session",
+      });
       return Response.unauthorized(ctx, "Invalid or expired 2FA session");
     }
 
+    if (await RateLimiter.isRateLimited(ctx.request.ip, payload.userId)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many 2FA attempts. Please try again later.",
+      );
+    }
+
     // const userService = await UserService.initialize();
     const user = await userService.findById(payload.userId);
     if (!user) {
@@ -154,20 +246,46 @@ export async function withTwoFactor(ctx: Context) {
       return Response.unauthorized(ctx, "User not found");
     }
 
+    if (user.disabled) {
+      return Response.forbidden(ctx, "Account is disabled");
+    }
+
     try {
-      const isValidTotp = verifyTOTP(
-        OTPAuth.Secret.fromBase32(user.twoFactorSecret!),
-        totpCode,
-      );
-      if (!isValidTotp) {
-        await RateLimiter.trackAttempt(ctx.request.ip);
+      const totpCheck = await userService.consumeTotp(user, totpCode);
+      if (totpCheck !== "accepted") {
+        await RateLimiter.trackAttempt(ctx.request.ip, user.userId);
+        SecondFactorFailures.add(1, { method: "totp", reason: totpCheck });
+        await auditService.record({
+          userId: user.userId,
+          type: "login",
+          success: false,
+          details: { method: "totp", reason: totpCheck },
+          ...clientInfo(ctx),
+        });
+        if (await tokenService.recordTempTokenFailure(payload)) {
+          return Response.unauthorized(ctx, "Invalid or expired 2FA session");
+        }
         return Response.unauthorized(ctx, "Invalid 2FA code");
       }
 
       // Reset rate limiting on successful 2FA
-      await RateLimiter.resetAttempts(ctx.request.ip);
+      await RateLimiter.resetAttempts(ctx.request.ip, user.userId);
+      await tokenService.consumeTempToken(payload);
+
+      await userService.cancelDeletion(user);
+      await auditService.record({
+        userId: user.userId,
+        type: "login",
+        details: { method: "totp" },
+        ...clientInfo(ctx),
+      });
 
-      const tokenPair = await tokenService.generateTokenPair(user);
+      const { ipAddress, userAgent } = clientInfo(ctx);
+      const tokenPair = await sessionService.startSession(
+        user,
+        ipAddress,
+        userAgent,
+      );
       const links = {
         self: makeUserLink(user.userId, "self"),
         logout: { href: "/auth/logout", method: "POST" },
@@ -175,25 +293,31 @@ export async function withTwoFactor(ctx: Context) {
 
       const userResponse = toUserResponse(user, links);
 
-      const isProd = Deno.env.get("ENV") === "PROD";
-
-      ctx.cookies.set("accessToken", tokenPair.accessToken, {
-        httpOnly: true,
-        secure: isProd,
-        sameSite: "lax",
-        path: "/",
-      });
+      const tokens = deliverTokens(ctx, tokenPair, body.mode);
 
-      ctx.cookies.set("refreshToken", tokenPair.refreshToken, {
-        httpOnly: true,
-        secure: isProd,
-        sameSite: "lax",
-        path: "/",
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days (longer than access token)
-      });
+      // Only offered after a TOTP code: someone logging in with a recovery
+      // or email code has most likely lost the device their codes are on.
+      let trustedUntil: Date | undefined;
+      if (body.rememberDevice && trustedDeviceService.isEnabled()) {
+        const { cookie, device } = await trustedDeviceService.trustDevice(
+          user.userId,
+          ipAddress,
+          userAgent,
+        );
+        setTrustedDeviceCookie(ctx, cookie, device.expiresAt);
+        await auditService.record({
+          userId: user.userId,
+          type: "device_trusted",
+          details: { deviceId: device.deviceId },
+          ...clientInfo(ctx),
+        });
+        trustedUntil = device.expiresAt;
+      }
 
       return Response.success(ctx, {
         user: userResponse,
+        tokens,
+        trustedUntil,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -229,6 +353,10 @@ export async function withRecovery(ctx: Context) {
       return Response.badRequest(ctx, "Invalid input");
     }
 
+    if (body.mode !== undefined && !isLoginMode(body.mode)) {
+      return Response.badRequest(ctx, "Invalid login mode");
+    }
+
     const { tempToken, recoveryCode } = body;
 
     if (await RateLimiter.isRateLimited(ctx.request.ip)) {
@@ -238,12 +366,23 @@ export async function withRecovery(ctx: Context) {
       );
     }
 
-    const payload = await tokenService.verifyTempToken(tempToken);
+    const payload = await readTempToken(tempToken);
     if (!payload || payload.type !== "temp" || !payload.userId) {
       await RateLimiter.trackAttempt(ctx.request.ip);
+      SecondFactorFailures.add(1, {
+        method: "recovery",
+        reason: "invalid_session",
+      });
       return Response.unauthorized(ctx, "Invalid or expired session");
     }
 
+    if (await RateLimiter.isRateLimited(ctx.request.ip, payload.userId)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many recovery attempts. Please try again later",
+      );
+    }
+
     if (!payload.recoveryAvailable) {
       await RateLimiter.trackAttempt(ctx.request.ip);
       return Response.unauthorized(
@@ -260,18 +399,52 @@ export async function withRecovery(ctx: Context) {
         return Response.unauthorized(ctx, "User not found");
       }
 
+      if (user.disabled) {
+        return Response.forbidden(ctx, "Account is disabled");
+      }
+
       const isValidRecovery = await userService.useRecoveryCode(
         user.userId,
         recoveryCode,
       );
       if (!isValidRecovery) {
-        await RateLimiter.trackAttempt(ctx.request.ip);
+        await RateLimiter.trackAttempt(ctx.request.ip, user.userId);
+        SecondFactorFailures.add(1, { method: "recovery", reason: "invalid" });
+        await auditService.record({
+          userId: user.userId,
+          type: "login",
+          success: false,
+          details: { method: "recovery", reason: "invalid" },
+          ...clientInfo(ctx),
+        });
+        if (await tokenService.recordTempTokenFailure(payload)) {
+          return Response.unauthorized(ctx, "Invalid or expired session");
+        }
         return Response.unauthorized(ctx, "Invalid recovery code");
       }
 
-      await RateLimiter.resetAttempts(ctx.request.ip);
+      await RateLimiter.resetAttempts(ctx.request.ip, user.userId);
+      await tokenService.consumeTempToken(payload);
 
-      const tokenPair = await tokenService.generateTokenPair(user);
+      await userService.cancelDeletion(user);
+      await auditService.record({
+        userId: user.userId,
+        type: "recovery_code_used",
+        ...clientInfo(ctx),
+      });
+      await auditService.record({
+        userId: user.userId,
+        type: "login",
+        details: { method: "recovery" },
+        ...clientInfo(ctx),
+      });
+
+      const { ipAddress, userAgent } = clientInfo(ctx);
+      const tokenPair = await sessionService.startSession(
+        user,
+        ipAddress,
+        userAgent,
+      );
       const links = {
         self: makeUserLink(user.userId, "self"),
         logout: { href: "/auth/logout", method: "POST" },
@@ -279,25 +452,211 @@ export async function withRecovery(ctx: Context) {
 
       const userResponse = toUserResponse(user, links);
 
-      const isProd = Deno.env.get("ENV") === "PROD";
+      const tokens = deliverTokens(ctx, tokenPair, body.mode);
 
-      ctx.cookies.set("accessToken", tokenPair.accessToken, {
-        httpOnly: true,
-        secure: isProd,
-        sameSite: "lax",
-        path: "/",
+      return Response.success(ctx, {
+        user: userResponse,
+        tokens,
       });
+    } catch (error) {
+      if (error instanceof Error) {
+        return Response.badRequest(ctx, error.message);
+      }
+
+      throw error;
+    }
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "login",
+      operation: "with_recovery_code",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error verifying recovery code",
+    );
+  }
+}
+
+// Sends a login code to the verified email address, for users who enrolled
+// email codes and can't get at their authenticator app.
+export async function sendEmailCode(ctx: Context) {
+  HTTPMetrics.track("POST", "/login/2fa/email");
+
+  try {
+    const body = await ctx.request.body.json();
+    if (!body || typeof body.tempToken !== "string") {
+      return Response.badRequest(ctx, "Invalid input");
+    }
+
+    if (await RateLimiter.isRateLimited(ctx.request.ip)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many 2FA attempts. Please try again later.",
+      );
+    }
 
-      ctx.cookies.set("refreshToken", tokenPair.refreshToken, {
-        httpOnly: true,
-        secure: isProd,
-        sameSite: "lax",
-        path: "/",
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days (longer than access token)
+    const payload = await readTempToken(body.tempToken);
+    if (!payload || payload.type !== "temp" || !payload.userId) {
+      await RateLimiter.trackAttempt(ctx.request.ip);
+      return Response.unauthorized(ctx, "Invalid or expired 2FA session");
+    }
+
+    const user = await userService.findById(payload.userId);
+    if (!user) {
+      await RateLimiter.trackAttempt(ctx.request.ip);
+      return Response.unauthorized(ctx, "User not found");
+    }
+
+    if (user.disabled) {
+      return Response.forbidden(ctx, "Account is disabled");
+    }
+
+    if (!canUseEmailOtp(user)) {
+      return Response.badRequest(
+        ctx,
+        "Email codes are not enabled for this account",
+      );
+    }
+
+    if (!(await emailOtpService.send(user))) {
+      return Response.tooManyRequests(
+        ctx,
+        "An email code was sent recently. Please wait before asking again.",
+      );
+    }
+
+    return Response.success(ctx, { sent: true, expiresIn: EMAIL_OTP_TTL });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "login",
+      operation: "send_email_code",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error sending email code",
+    );
+  }
+}
+
+export async function withEmailCode(ctx: Context) {
+  HTTPMetrics.track("POST", "/login/2fa/email/verify");
+
+  try {
+    const body = await ctx.request.body.json();
+    if (!body) {
+      return Response.badRequest(ctx, "Invalid input");
+    }
+
+    if (
+      typeof body.tempToken !== "string" ||
+      typeof body.emailCode !== "string"
+    ) {
+      return Response.badRequest(ctx, "Invalid input");
+    }
+
+    if (body.mode !== undefined && !isLoginMode(body.mode)) {
+      return Response.badRequest(ctx, "Invalid login mode");
+    }
+
+    const { tempToken, emailCode } = body;
+
+    if (!/^\d{6}$/.test(emailCode)) {
+      return Response.badRequest(ctx, "Invalid email code format");
+    }
+
+    if (await RateLimiter.isRateLimited(ctx.request.ip)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many 2FA attempts. Please try again later.",
+      );
+    }
+
+    const payload = await readTempToken(tempToken);
+    if (!payload || payload.type !== "temp" || !payload.userId) {
+      await RateLimiter.trackAttempt(ctx.request.ip);
+      SecondFactorFailures.add(1, {
+        method: "email",
+        reason: "invalid_session",
       });
+      return Response.unauthorized(ctx, "Invalid or expired 2FA session");
+    }
+
+    if (await RateLimiter.isRateLimited(ctx.request.ip, payload.userId)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many 2FA attempts. Please try again later.",
+      );
+    }
+
+    const user = await userService.findById(payload.userId);
+    if (!user) {
+      await RateLimiter.trackAttempt(ctx.request.ip);
+      return Response.unauthorized(ctx, "User not found");
+    }
+
+    if (user.disabled) {
+      return Response.forbidden(ctx, "Account is disabled");
+    }
+
+    if (!canUseEmailOtp(user)) {
+      return Response.badRequest(
+        ctx,
+        "Email codes are not enabled for this account",
+      );
+    }
+
+    try {
+      const emailCheck = await emailOtpService.verify(user.userId, emailCode);
+      if (emailCheck !== "accepted") {
+        await RateLimiter.trackAttempt(ctx.request.ip, user.userId);
+        SecondFactorFailures.add(1, { method: "email", reason: emailCheck });
+        await auditService.record({
+          userId: user.userId,
+          type: "login",
+          success: false,
+          details: { method: "email", reason: emailCheck },
+          ...clientInfo(ctx),
+        });
+        if (await tokenService.recordTempTokenFailure(payload)) {
+          return Response.unauthorized(ctx, "Invalid or expired 2FA session");
+        }
+        return Response.unauthorized(
+          ctx,
+          emailCheck === "expired"
+            ? "Email code has expired. Please ask for a new one."
+            : "Invalid email code",
+        );
+      }
+
+      await RateLimiter.resetAttempts(ctx.request.ip, user.userId);
+      await tokenService.consumeTempToken(payload);
+
+      await userService.cancelDeletion(user);
+      await auditService.record({
+        userId: user.userId,
+        type: "login",
+        details: { method: "email" },
+        ...clientInfo(ctx),
+      });
+
+      const { ipAddress, userAgent } = clientInfo(ctx);
+      const tokenPair = await sessionService.startSession(
+        user,
+        ipAddress,
+        userAgent,
+      );
+      const links = {
+        self: makeUserLink(user.userId, "self"),
+        logout: { href: "/auth/logout", method: "POST" },
+      };
+
+      const userResponse = toUserResponse(user, links);
+
+      const tokens = deliverTokens(ctx, tokenPair, body.mode);
 
       return Response.success(ctx, {
         user: userResponse,
+        tokens,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -309,11 +668,11 @@ export async function withRecovery(ctx: Context) {
   } catch (error) {
     ErrorCounter.add(1, {
       type: "login",
-      operation: "with_recovery_code",
+      operation: "with_email_code",
     });
     return Response.internalError(
       ctx,
-      error instanceof Error ? error.message : "Error verifying recovery code",
+      error instanceof Error ? error.message : "Error verifying email code",
     );
   }
 }
@@ -1,14 +1,23 @@
 import { tokenService } from "../services/token.ts";
+import { sessionService } from "../config/serviceSetup.ts";
 import { Response } from "../utils/response.ts";
 import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { clearAuthCookies, readBodyRefreshToken } from "../utils/cookies.ts";
 import { Context } from "@oak/oak";
 
 export async function logout(ctx: Context) {
   HTTPMetrics.track("POST", "/logout");
 
   try {
-    const accessToken = await ctx.cookies.get("accessToken");
-    const refreshToken = await ctx.cookies.get("refreshToken");
+    // Only the credential the request came with is revoked: a bearer logout
+    // leaves the browser's cookies alone and the other way round.
+    const bearer = ctx.state.credential === "bearer";
+    const accessToken = bearer
+      ? ctx.state.accessToken
+      : await ctx.cookies.get("accessToken");
+    const refreshToken = bearer
+      ? await readBodyRefreshToken(ctx)
+      : await ctx.cookies.get("refreshToken");
 
     if (!accessToken && !refreshToken) {
       ErrorCounter.add(1, {
@@ -18,7 +27,9 @@ export async function logout(ctx: Context) {
       return Response.unauthorized(ctx, "Invalid authorization token");
     }
 
-    if (!refreshToken) {
+    // Bearer clients may leave the refresh token out, revoking the session
+    // below invalidates it anyway
+    if (!refreshToken && !bearer) {
       return Response.badRequest(ctx, "Missing refresh token");
     }
 
@@ -34,8 +45,14 @@ export async function logout(ctx: Context) {
       await tokenService.blacklistTokens(tokensToBlacklist);
     }
 
-    ctx.cookies.delete("accessToken", { path: "/" });
-    ctx.cookies.delete("refreshToken", { path: "/" });
+    const user = ctx.state.user;
+    if (user?.sid) {
+      await sessionService.revokeSession(user.userId, user.sid);
+    }
+
+    if (!bearer) {
+      clearAuthCookies(ctx);
+    }
 
     return Response.success(ctx, {
       data: { message: "Successfully logged out" },
@@ -7,10 +7,12 @@ import {
 import { Response } from "../utils/response.ts";
 import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
 import { noteService, userService } from "../config/serviceSetup.ts";
-import { Context, RouterContext } from "@oak/oak";
+import { RouterContext } from "@oak/oak";
 import { makeNoteLink } from "../utils/makeLinks.ts";
 
-export async function searchNotes(ctx: Context) {
+export async function searchNotes(
+  ctx: RouterContext<"/api/:userId/notes/search">,
+) {
   HTTPMetrics.track("GET", "/notes/search");
 
   try {
@@ -18,6 +20,12 @@ export async function searchNotes(ctx: Context) {
     if (!userId) {
       return Response.unauthorized(ctx, "User not found");
     }
+    if (userId !== ctx.params.userId) {
+      return Response.forbidden(
+        ctx,
+        "Token userId and Context userId do not match",
+      );
+    }
 
     const validUser = await userService.findById(userId);
     if (!validUser) {
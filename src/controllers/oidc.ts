@@ -0,0 +1,200 @@
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { Response } from "../utils/response.ts";
+import { timingSafeEqual } from "../utils/crypto.ts";
+import { toUserResponse } from "../dto/user.ts";
+import {
+  auditService,
+  oidcService,
+  sessionService,
+  userService,
+} from "../config/serviceSetup.ts";
+import { OidcError, OidcResult } from "../services/oidc.ts";
+import { tokenService } from "../services/token.ts";
+import { getOidcProvider, oidcConfig } from "../utils/oidc.ts";
+import { makeUserLink } from "../utils/makeLinks.ts";
+import {
+  clearOidcStateCookie,
+  OIDC_STATE_COOKIE,
+  setAuthCookies,
+  setOidcStateCookie,
+} from "../utils/cookies.ts";
+import { clientInfo } from "../utils/context.ts";
+import { RouterContext } from "@oak/oak";
+
+export async function oidcAuthorize(
+  ctx: RouterContext<"/api/auth/oidc/:provider/authorize">,
+) {
+  HTTPMetrics.track("GET", "/auth/oidc/:provider/authorize");
+
+  try {
+    const provider = getOidcProvider(ctx.params.provider);
+    if (!provider) {
+      return Response.notFound(ctx, "Unknown sign-in provider");
+    }
+
+    const { authorizationUrl, state } = await oidcService
+      .buildAuthorizationUrl(provider);
+    setOidcStateCookie(ctx, state, oidcConfig.stateTtl);
+
+    return Response.success(ctx, { authorizationUrl });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "oidc_authorize",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error starting sign-in",
+    );
+  }
+}
+
+// Linking is only ever started by the signed-in owner; the callback then
+// attaches the provider identity to this account instead of signing in.
+export async function oidcLinkAuthorize(
+  ctx: RouterContext<"/api/:userId/identities/:provider/authorize">,
+) {
+  HTTPMetrics.track("GET", "/:userId/identities/:provider/authorize");
+
+  try {
+    const provider = getOidcProvider(ctx.params.provider);
+    if (!provider) {
+      return Response.notFound(ctx, "Unknown sign-in provider");
+    }
+
+    const { authorizationUrl, state } = await oidcService
+      .buildAuthorizationUrl(provider, ctx.params.userId);
+    setOidcStateCookie(ctx, state, oidcConfig.stateTtl);
+
+    return Response.success(ctx, { authorizationUrl });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "oidc_link_authorize",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error starting account link",
+    );
+  }
+}
+
+export async function oidcCallback(
+  ctx: RouterContext<"/api/auth/oidc/:provider/callback">,
+) {
+  HTTPMetrics.track("GET", "/auth/oidc/:provider/callback");
+
+  try {
+    const provider = getOidcProvider(ctx.params.provider);
+    if (!provider) {
+      return Response.notFound(ctx, "Unknown sign-in provider");
+    }
+
+    const params = ctx.request.url.searchParams;
+    if (params.get("error")) {
+      return Response.unauthorized(
+        ctx,
+        `Sign-in was cancelled: ${params.get("error")}`,
+      );
+    }
+
+    const code = params.get("code");
+    const state = params.get("state");
+    if (!code || !state) {
+      return Response.badRequest(ctx, "Missing code or state");
+    }
+
+    const boundState = await ctx.cookies.get(OIDC_STATE_COOKIE);
+    clearOidcStateCookie(ctx);
+    if (!boundState || !timingSafeEqual(boundState, state)) {
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "oidc_state_mismatch",
+      });
+      return Response.unauthorized(ctx, "Invalid or expired sign-in state");
+    }
+
+    let result: OidcResult;
+
+    try {
+      result = await oidcService.handleCallback(provider, code, state);
+    } catch (error) {
+      if (error instanceof OidcError) {
+        ErrorCounter.add(1, {
+          type: "auth",
+          operation: "oidc_login_failed",
+        });
+        return Response.unauthorized(ctx, error.message);
+      }
+      throw error;
+    }
+
+    const { user, linked } = result;
+
+    if (linked) {
+      await auditService.record({
+        userId: user.userId,
+        type: "identity_linked",
+        details: { provider: provider.name },
+        ...clientInfo(ctx),
+      });
+      return Response.success(ctx, { linked: provider.name });
+    }
+
+    if (user.disabled) {
+      return Response.forbidden(ctx, "Account is disabled");
+    }
+
+    // Same second step as a password login
+    if (user.twoFactorEnabled) {
+      const recoveryAvailable = !!user.recoveryCodes &&
+        user.recoveryCodes.length > 0;
+      const temp = await tokenService.generateTempToken(
+        user.userId,
+        "5m",
+        recoveryAvailable,
+      );
+
+      return Response.success(ctx, {
+        requireTwoFactor: true,
+        tempToken: temp,
+        user: user.username,
+        recoveryAvailable,
+      });
+    }
+
+    await userService.cancelDeletion(user);
+    await auditService.record({
+      userId: user.userId,
+      type: "login",
+      details: { method: "oidc" },
+      ...clientInfo(ctx),
+    });
+
+    const { ipAddress, userAgent } = clientInfo(ctx);
+    const tokenPair = await sessionService.startSession(
+      user,
+      ipAddress,
+      userAgent,
+    );
+    const links = {
+      self: makeUserLink(user.userId, "self"),
+      logout: { href: "/auth/logout", method: "POST" },
+    };
+
+    setAuthCookies(ctx, tokenPair);
+
+    return Response.success(ctx, {
+      user: toUserResponse(user, links),
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "oidc_callback",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error completing sign-in",
+    );
+  }
+}
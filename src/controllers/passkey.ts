@@ -0,0 +1,288 @@
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { Response } from "../utils/response.ts";
+import { RenamePasskeyRequest, User } from "../models/user.ts";
+import { toUserResponse } from "../dto/user.ts";
+import { toPasskeyResponse } from "../dto/passkey.ts";
+import {
+  auditService,
+  passkeyService,
+  sessionService,
+  userService,
+} from "../config/serviceSetup.ts";
+import { RateLimiter } from "../utils/rateLimiter.ts";
+import { makeUserLink } from "../utils/makeLinks.ts";
+import { deliverTokens, isLoginMode } from "../utils/cookies.ts";
+import { clientInfo } from "../utils/context.ts";
+import { Context, RouterContext } from "@oak/oak";
+
+export async function passkeyRegistrationOptions(
+  ctx: RouterContext<"/api/:userId/passkeys/register/options">,
+) {
+  HTTPMetrics.track("POST", "/api/:userId/passkeys/register/options");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    try {
+      const options = await passkeyService.startRegistration(tokenUserId);
+      return Response.success(ctx, { options });
+    } catch (error) {
+      if (error instanceof Error) {
+        return Response.badRequest(ctx, error.message);
+      }
+      throw error;
+    }
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "passkey_register_options",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error starting registration",
+    );
+  }
+}
+
+export async function passkeyRegistrationVerify(
+  ctx: RouterContext<"/api/:userId/passkeys/register/verify">,
+) {
+  HTTPMetrics.track("POST", "/api/:userId/passkeys/register/verify");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const body = await ctx.request.body.json();
+    if (!body?.credential) {
+      return Response.badRequest(ctx, "Credential is required");
+    }
+
+    try {
+      const passkey = await passkeyService.finishRegistration(
+        tokenUserId,
+        body.credential,
+        body.name,
+      );
+      return Response.created(ctx, { passkey: toPasskeyResponse(passkey) });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "passkey_register_failed",
+      });
+      return Response.badRequest(
+        ctx,
+        error instanceof Error ? error.message : "Passkey registration failed",
+      );
+    }
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "passkey_register_verify",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error registering passkey",
+    );
+  }
+}
+
+export async function passkeyLoginOptions(ctx: Context) {
+  HTTPMetrics.track("POST", "/login/passkey/options");
+
+  try {
+    const body = ctx.request.body.has
+      ? await ctx.request.body.json()
+      : undefined;
+    const username = typeof body?.username === "string"
+      ? body.username
+      : undefined;
+
+    const { challengeId, options } = await passkeyService.startAuthentication(
+      username,
+    );
+
+    return Response.success(ctx, { challengeId, options });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "passkey_login_options",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error starting passkey login",
+    );
+  }
+}
+
+// Passkeys are verified with user verification, so they stand in for both
+// the password and the second factor.
+export async function passkeyLogin(ctx: Context) {
+  HTTPMetrics.track("POST", "/login/passkey/verify");
+
+  try {
+    const body = await ctx.request.body.json();
+    if (
+      typeof body?.challengeId !== "string" || !body?.credential
+    ) {
+      return Response.badRequest(ctx, "Invalid input");
+    }
+
+    if (body.mode !== undefined && !isLoginMode(body.mode)) {
+      return Response.badRequest(ctx, "Invalid login mode");
+    }
+
+    if (await RateLimiter.isRateLimited(ctx.request.ip)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many login attempts. Please try again later.",
+      );
+    }
+
+    let user: User;
+
+    try {
+      user = await passkeyService.finishAuthentication(
+        body.challengeId,
+        body.credential,
+      );
+    } catch (error) {
+      await RateLimiter.trackAttempt(ctx.request.ip);
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "passkey_login_failed",
+      });
+      return Response.unauthorized(
+        ctx,
+        error instanceof Error ? error.message : "Passkey login failed",
+      );
+    }
+
+    if (user.disabled) {
+      return Response.forbidden(ctx, "Account is disabled");
+    }
+
+    await userService.cancelDeletion(user);
+    await auditService.record({
+      userId: user.userId,
+      type: "login",
+      details: { method: "passkey" },
+      ...clientInfo(ctx),
+    });
+
+    const { ipAddress, userAgent } = clientInfo(ctx);
+    const tokenPair = await sessionService.startSession(
+      user,
+      ipAddress,
+      userAgent,
+    );
+    const links = {
+      self: makeUserLink(user.userId, "self"),
+      logout: { href: "/auth/logout", method: "POST" },
+    };
+
+    const tokens = deliverTokens(ctx, tokenPair, body.mode);
+
+    return Response.success(ctx, {
+      user: toUserResponse(user, links),
+      tokens,
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "passkey_login",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error logging in",
+    );
+  }
+}
+
+export async function listPasskeys(
+  ctx: RouterContext<"/api/:userId/passkeys">,
+) {
+  HTTPMetrics.track("GET", "/api/:userId/passkeys");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const passkeys = await passkeyService.listPasskeys(tokenUserId);
+
+    return Response.success(ctx, {
+      passkeys: passkeys.map(toPasskeyResponse),
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "list_passkeys",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error listing passkeys",
+    );
+  }
+}
+
+export async function renamePasskey(
+  ctx: RouterContext<"/api/:userId/passkeys/:credentialId">,
+) {
+  HTTPMetrics.track("PATCH", "/api/:userId/passkeys/:credentialId");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const body = (await ctx.request.body.json()) as RenamePasskeyRequest;
+    if (!body?.name || body.name.trim() === "") {
+      return Response.badRequest(ctx, "Passkey name is required");
+    }
+
+    const renamed = await passkeyService.renamePasskey(
+      tokenUserId,
+      ctx.params.credentialId,
+      body.name,
+    );
+    if (!renamed) {
+      return Response.notFound(ctx, "Passkey not found");
+    }
+
+    return Response.success(ctx, { message: "Passkey renamed" });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "rename_passkey",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error renaming passkey",
+    );
+  }
+}
+
+export async function deletePasskey(
+  ctx: RouterContext<"/api/:userId/passkeys/:credentialId">,
+) {
+  HTTPMetrics.track("DELETE", "/api/:userId/passkeys/:credentialId");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const deleted = await passkeyService.deletePasskey(
+      tokenUserId,
+      ctx.params.credentialId,
+    );
+    if (!deleted) {
+      return Response.notFound(ctx, "Passkey not found");
+    }
+
+    return Response.success(ctx, { message: "Passkey deleted" });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "delete_passkey",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error deleting passkey",
+    );
+  }
+}
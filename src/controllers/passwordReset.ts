@@ -0,0 +1,111 @@
+import {
+  auditService,
+  sessionService,
+  trustedDeviceService,
+  userService,
+} from "../config/serviceSetup.ts";
+import { clientInfo } from "../utils/context.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { RateLimiter } from "../utils/rateLimiter.ts";
+import { PasswordPolicyError } from "../services/password.ts";
+import { Context } from "@oak/oak";
+
+interface ForgotPasswordRequest {
+  email: string;
+}
+
+interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export async function forgotPassword(ctx: Context) {
+  HTTPMetrics.track("POST", "/password/forgot");
+
+  try {
+    const req = (await ctx.request.body.json()) as ForgotPasswordRequest;
+    if (!req || !req.email) {
+      return Response.badRequest(ctx, "Email is required");
+    }
+
+    const email = req.email.trim();
+    const ipKey = `forgot:${ctx.request.ip}`;
+    const emailKey = `forgot:${email.toLowerCase()}`;
+
+    if (await RateLimiter.isRateLimited(ipKey, emailKey)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many reset requests. Please try again later.",
+      );
+    }
+    await RateLimiter.trackAttempt(ipKey, emailKey);
+
+    await userService.requestPasswordReset(email);
+
+    // Same answer whether or not the address belongs to an account
+    return Response.success(ctx, {
+      message: "If that email is registered, a reset link has been sent",
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "forgot_password",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error requesting reset",
+    );
+  }
+}
+
+export async function resetPassword(ctx: Context) {
+  HTTPMetrics.track("POST", "/password/reset");
+
+  try {
+    const req = (await ctx.request.body.json()) as ResetPasswordRequest;
+    if (!req || !req.token || !req.newPassword) {
+      return Response.badRequest(ctx, "Token and new password are required");
+    }
+
+    let userId: string;
+
+    try {
+      userId = await userService.resetPassword(req.token, req.newPassword);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "password_reset_failed",
+      });
+      if (error instanceof PasswordPolicyError) {
+        return Response.badRequest(ctx, error.message, error.feedback);
+      }
+      return Response.badRequest(
+        ctx,
+        error instanceof Error ? error.message : "Password reset failed",
+      );
+    }
+
+    await sessionService.revokeAllSessions(userId);
+    await trustedDeviceService.revokeAllDevices(userId);
+    await auditService.record({
+      userId: userId,
+      type: "password_changed",
+      details: { method: "reset" },
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(ctx, {
+      message: "Password has been reset. Please log in again.",
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "reset_password",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error resetting password",
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { AccountDisabled, RefreshTokenReused } from "../services/token.ts";
+import { sessionService } from "../config/serviceSetup.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import {
+  clearAuthCookies,
+  CSRF_COOKIE,
+  deliverTokens,
+  readBodyRefreshToken,
+} from "../utils/cookies.ts";
+import { TokenPair } from "../utils/token.ts";
+import { Context } from "@oak/oak";
+
+export async function refreshToken(ctx: Context) {
+  HTTPMetrics.track("POST", "/auth/refresh");
+
+  try {
+    const cookieToken = await ctx.cookies.get("refreshToken");
+    const refreshToken = cookieToken ?? await readBodyRefreshToken(ctx);
+    const mode = cookieToken ? "cookie" : "token";
+
+    if (!refreshToken) {
+      return Response.unauthorized(ctx, "No refresh token cookie");
+    }
+
+    let tokenPair: TokenPair;
+
+    try {
+      tokenPair = await sessionService.refreshSession(
+        refreshToken,
+        ctx.request.ip,
+      );
+    } catch (error) {
+      if (mode === "cookie") {
+        clearAuthCookies(ctx);
+      }
+
+      if (error instanceof RefreshTokenReused) {
+        ErrorCounter.add(1, {
+          type: "auth",
+          operation: "refresh_token_reuse",
+        });
+        return Response.unauthorized(ctx, error.message);
+      }
+
+      if (error instanceof AccountDisabled) {
+        return Response.forbidden(ctx, error.message);
+      }
+
+      ErrorCounter.add(1, {
+        type: "auth",
+        operation: "refresh_token_invalid",
+      });
+      return Response.unauthorized(ctx, "Invalid or expired refresh token");
+    }
+
+    // The session goes on, so does its CSRF token
+    const tokens = deliverTokens(
+      ctx,
+      tokenPair,
+      mode,
+      await ctx.cookies.get(CSRF_COOKIE),
+    );
+
+    return Response.success(ctx, { expiresIn: tokenPair.expiresIn, tokens });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "refresh_token",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error refreshing token",
+    );
+  }
+}
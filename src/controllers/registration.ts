@@ -2,8 +2,10 @@ import { User } from "../models/user.ts";
 import { Response } from "../utils/response.ts";
 import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
 import { Context } from "@oak/oak";
-import { tokenService } from "../services/token.ts";
-import { userService } from "../config/serviceSetup.ts";
+import { sessionService, userService } from "../config/serviceSetup.ts";
+import { setAuthCookies } from "../utils/cookies.ts";
+import { clientInfo } from "../utils/context.ts";
+import { PasswordPolicyError } from "../services/password.ts";
 
 export async function register(ctx: Context) {
   HTTPMetrics.track("POST", "/register");
@@ -28,36 +30,44 @@ export async function register(ctx: Context) {
         body.password,
       );
     } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return Response.badRequest(ctx, error.message, error.feedback);
+      }
       if (error instanceof Error) {
         return Response.badRequest(ctx, error.message);
       }
       throw error;
     }
 
-    const tokenPair = await tokenService.generateTokenPair(user);
-
-    const isProd = Deno.env.get("ENV") === "PROD";
+    // A mail failure shouldn't undo the signup; the user can ask for a resend
+    try {
+      await userService.sendEmailVerification(user.userId);
+    } catch (error) {
+      console.error("Failed to send verification email:", error);
+    }
 
-    ctx.cookies.set("accessToken", tokenPair.accessToken, {
-      httpOnly: true,
-      secure: isProd,
-      sameSite: "lax",
-      path: "/",
-    });
+    const { ipAddress, userAgent } = clientInfo(ctx);
+    const tokenPair = await sessionService.startSession(
+      user,
+      ipAddress,
+      userAgent,
+    );
 
-    ctx.cookies.set("refreshToken", tokenPair.refreshToken, {
-      httpOnly: true,
-      secure: isProd,
-      sameSite: "lax",
-      path: "/",
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days (longer than access token)
-    });
+    setAuthCookies(ctx, tokenPair);
 
     return Response.created(ctx, {
       message: "User registered successfully",
-      user: { username: user.username, email: user.email },
+      user: {
+        username: user.username,
+        email: user.email,
+        emailVerified: false,
+      },
       links: {
         self: { href: "/auth/login", method: "POST" },
+        resendVerification: {
+          href: `/api/${user.userId}/email/verify/resend`,
+          method: "POST",
+        },
       },
     });
   } catch (error) {
@@ -0,0 +1,83 @@
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { auditService, userService } from "../config/serviceSetup.ts";
+import { Response } from "../utils/response.ts";
+import {
+  SecurityEventPageResponse,
+  toSecurityEventResponse,
+} from "../dto/securityEvent.ts";
+import { RouterContext } from "@oak/oak";
+
+const MAX_PAGE_SIZE = 100;
+
+export async function listSecurityEvents(
+  ctx: RouterContext<"/api/:userId/security/events">,
+) {
+  HTTPMetrics.track("GET", "/api/:userId/security/events");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const user = await userService.findById(tokenUserId);
+    if (!user) {
+      return Response.unauthorized(ctx, "User not found");
+    }
+
+    const url = ctx.request.url;
+    const page = parseInt(url.searchParams.get("page") || "1", 10);
+    const pageSize = parseInt(url.searchParams.get("page_size") || "20", 10);
+    if (
+      !Number.isInteger(page) || page < 1 ||
+      !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE
+    ) {
+      return Response.badRequest(ctx, "Invalid page or page_size");
+    }
+
+    const { events, totalCount } = await auditService.listEvents(
+      user.userId,
+      page,
+      pageSize,
+    );
+    const activity = await auditService.getActivityStats(user);
+
+    const pageCount = Math.ceil(totalCount / pageSize);
+    const path = `/api/${user.userId}/security/events`;
+    const links: SecurityEventPageResponse["links"] = {
+      self: {
+        href: `${path}?page=${page}&page_size=${pageSize}`,
+        method: "GET",
+      },
+    };
+    if (page < pageCount) {
+      links["next"] = {
+        href: `${path}?page=${page + 1}&page_size=${pageSize}`,
+        method: "GET",
+      };
+    }
+    if (page > 1) {
+      links["prev"] = {
+        href: `${path}?page=${page - 1}&page_size=${pageSize}`,
+        method: "GET",
+      };
+    }
+
+    const response: SecurityEventPageResponse = {
+      events: events.map(toSecurityEventResponse),
+      activity,
+      totalCount,
+      pageCount,
+      currentPage: page,
+      links,
+    };
+
+    return Response.success(ctx, response);
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "list_security_events",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error listing security events",
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { auditService, sessionService } from "../config/serviceSetup.ts";
+import { clientInfo } from "../utils/context.ts";
+import { Response } from "../utils/response.ts";
+import { toSessionResponse } from "../dto/session.ts";
+import { clearAuthCookies } from "../utils/cookies.ts";
+import { RouterContext } from "@oak/oak";
+
+export async function listSessions(
+  ctx: RouterContext<"/api/:userId/sessions">,
+) {
+  HTTPMetrics.track("GET", "/api/:userId/sessions");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const sessions = await sessionService.listSessions(tokenUserId);
+
+    return Response.success(ctx, {
+      sessions: sessions.map((session) =>
+        toSessionResponse(session, ctx.state.user?.sid)
+      ),
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "list_sessions",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error listing sessions",
+    );
+  }
+}
+
+export async function revokeSession(
+  ctx: RouterContext<"/api/:userId/sessions/:sid">,
+) {
+  HTTPMetrics.track("DELETE", "/api/:userId/sessions/:sid");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  const sessionId = ctx.params.sid;
+  if (!sessionId) {
+    return Response.badRequest(ctx, "Session ID not provided");
+  }
+
+  try {
+    const revoked = await sessionService.revokeSession(tokenUserId, sessionId);
+    if (!revoked) {
+      return Response.notFound(ctx, "Session not found");
+    }
+
+    await auditService.record({
+      userId: tokenUserId,
+      type: "session_revoked",
+      details: { sessionId },
+      ...clientInfo(ctx),
+    });
+
+    if (sessionId === ctx.state.user?.sid) {
+      clearAuthCookies(ctx);
+    }
+
+    return Response.success(ctx, "Session has been revoked");
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "revoke_session",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error revoking session",
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { Response } from "../utils/response.ts";
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { RateLimiter } from "../utils/rateLimiter.ts";
+import { clientInfo } from "../utils/context.ts";
+import { StepUpRequest } from "../models/user.ts";
+import { PasswordNotSet } from "../services/user.ts";
+import {
+  auditService,
+  sessionService,
+  userService,
+} from "../config/serviceSetup.ts";
+import { RouterContext } from "@oak/oak";
+
+// Confirms the password and second factor once so the session can reach the
+// routes declared with authorize({ elevated: true }) for a few minutes.
+export async function stepUp(ctx: RouterContext<"/api/:userId/step-up">) {
+  HTTPMetrics.track("POST", "/step-up");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  const sessionId = ctx.state.user.sid;
+  if (typeof sessionId !== "string") {
+    return Response.badRequest(ctx, "Log in again to continue");
+  }
+
+  try {
+    const body = await ctx.request.body.json();
+    const req: StepUpRequest = {
+      password: body?.password,
+      totp: body?.totp?.trim(),
+    };
+
+    if (typeof req.password !== "string" || !req.password) {
+      return Response.badRequest(ctx, "Password is required");
+    }
+
+    if (await RateLimiter.isRateLimited(ctx.request.ip, tokenUserId)) {
+      return Response.tooManyRequests(
+        ctx,
+        "Too many attempts. Please try again later.",
+      );
+    }
+
+    try {
+      await userService.verifyStepUp(tokenUserId, req.password, req.totp);
+    } catch (error) {
+      if (error instanceof PasswordNotSet) {
+        return Response.forbidden(ctx, error.message);
+      }
+      if (error instanceof Error) {
+        await RateLimiter.trackAttempt(ctx.request.ip, tokenUserId);
+        await auditService.record({
+          userId: tokenUserId,
+          type: "session_elevated",
+          success: false,
+          details: { sessionId, reason: error.message },
+          ...clientInfo(ctx),
+        });
+        return Response.badRequest(ctx, error.message);
+      }
+      throw error;
+    }
+
+    await RateLimiter.resetAttempts(ctx.request.ip, tokenUserId);
+    const elevatedUntil = await sessionService.elevateSession(sessionId);
+    await auditService.record({
+      userId: tokenUserId,
+      type: "session_elevated",
+      details: { sessionId },
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(ctx, { elevatedUntil });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "step_up",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error confirming credentials",
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
+import { auditService, trustedDeviceService } from "../config/serviceSetup.ts";
+import { clientInfo } from "../utils/context.ts";
+import { Response } from "../utils/response.ts";
+import { toTrustedDeviceResponse } from "../dto/trustedDevice.ts";
+import { RouterContext } from "@oak/oak";
+
+export async function listTrustedDevices(
+  ctx: RouterContext<"/api/:userId/trusted-devices">,
+) {
+  HTTPMetrics.track("GET", "/api/:userId/trusted-devices");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const devices = await trustedDeviceService.listDevices(tokenUserId);
+
+    return Response.success(ctx, {
+      devices: devices.map(toTrustedDeviceResponse),
+    });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "list_trusted_devices",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error listing trusted devices",
+    );
+  }
+}
+
+export async function revokeTrustedDevice(
+  ctx: RouterContext<"/api/:userId/trusted-devices/:deviceId">,
+) {
+  HTTPMetrics.track("DELETE", "/api/:userId/trusted-devices/:deviceId");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const deviceId = ctx.params.deviceId;
+    const revoked = await trustedDeviceService.revokeDevice(
+      tokenUserId,
+      deviceId,
+    );
+    if (!revoked) {
+      return Response.notFound(ctx, "Trusted device not found");
+    }
+
+    await auditService.record({
+      userId: tokenUserId,
+      type: "trusted_device_revoked",
+      details: { deviceId },
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(ctx, { message: "Trusted device revoked" });
+  } catch (error) {
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "revoke_trusted_device",
+    });
+    return Response.internalError(
+      ctx,
+      error instanceof Error ? error.message : "Error revoking trusted device",
+    );
+  }
+}
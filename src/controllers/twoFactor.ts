@@ -1,27 +1,19 @@
-import { DisableTwoFactorRequest } from "../models/user.ts";
 import { ErrorCounter, HTTPMetrics } from "../utils/metrics.ts";
 import { Response } from "../utils/response.ts";
 import { RouterContext } from "@oak/oak";
-import { userService } from "../config/serviceSetup.ts";
+import {
+  auditService,
+  trustedDeviceService,
+  userService,
+} from "../config/serviceSetup.ts";
+import { clientInfo } from "../utils/context.ts";
 
 export async function enableTwoFactor(
   ctx: RouterContext<"/api/:userId/2fa/setup">,
 ) {
   HTTPMetrics.track("POST", "/2fa/setup");
 
-  const tokenUserId = ctx.state.user?.userId;
-  const paramUserId = ctx.params?.userId;
-
-  if (!tokenUserId || !paramUserId || tokenUserId !== paramUserId) {
-    ErrorCounter.add(1, {
-      type: "auth",
-      operation: "enable_2fa_unauthorized",
-    });
-    return Response.unauthorized(
-      ctx,
-      "Unauthorized: userId mismatch or missing token",
-    );
-  }
+  const tokenUserId = ctx.state.user.userId as string;
 
   try {
     const user = await userService.findById(tokenUserId);
@@ -59,19 +51,7 @@ export async function verifyTwoFactor(
 ) {
   HTTPMetrics.track("POST", "/2fa/verify");
 
-  const tokenUserId = ctx.state.user?.userId;
-  const paramUserId = ctx.params?.userId;
-
-  if (!tokenUserId || !paramUserId || tokenUserId !== paramUserId) {
-    ErrorCounter.add(1, {
-      type: "auth",
-      operation: "verify_2fa_unauthorized",
-    });
-    return Response.unauthorized(
-      ctx,
-      "Unauthorized: userId mismatch or missing token",
-    );
-  }
+  const tokenUserId = ctx.state.user.userId as string;
 
   try {
     const { token } = await ctx.request.body.json();
@@ -92,6 +72,12 @@ export async function verifyTwoFactor(
     }
 
     ctx.state.session.delete("temp2faSecret");
+    await auditService.record({
+      userId: tokenUserId,
+      type: "two_factor_enabled",
+      ...clientInfo(ctx),
+    });
+
     return Response.success(ctx, { verified: true, recoveryCodes });
   } catch (error) {
     if (error instanceof Error) {
@@ -113,45 +99,122 @@ export async function disableTwoFactor(
 ) {
   HTTPMetrics.track("POST", "/2fa/disable");
 
-  const tokenUserId = ctx.state.user?.userId;
-  const paramUserId = ctx.params?.userId;
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    await userService.disableTwoFactor(tokenUserId);
+    await trustedDeviceService.revokeAllDevices(tokenUserId);
+
+    await auditService.record({
+      userId: tokenUserId,
+      type: "two_factor_disabled",
+      ...clientInfo(ctx),
+    });
 
-  if (!tokenUserId || !paramUserId || tokenUserId !== paramUserId) {
+    return Response.success(ctx, { disable: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      return Response.badRequest(ctx, error.message);
+    }
     ErrorCounter.add(1, {
-      type: "auth",
-      operation: "disable_2fa_unauthorized",
+      type: "internal",
+      operation: "setup_two_factor",
     });
-    return Response.unauthorized(
+    return Response.internalError(
       ctx,
-      "Unauthorized: userId mismatch or missing token",
+      error instanceof Error ? error.message : "Error setting up 2FA",
     );
   }
+}
 
-  try {
-    const body = await ctx.request.body.json();
-    const req: DisableTwoFactorRequest = {
-      password: body.password?.trim(),
-      totp: body.totp?.trim(),
-    };
+export async function regenerateRecoveryCodes(
+  ctx: RouterContext<"/api/:userId/2fa/recovery-codes/regenerate">,
+) {
+  HTTPMetrics.track("POST", "/2fa/recovery-codes/regenerate");
 
-    await userService.disableTwoFactor(
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    const recoveryCodes = await userService.regenerateRecoveryCodes(
       tokenUserId,
-      req.totp,
-      req.password,
     );
 
-    return Response.success(ctx, { disable: true });
+    await auditService.record({
+      userId: tokenUserId,
+      type: "recovery_codes_regenerated",
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(ctx, { recoveryCodes });
   } catch (error) {
     if (error instanceof Error) {
       return Response.badRequest(ctx, error.message);
     }
     ErrorCounter.add(1, {
       type: "internal",
-      operation: "setup_two_factor",
+      operation: "regenerate_recovery_codes",
     });
     return Response.internalError(
       ctx,
-      error instanceof Error ? error.message : "Error setting up 2FA",
+      "Error regenerating recovery codes",
     );
   }
 }
+
+export async function enableEmailOtp(
+  ctx: RouterContext<"/api/:userId/2fa/email/enable">,
+) {
+  HTTPMetrics.track("POST", "/2fa/email/enable");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    await userService.setEmailOtp(tokenUserId, true);
+
+    await auditService.record({
+      userId: tokenUserId,
+      type: "email_otp_enabled",
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(ctx, { emailOtpEnabled: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      return Response.badRequest(ctx, error.message);
+    }
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "enable_email_otp",
+    });
+    return Response.internalError(ctx, "Error enabling email codes");
+  }
+}
+
+export async function disableEmailOtp(
+  ctx: RouterContext<"/api/:userId/2fa/email/disable">,
+) {
+  HTTPMetrics.track("POST", "/2fa/email/disable");
+
+  const tokenUserId = ctx.state.user.userId as string;
+
+  try {
+    await userService.setEmailOtp(tokenUserId, false);
+
+    await auditService.record({
+      userId: tokenUserId,
+      type: "email_otp_disabled",
+      ...clientInfo(ctx),
+    });
+
+    return Response.success(ctx, { emailOtpEnabled: false });
+  } catch (error) {
+    if (error instanceof Error) {
+      return Response.badRequest(ctx, error.message);
+    }
+    ErrorCounter.add(1, {
+      type: "internal",
+      operation: "disable_email_otp",
+    });
+    return Response.internalError(ctx, "Error disabling email codes");
+  }
+}
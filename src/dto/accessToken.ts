@@ -0,0 +1,25 @@
+import { AccessToken, TokenScope } from "../models/accessToken.ts";
+
+export interface AccessTokenResponse {
+  tokenId: string;
+  name: string;
+  prefix: string;
+  scopes: TokenScope[];
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+}
+
+export function toAccessTokenResponse(
+  accessToken: AccessToken,
+): AccessTokenResponse {
+  return {
+    tokenId: accessToken.tokenId,
+    name: accessToken.name,
+    prefix: accessToken.prefix,
+    scopes: accessToken.scopes,
+    createdAt: accessToken.createdAt,
+    expiresAt: accessToken.expiresAt,
+    lastUsedAt: accessToken.lastUsedAt,
+  };
+}
@@ -0,0 +1,95 @@
+import { AdminAction, AdminAuditEntry } from "../models/adminAudit.ts";
+import { ActivityStats } from "../models/stats.ts";
+import { User, UserRole } from "../models/user.ts";
+
+type PageLinks = { [key: string]: { href: string; method: string } };
+
+// Account metadata only. Secrets, hashes and anything the user wrote
+// (notes, todos) are never part of an admin response.
+export interface AdminUserResponse {
+  userId: string;
+  username: string;
+  email: string;
+  emailVerified: boolean;
+  roles: UserRole[];
+  twoFactorEnabled: boolean;
+  passkeyCount: number;
+  identityProviders: string[];
+  disabled: boolean;
+  disabledAt?: Date;
+  disabledReason?: string;
+  deletionScheduledFor?: Date;
+  lastPasswordChange?: Date;
+  createdAt: Date;
+}
+
+export interface AdminUserDetailResponse extends AdminUserResponse {
+  activity: ActivityStats;
+  activeSessions: number;
+}
+
+export interface AdminUserPageResponse {
+  users: AdminUserResponse[];
+  totalCount: number;
+  pageCount: number;
+  currentPage: number;
+  links: PageLinks;
+}
+
+export interface AdminAuditEntryResponse {
+  entryId: string;
+  adminId: string;
+  action: AdminAction;
+  targetUserId?: string;
+  reason?: string;
+  details?: Record<string, string>;
+  ipAddress: string;
+  userAgent: string;
+  requestId: string;
+  createdAt: Date;
+}
+
+export interface AdminAuditPageResponse {
+  entries: AdminAuditEntryResponse[];
+  totalCount: number;
+  pageCount: number;
+  currentPage: number;
+  links: PageLinks;
+}
+
+export function toAdminUserResponse(user: User): AdminUserResponse {
+  return {
+    userId: user.userId,
+    username: user.username,
+    email: user.email,
+    emailVerified: user.emailVerified ?? false,
+    roles: user.roles ?? ["user"],
+    twoFactorEnabled: user.twoFactorEnabled,
+    passkeyCount: user.passkeys?.length ?? 0,
+    identityProviders: user.identities?.map((identity) => identity.provider) ??
+      [],
+    disabled: user.disabled ?? false,
+    disabledAt: user.disabledAt,
+    disabledReason: user.disabledReason,
+    deletionScheduledFor: user.deletionScheduledFor,
+    lastPasswordChange: user.lastPasswordChange,
+    createdAt: user.createdAt,
+  };
+}
+
+export function toAdminAuditEntryResponse(
+  entry: AdminAuditEntry,
+): AdminAuditEntryResponse {
+  return {
+    entryId: entry.entryId,
+    adminId: entry.adminId,
+    action: entry.action,
+    targetUserId: entry.targetUserId,
+    reason: entry.reason,
+    details: entry.details,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    requestId: entry.requestId,
+    createdAt: entry.createdAt,
+  };
+}
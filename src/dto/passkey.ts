@@ -0,0 +1,19 @@
+import { Passkey } from "../models/user.ts";
+
+export interface PasskeyResponse {
+  credentialId: string;
+  name: string;
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export function toPasskeyResponse(passkey: Passkey): PasskeyResponse {
+  return {
+    credentialId: passkey.credentialId,
+    name: passkey.name,
+    transports: passkey.transports ?? [],
+    createdAt: passkey.createdAt,
+    lastUsedAt: passkey.lastUsedAt,
+  };
+}
@@ -0,0 +1,37 @@
+import { SecurityEvent, SecurityEventType } from "../models/securityEvent.ts";
+import { ActivityStats } from "../models/stats.ts";
+
+export interface SecurityEventResponse {
+  eventId: string;
+  type: SecurityEventType;
+  success: boolean;
+  ipAddress: string;
+  userAgent: string;
+  requestId: string;
+  details?: Record<string, string>;
+  createdAt: Date;
+}
+
+export interface SecurityEventPageResponse {
+  events: SecurityEventResponse[];
+  activity: ActivityStats;
+  totalCount: number;
+  pageCount: number;
+  currentPage: number;
+  links: { [key: string]: { href: string; method: string } };
+}
+
+export function toSecurityEventResponse(
+  event: SecurityEvent,
+): SecurityEventResponse {
+  return {
+    eventId: event.eventId,
+    type: event.type,
+    success: event.success,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    requestId: event.requestId,
+    details: event.details,
+    createdAt: event.createdAt,
+  };
+}
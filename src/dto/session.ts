@@ -0,0 +1,24 @@
+import { Session } from "../models/session.ts";
+
+export interface SessionResponse {
+  sessionId: string;
+  ipAddress: string;
+  userAgent: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+export function toSessionResponse(
+  session: Session,
+  currentSessionId?: string,
+): SessionResponse {
+  return {
+    sessionId: session.sessionId,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.sessionId === currentSessionId,
+  };
+}
@@ -0,0 +1,23 @@
+import { TrustedDevice } from "../models/trustedDevice.ts";
+
+export interface TrustedDeviceResponse {
+  deviceId: string;
+  ipAddress: string;
+  userAgent: string;
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+}
+
+export function toTrustedDeviceResponse(
+  device: TrustedDevice,
+): TrustedDeviceResponse {
+  return {
+    deviceId: device.deviceId,
+    ipAddress: device.ipAddress,
+    userAgent: device.userAgent,
+    createdAt: device.createdAt,
+    expiresAt: device.expiresAt,
+    lastUsedAt: device.lastUsedAt,
+  };
+}
@@ -1,8 +1,15 @@
 import { Application, Router } from "@oak/oak";
 import * as notes from "./controllers/note.ts";
 import * as todos from "./controllers/todo.ts";
-import { changeEmail } from "./controllers/changeEmail.ts";
-import { initializeServices } from "./config/serviceSetup.ts";
+import {
+  changeEmail,
+  confirmEmailChange,
+  revertEmailChange,
+} from "./controllers/changeEmail.ts";
+import {
+  accountDeletionService,
+  initializeServices,
+} from "./config/serviceSetup.ts";
 import { corsMiddleware } from "./middleware/cors.ts";
 import { authMiddleware } from "./middleware/auth.ts";
 import {
@@ -10,68 +17,414 @@ import {
   requestTracingMiddleware,
 } from "./middleware/requests.ts";
 import { changePassword } from "./controllers/changePassword.ts";
+import { changeUsername } from "./controllers/changeUsername.ts";
 import {
+  disableEmailOtp,
   disableTwoFactor,
+  enableEmailOtp,
   enableTwoFactor,
+  regenerateRecoveryCodes,
   verifyTwoFactor,
 } from "./controllers/twoFactor.ts";
-import { login, withRecovery, withTwoFactor } from "./controllers/login.ts";
+import {
+  login,
+  sendEmailCode,
+  withEmailCode,
+  withRecovery,
+  withTwoFactor,
+} from "./controllers/login.ts";
 import { getProfile } from "./controllers/profile.ts";
+import { deleteUser } from "./controllers/delete.ts";
 import { logout } from "./controllers/logout.ts";
 import { register } from "./controllers/registration.ts";
+import { refreshToken } from "./controllers/refresh.ts";
+import { listSessions, revokeSession } from "./controllers/session.ts";
+import { listSecurityEvents } from "./controllers/securityEvents.ts";
+import {
+  listTrustedDevices,
+  revokeTrustedDevice,
+} from "./controllers/trustedDevice.ts";
+import { getJwks } from "./controllers/jwks.ts";
+import { forgotPassword, resetPassword } from "./controllers/passwordReset.ts";
+import {
+  resendVerification,
+  verifyEmail,
+} from "./controllers/emailVerification.ts";
+import { requireVerifiedEmail } from "./middleware/verifiedEmail.ts";
+import {
+  deletePasskey,
+  listPasskeys,
+  passkeyLogin,
+  passkeyLoginOptions,
+  passkeyRegistrationOptions,
+  passkeyRegistrationVerify,
+  renamePasskey,
+} from "./controllers/passkey.ts";
+import {
+  oidcAuthorize,
+  oidcCallback,
+  oidcLinkAuthorize,
+} from "./controllers/oidc.ts";
+import {
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+} from "./controllers/accessToken.ts";
+import { authorize } from "./middleware/authorize.ts";
+import { rateLimit } from "./middleware/rateLimit.ts";
+import { csrfProtection } from "./middleware/csrf.ts";
+import { getCsrfToken } from "./controllers/csrf.ts";
+import { stepUp } from "./controllers/stepUp.ts";
+import {
+  disableUser,
+  enableUser,
+  forceLogout,
+  getUser,
+  listAdminAudit,
+  listUserEvents,
+  resetTwoFactor,
+  searchUsers,
+} from "./controllers/admin.ts";
 import "@std/dotenv/load";
 
 initializeServices();
 
+// Request quotas for the routes that go straight to Mongo, so one script
+// can't hammer it
+const registrationLimit = rateLimit({
+  name: "register",
+  algorithm: "fixed-window",
+  limit: 5,
+  window: 60 * 60,
+});
+const noteCreateLimit = rateLimit({
+  name: "notes:create",
+  algorithm: "token-bucket",
+  limit: 30,
+  window: 60,
+  by: "user",
+});
+const todoCreateLimit = rateLimit({
+  name: "todos:create",
+  algorithm: "token-bucket",
+  limit: 30,
+  window: 60,
+  by: "user",
+});
+const searchLimit = rateLimit({
+  name: "search",
+  algorithm: "sliding-window",
+  limit: 60,
+  window: 60,
+  by: "user",
+});
+const todoReadLimit = rateLimit({
+  name: "todos:read",
+  algorithm: "sliding-window",
+  limit: 120,
+  window: 60,
+  by: "user",
+});
+// The login routes also lock out after a few wrong passwords or codes (see
+// RateLimiter); these only cap how many requests get that far.
+const loginLimit = rateLimit({
+  name: "login",
+  algorithm: "sliding-window",
+  limit: 20,
+  window: 60,
+});
+const secondFactorLimit = rateLimit({
+  name: "login:2fa",
+  algorithm: "sliding-window",
+  limit: 20,
+  window: 60,
+});
+const stepUpLimit = rateLimit({
+  name: "step-up",
+  algorithm: "sliding-window",
+  limit: 10,
+  window: 60,
+  by: "user",
+});
+
 // Public
 const publicRouter = new Router();
 // Registration
-publicRouter.post("/api/register", register);
+publicRouter.post("/api/register", registrationLimit, register);
 // Login
-publicRouter.post("/api/login", login);
-publicRouter.post("/api/login/2fa/verify", withTwoFactor);
-publicRouter.post("/api/login/2fa/recovery", withRecovery);
+publicRouter.post("/api/login", loginLimit, login);
+publicRouter.post("/api/login/2fa/verify", secondFactorLimit, withTwoFactor);
+publicRouter.post("/api/login/2fa/recovery", secondFactorLimit, withRecovery);
+publicRouter.post("/api/login/2fa/email", secondFactorLimit, sendEmailCode);
+publicRouter.post(
+  "/api/login/2fa/email/verify",
+  secondFactorLimit,
+  withEmailCode,
+);
+publicRouter.post(
+  "/api/login/passkey/options",
+  loginLimit,
+  passkeyLoginOptions,
+);
+publicRouter.post("/api/login/passkey/verify", loginLimit, passkeyLogin);
+// Social sign-in
+publicRouter.get("/api/auth/oidc/:provider/authorize", oidcAuthorize);
+publicRouter.get("/api/auth/oidc/:provider/callback", oidcCallback);
+// Email verification
+publicRouter.post("/api/email/verify", verifyEmail);
+publicRouter.post("/api/email/change/confirm", confirmEmailChange);
+publicRouter.post("/api/email/change/revert", revertEmailChange);
+// Password reset
+publicRouter.post("/api/password/forgot", forgotPassword);
+publicRouter.post("/api/password/reset", resetPassword);
+// Token refresh
+publicRouter.post("/api/auth/refresh", refreshToken);
+// Signing keys
+publicRouter.get("/.well-known/jwks.json", getJwks);
 
 // Protected
 const protectedRouter = new Router();
+// Account settings need a real login, the rest can also be reached with an
+// access token holding the right scope.
+const account = authorize();
+const profileRead = authorize({ scopes: ["profile:read"] });
+const notesRead = authorize({ scopes: ["notes:read"] });
+const notesWrite = authorize({ scopes: ["notes:write"] });
+const todosRead = authorize({ scopes: ["todos:read"] });
+const todosWrite = authorize({ scopes: ["todos:write"] });
+// Sensitive account changes also need a recent step-up
+const sensitive = authorize({ elevated: true });
+// Admin routes act on other users' accounts, so there is no owner check
+const adminRead = authorize({ roles: ["admin"], owner: false });
+const adminWrite = authorize({
+  roles: ["admin"],
+  owner: false,
+  elevated: true,
+});
+
 // Profile
-protectedRouter.get("/api/:userId/profile", getProfile);
+protectedRouter.get("/api/:userId/profile", profileRead, getProfile);
+// Account deletion
+protectedRouter.delete("/api/:userId", sensitive, deleteUser);
 
 //Logout
-protectedRouter.post("/api/logout", logout);
+protectedRouter.post("/api/logout", account, logout);
+
+// CSRF token for cookie logins
+protectedRouter.get("/api/auth/csrf", account, getCsrfToken);
+
+// Step-up re-authentication
+protectedRouter.post("/api/:userId/step-up", account, stepUpLimit, stepUp);
+
+// Sessions
+protectedRouter.get("/api/:userId/sessions", account, listSessions);
+protectedRouter.delete("/api/:userId/sessions/:sid", account, revokeSession);
+
+// Devices that skip the second factor
+protectedRouter.get(
+  "/api/:userId/trusted-devices",
+  account,
+  listTrustedDevices,
+);
+protectedRouter.delete(
+  "/api/:userId/trusted-devices/:deviceId",
+  account,
+  revokeTrustedDevice,
+);
+
+// Linking a social sign-in adds a way into the account
+protectedRouter.get(
+  "/api/:userId/identities/:provider/authorize",
+  sensitive,
+  oidcLinkAuthorize,
+);
+
+// Security log
+protectedRouter.get(
+  "/api/:userId/security/events",
+  account,
+  listSecurityEvents,
+);
+
+// Access tokens
+protectedRouter.post("/api/:userId/tokens", sensitive, createAccessToken);
+protectedRouter.get("/api/:userId/tokens", account, listAccessTokens);
+protectedRouter.delete(
+  "/api/:userId/tokens/:tokenId",
+  account,
+  revokeAccessToken,
+);
 
 // Changes
-protectedRouter.put("/api/:userId/change-email", changeEmail);
-protectedRouter.put("/api/:userId/change-password", changePassword);
+protectedRouter.put("/api/:userId/change-email", sensitive, changeEmail);
+protectedRouter.post(
+  "/api/:userId/email/verify/resend",
+  account,
+  resendVerification,
+);
+protectedRouter.put(
+  "/api/:userId/change-password",
+  sensitive,
+  changePassword,
+);
+protectedRouter.put(
+  "/api/:userId/change-username",
+  sensitive,
+  changeUsername,
+);
 
 // 2FA
-protectedRouter.post("/api/:userId/2fa/setup", enableTwoFactor);
-protectedRouter.post("/api/:userId/2fa/verify", verifyTwoFactor);
-protectedRouter.post("/api/:userId/2fa/disable", disableTwoFactor);
+protectedRouter.post(
+  "/api/:userId/2fa/setup",
+  account,
+  requireVerifiedEmail("2fa"),
+  enableTwoFactor,
+);
+protectedRouter.post("/api/:userId/2fa/verify", account, verifyTwoFactor);
+protectedRouter.post("/api/:userId/2fa/disable", sensitive, disableTwoFactor);
+protectedRouter.post(
+  "/api/:userId/2fa/email/enable",
+  sensitive,
+  enableEmailOtp,
+);
+protectedRouter.post(
+  "/api/:userId/2fa/email/disable",
+  sensitive,
+  disableEmailOtp,
+);
+protectedRouter.post(
+  "/api/:userId/2fa/recovery-codes/regenerate",
+  sensitive,
+  regenerateRecoveryCodes,
+);
+// Passkeys
+protectedRouter.post(
+  "/api/:userId/passkeys/register/options",
+  sensitive,
+  passkeyRegistrationOptions,
+);
+protectedRouter.post(
+  "/api/:userId/passkeys/register/verify",
+  sensitive,
+  passkeyRegistrationVerify,
+);
+protectedRouter.get("/api/:userId/passkeys", account, listPasskeys);
+protectedRouter.patch(
+  "/api/:userId/passkeys/:credentialId",
+  account,
+  renamePasskey,
+);
+protectedRouter.delete(
+  "/api/:userId/passkeys/:credentialId",
+  account,
+  deletePasskey,
+);
 // Notes
-protectedRouter.get("/api/:userId/notes/search", notes.searchNotes);
-protectedRouter.put("/api/:userId/notes/create", notes.newNote);
-protectedRouter.put("/api/:userId/note/:id/update", notes.updateNote);
-protectedRouter.delete("/api/:userId/note/:id/delete", notes.deleteNote);
-protectedRouter.get("/api/:userId/note/:id", notes.showSingleNote);
-protectedRouter.get("/api/:userId/notes", notes.showAllNotes);
-
-protectedRouter.put("/api/:userId/note/:id/pin", notes.pinNote);
+protectedRouter.get(
+  "/api/:userId/notes/search",
+  notesRead,
+  searchLimit,
+  notes.searchNotes,
+);
+protectedRouter.put(
+  "/api/:userId/notes/create",
+  notesWrite,
+  noteCreateLimit,
+  notes.newNote,
+);
+protectedRouter.put(
+  "/api/:userId/note/:id/update",
+  notesWrite,
+  notes.updateNote,
+);
+protectedRouter.delete(
+  "/api/:userId/note/:id/delete",
+  notesWrite,
+  notes.deleteNote,
+);
+protectedRouter.get("/api/:userId/note/:id", notesRead, notes.showSingleNote);
+protectedRouter.get("/api/:userId/notes", notesRead, notes.showAllNotes);
+
+protectedRouter.put("/api/:userId/note/:id/pin", notesWrite, notes.pinNote);
 protectedRouter.put(
   "/api/:userId/note/:id/pin/position",
+  notesWrite,
   notes.updatePinPosition,
 );
-protectedRouter.get("/api/:userId/notes/tags", notes.showNoteTags);
-protectedRouter.get("/api/:userId/notes/names", notes.showNoteNames);
+protectedRouter.get("/api/:userId/notes/tags", notesRead, notes.showNoteTags);
+protectedRouter.get("/api/:userId/notes/names", notesRead, notes.showNoteNames);
 // Todos
-protectedRouter.get("/api/:userId/todos", todos.retrieveTodos);
-protectedRouter.put("/api/:userId/todos/create", todos.newTodo);
-protectedRouter.put("/api/:userId/todos/:todoId/update", todos.updateTodo);
-protectedRouter.delete("/api/:userId/todo/:id/delete", todos.deleteTodo);
-protectedRouter.get("/api/:userId/todos/count", todos.todoCount);
-protectedRouter.get("/api/:userId/todos/tags", todos.todoTagList);
-protectedRouter.get("/api/:userId/todos/stats", todos.todoStats);
-protectedRouter.post("/api/:userId/todo/:todoId/toggle", todos.toggleComplete);
+protectedRouter.get(
+  "/api/:userId/todos",
+  todosRead,
+  todoReadLimit,
+  todos.retrieveTodos,
+);
+protectedRouter.put(
+  "/api/:userId/todos/create",
+  todosWrite,
+  todoCreateLimit,
+  todos.newTodo,
+);
+protectedRouter.put(
+  "/api/:userId/todos/:todoId/update",
+  todosWrite,
+  todos.updateTodo,
+);
+protectedRouter.delete(
+  "/api/:userId/todo/:id/delete",
+  todosWrite,
+  todos.deleteTodo,
+);
+protectedRouter.get(
+  "/api/:userId/todos/count",
+  todosRead,
+  todoReadLimit,
+  todos.todoCount,
+);
+protectedRouter.get(
+  "/api/:userId/todos/tags",
+  todosRead,
+  todoReadLimit,
+  todos.todoTagList,
+);
+protectedRouter.get(
+  "/api/:userId/todos/stats",
+  todosRead,
+  todoReadLimit,
+  todos.todoStats,
+);
+protectedRouter.post(
+  "/api/:userId/todo/:todoId/toggle",
+  todosWrite,
+  todos.toggleComplete,
+);
+
+// Admin
+protectedRouter.get("/api/admin/users", adminRead, searchUsers);
+protectedRouter.get("/api/admin/users/:userId", adminRead, getUser);
+protectedRouter.get(
+  "/api/admin/users/:userId/events",
+  adminRead,
+  listUserEvents,
+);
+protectedRouter.post(
+  "/api/admin/users/:userId/disable",
+  adminWrite,
+  disableUser,
+);
+protectedRouter.post("/api/admin/users/:userId/enable", adminWrite, enableUser);
+protectedRouter.post(
+  "/api/admin/users/:userId/logout",
+  adminWrite,
+  forceLogout,
+);
+protectedRouter.post(
+  "/api/admin/users/:userId/2fa/reset",
+  adminWrite,
+  resetTwoFactor,
+);
+protectedRouter.get("/api/admin/audit", adminRead, listAdminAudit);
 
 // App setup
 const app = new Application();
@@ -84,9 +437,19 @@ app.use(publicRouter.routes());
 app.use(publicRouter.allowedMethods());
 
 app.use(authMiddleware);
+app.use(csrfProtection);
 app.use(protectedRouter.routes());
 app.use(protectedRouter.allowedMethods());
 
+// Purge accounts whose deletion grace period has run out
+const purgeInterval =
+  parseInt(Deno.env.get("ACCOUNT_PURGE_INTERVAL_MINUTES") ?? "60") * 60 * 1000;
+setInterval(() => {
+  accountDeletionService.purgeDueAccounts().catch((error) =>
+    console.error("Account purge failed:", error)
+  );
+}, purgeInterval);
+
 console.log("Server running on http://localhost:3000");
 console.log(`Current Environment: ${Deno.env.get("ENV")}`);
 await app.listen({ port: 3000 });
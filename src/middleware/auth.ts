@@ -1,29 +1,66 @@
 import { validateEmail, validatePassword } from "../utils/validators.ts";
-import { tokenService } from "../services/token.ts";
+import { InvalidToken, TokenRevoked, tokenService } from "../services/token.ts";
+import { accessTokenService, sessionService } from "../config/serviceSetup.ts";
+import { ACCESS_TOKEN_PREFIX } from "../services/accessToken.ts";
 import { Response } from "../utils/response.ts";
 import * as jose from "@panva/jose";
 import { Context, Next } from "@oak/oak";
 
 export async function authMiddleware(ctx: Context, next: Next) {
   try {
-    const token = await ctx.cookies.get("accessToken");
+    const authorization = ctx.request.headers.get("Authorization");
+    const bearer = authorization?.startsWith("Bearer ")
+      ? authorization.slice("Bearer ".length).trim()
+      : undefined;
+
+    if (bearer?.startsWith(ACCESS_TOKEN_PREFIX)) {
+      const accessToken = await accessTokenService.verifyToken(bearer);
+      if (!accessToken) {
+        Response.unauthorized(ctx, "Invalid or expired access token");
+        return;
+      }
+
+      ctx.state.user = {
+        userId: accessToken.userId,
+        type: "pat",
+        tokenId: accessToken.tokenId,
+        scopes: accessToken.scopes,
+      };
+      return next();
+    }
+
+    // A login JWT works the same from the header as from the cookie. The
+    // header wins so a client can't be confused by a stale cookie.
+    const token = bearer || await ctx.cookies.get("accessToken");
 
     if (!token) {
       Response.unauthorized(ctx, "No access token cookie");
       return;
     }
 
-    if (await tokenService.isTokenBlacklisted(token)) {
-      Response.unauthorized(ctx, "Token has been blacklisted");
+    const payload = await tokenService.verifyToken(token);
+
+    // Every login JWT belongs to a session; one without is not a login token
+    if (typeof payload.sid !== "string") {
+      Response.unauthorized(ctx, "Token invalid");
+      return;
+    }
+
+    if (!(await sessionService.isSessionActive(payload.sid))) {
+      Response.unauthorized(ctx, "Session has been revoked");
       return;
     }
 
-    const payload = await tokenService.verifyToken(token);
+    await sessionService.recordActivity(payload.sid, ctx.request.ip);
+
     ctx.state.user = payload;
     ctx.state.accessToken = token;
+    ctx.state.credential = bearer ? "bearer" : "cookie";
     return next();
   } catch (error) {
-    if (error instanceof jose.errors.JWTExpired) {
+    if (error instanceof TokenRevoked || error instanceof InvalidToken) {
+      Response.unauthorized(ctx, error.message);
+    } else if (error instanceof jose.errors.JWTExpired) {
       Response.unauthorized(ctx, "Token expired");
     } else if (error instanceof jose.errors.JWTInvalid) {
       Response.unauthorized(ctx, "Token invalid");
@@ -0,0 +1,92 @@
+import { TokenScope } from "../models/accessToken.ts";
+import { UserRole } from "../models/user.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { sessionService } from "../config/serviceSetup.ts";
+import { Context, Next } from "@oak/oak";
+
+export interface AuthorizationRule {
+  // Compare the token's user with the :userId route param. On by default for
+  // routes that have one.
+  owner?: boolean;
+  // Scopes an access token needs. Routes without scopes can't be used with
+  // access tokens at all, only with a real login.
+  scopes?: TokenScope[];
+  roles?: UserRole[];
+  // Sensitive operations need a recent step-up on the current session
+  elevated?: boolean;
+}
+
+type Denial = "owner" | "scope" | "role" | "elevation";
+
+// Route params are optional so one middleware fits every route type
+type AuthorizationContext = Context & {
+  params?: Record<string, string | undefined>;
+};
+
+function deny(ctx: AuthorizationContext, reason: Denial, message: string) {
+  ErrorCounter.add(1, {
+    type: "auth",
+    operation: "authorization_denied",
+    reason,
+  });
+  return Response.forbidden(ctx, message);
+}
+
+export function authorize(rule: AuthorizationRule = {}) {
+  return async function (ctx: AuthorizationContext, next: Next) {
+    const user = ctx.state.user;
+    if (!user?.userId) {
+      return Response.unauthorized(ctx, "Missing or invalid Token");
+    }
+
+    const paramUserId = ctx.params?.userId;
+    if (
+      rule.owner !== false && paramUserId !== undefined &&
+      paramUserId !== user.userId
+    ) {
+      return deny(ctx, "owner", "You don't have access to this resource");
+    }
+
+    if (user.type === "pat") {
+      const granted: TokenScope[] = user.scopes ?? [];
+      if (!rule.scopes) {
+        return deny(
+          ctx,
+          "scope",
+          "Access tokens can't be used for this endpoint",
+        );
+      }
+      const missing = rule.scopes.filter((scope) => !granted.includes(scope));
+      if (missing.length > 0) {
+        return deny(
+          ctx,
+          "scope",
+          `Access token is missing the ${missing.join(", ")} scope`,
+        );
+      }
+    }
+
+    if (rule.roles) {
+      // Access tokens and tokens issued before roles existed act as users
+      const roles: UserRole[] = user.roles ?? ["user"];
+      if (!rule.roles.some((role) => roles.includes(role))) {
+        return deny(ctx, "role", "You don't have permission to do this");
+      }
+    }
+
+    if (rule.elevated) {
+      const elevated = typeof user.sid === "string" &&
+        await sessionService.isSessionElevated(user.sid);
+      if (!elevated) {
+        return deny(
+          ctx,
+          "elevation",
+          "Re-authentication required",
+        );
+      }
+    }
+
+    await next();
+  };
+}
@@ -8,11 +8,15 @@ export async function corsMiddleware(ctx: Context, next: Next) {
     ctx.response.headers.set("Access-Control-Allow-Origin", allowedOrigin);
     ctx.response.headers.set(
       "Access-Control-Allow-Methods",
-      "GET, POST, PUT, DELETE, OPTIONS",
+      "GET, POST, PUT, PATCH, DELETE, OPTIONS",
     );
     ctx.response.headers.set(
       "Access-Control-Allow-Headers",
-      "Origin, X-Requested-With, Content-Type, Accept, Authorization",
+      "Origin, X-Requested-With, Content-Type, Accept, Authorization, X-CSRF-Token",
+    );
+    ctx.response.headers.set(
+      "Access-Control-Expose-Headers",
+      "RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After",
     );
     ctx.response.headers.set("Access-Control-Max-Age", "3600");
     ctx.response.headers.set("Access-Control-Allow-Credentials", "true");
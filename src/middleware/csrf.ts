@@ -0,0 +1,34 @@
+import { CSRF_COOKIE, CSRF_HEADER } from "../utils/cookies.ts";
+import { timingSafeEqual } from "../utils/crypto.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { Context, Next } from "@oak/oak";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Double-submit check for cookie logins. Another site can make the browser
+// send our cookies, but it can't read the CSRF cookie to copy it into the
+// header. Bearer and access token requests carry no ambient credentials, so
+// they don't need the check.
+export async function csrfProtection(ctx: Context, next: Next) {
+  if (
+    SAFE_METHODS.includes(ctx.request.method) ||
+    ctx.state.credential !== "cookie"
+  ) {
+    return await next();
+  }
+
+  const cookieToken = await ctx.cookies.get(CSRF_COOKIE);
+  const headerToken = ctx.request.headers.get(CSRF_HEADER);
+  if (!cookieToken || !headerToken) {
+    ErrorCounter.add(1, { type: "auth", operation: "csrf_missing" });
+    return Response.forbidden(ctx, "Missing CSRF token");
+  }
+
+  if (!timingSafeEqual(cookieToken, headerToken)) {
+    ErrorCounter.add(1, { type: "auth", operation: "csrf_mismatch" });
+    return Response.forbidden(ctx, "CSRF token mismatch");
+  }
+
+  await next();
+}
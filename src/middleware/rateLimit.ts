@@ -0,0 +1,69 @@
+import {
+  checkRateLimit,
+  RateLimitDecision,
+  RateLimitPolicy,
+} from "../utils/rateLimiter.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { Context, Next } from "@oak/oak";
+
+function rateLimitSubject(ctx: Context, policy: RateLimitPolicy): string {
+  const userId = ctx.state.user?.userId;
+  if (policy.by === "user" && typeof userId === "string") {
+    return `user:${userId}`;
+  }
+  return `ip:${ctx.request.ip}`;
+}
+
+// Headers from the IETF RateLimit header fields draft
+function setRateLimitHeaders(
+  ctx: Context,
+  policy: RateLimitPolicy,
+  decision: RateLimitDecision,
+) {
+  ctx.response.headers.set("RateLimit-Limit", decision.limit.toString());
+  ctx.response.headers.set(
+    "RateLimit-Remaining",
+    decision.remaining.toString(),
+  );
+  ctx.response.headers.set("RateLimit-Reset", decision.reset.toString());
+  ctx.response.headers.set(
+    "RateLimit-Policy",
+    `${policy.limit};w=${policy.window}`,
+  );
+}
+
+// Counts every request that reaches it. Put it after authorize() when the
+// policy is per user. If Redis can't be reached the request is let through
+// rather than taking the route down with it.
+export function rateLimit(policy: RateLimitPolicy) {
+  return async function (ctx: Context, next: Next) {
+    let decision: RateLimitDecision;
+    try {
+      decision = await checkRateLimit(policy, rateLimitSubject(ctx, policy));
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "rate_limit",
+        operation: "check_failed",
+      });
+      console.error("Rate limit check failed:", error);
+      return await next();
+    }
+
+    setRateLimitHeaders(ctx, policy, decision);
+
+    if (!decision.allowed) {
+      ErrorCounter.add(1, {
+        type: "rate_limit",
+        operation: policy.name,
+      });
+      ctx.response.headers.set("Retry-After", decision.retryAfter.toString());
+      return Response.tooManyRequests(
+        ctx,
+        "Too many requests. Please try again later.",
+      );
+    }
+
+    await next();
+  };
+}
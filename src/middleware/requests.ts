@@ -24,6 +24,7 @@ export async function requestTracingMiddleware(ctx: Context, next: Next) {
   const requestId = ctx.request.headers.get("X-Request-ID") ||
     crypto.randomUUID();
 
+  ctx.state.requestId = requestId;
   ctx.response.headers.set("X-Request-ID", requestId);
 
   await next();
@@ -0,0 +1,56 @@
+import { userService } from "../config/serviceSetup.ts";
+import { Response } from "../utils/response.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { Context, Next } from "@oak/oak";
+import "@std/dotenv/load";
+
+export type RestrictedFeature = "2fa" | "sharing";
+
+// Comma separated list of features unverified accounts can't use. Set it to
+// an empty string to let unverified accounts use everything.
+const restrictedFeatures = new Set(
+  (Deno.env.get("UNVERIFIED_RESTRICTED_FEATURES") ?? "2fa,sharing")
+    .split(",")
+    .map((feature) => feature.trim())
+    .filter(Boolean),
+);
+
+export function isRestrictedWhenUnverified(feature: RestrictedFeature) {
+  return restrictedFeatures.has(feature);
+}
+
+export function requireVerifiedEmail(feature: RestrictedFeature) {
+  return async function (ctx: Context, next: Next) {
+    if (!isRestrictedWhenUnverified(feature)) {
+      return await next();
+    }
+
+    try {
+      const userId = ctx.state.user?.userId;
+      if (!userId) {
+        return Response.unauthorized(ctx, "Missing or invalid Token");
+      }
+
+      const user = await userService.findById(userId);
+      if (!user) {
+        return Response.unauthorized(ctx, "User not found");
+      }
+
+      if (!user.emailVerified) {
+        ErrorCounter.add(1, {
+          type: "auth",
+          operation: "email_not_verified",
+        });
+        return Response.forbidden(
+          ctx,
+          "Please verify your email address to use this feature",
+        );
+      }
+    } catch (error) {
+      console.error("Email verification check error:", error);
+      return Response.internalError(ctx, "Internal server error");
+    }
+
+    await next();
+  };
+}
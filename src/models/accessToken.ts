@@ -0,0 +1,28 @@
+export const TOKEN_SCOPES = [
+  "profile:read",
+  "notes:read",
+  "notes:write",
+  "todos:read",
+  "todos:write",
+] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+export interface AccessToken {
+  tokenId: string;
+  userId: string;
+  name: string;
+  tokenHash: string; // SHA-256 of the raw token, which is only shown once
+  prefix: string; // first characters of the raw token so users can tell them apart
+  scopes: TokenScope[];
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface CreateAccessTokenRequest {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays?: number;
+}
@@ -0,0 +1,24 @@
+export type AdminAction =
+  | "search_users"
+  | "view_user"
+  | "view_user_events"
+  | "disable_user"
+  | "enable_user"
+  | "force_logout"
+  | "reset_two_factor"
+  | "view_admin_audit";
+
+// One entry per admin request. Entries are never updated or removed, not
+// even when the account they are about is purged.
+export interface AdminAuditEntry {
+  entryId: string;
+  adminId: string;
+  action: AdminAction;
+  targetUserId?: string;
+  reason?: string; // why the admin acted, required for account changes
+  details?: Record<string, string>;
+  ipAddress: string;
+  userAgent: string;
+  requestId: string;
+  createdAt: Date;
+}
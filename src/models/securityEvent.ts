@@ -0,0 +1,29 @@
+export type SecurityEventType =
+  | "login"
+  | "two_factor_enabled"
+  | "two_factor_disabled"
+  | "recovery_codes_regenerated"
+  | "recovery_code_used"
+  | "email_otp_enabled"
+  | "email_otp_disabled"
+  | "password_changed"
+  | "email_changed"
+  | "session_revoked"
+  | "session_elevated"
+  | "device_trusted"
+  | "trusted_device_revoked"
+  | "identity_linked";
+
+// Security events are only ever appended; nothing updates or removes a
+// single entry. They go away together with the account when it is purged.
+export interface SecurityEvent {
+  eventId: string;
+  userId: string;
+  type: SecurityEventType;
+  success: boolean;
+  ipAddress: string;
+  userAgent: string;
+  requestId: string;
+  details?: Record<string, string>; // e.g. the login method or failure reason
+  createdAt: Date;
+}
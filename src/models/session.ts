@@ -0,0 +1,9 @@
+export interface Session {
+  sessionId: string;
+  userId: string;
+  ipAddress: string;
+  userAgent: string;
+  createdAt: Date;
+  lastSeenAt: Date; // bumped on refresh and, throttled, on authenticated requests
+  revokedAt?: Date;
+}
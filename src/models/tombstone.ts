@@ -0,0 +1,17 @@
+// All that is kept of a purged account. The userId is only stored as a hash,
+// so support can confirm a purge for an id they already know without the
+// record pointing back to anyone.
+export interface AccountTombstone {
+  tombstoneId: string;
+  userIdHash: string;
+  requestedAt?: Date;
+  purgedAt: Date;
+  purged: {
+    notes: number;
+    todos: number;
+    sessions: number;
+    accessTokens: number;
+    securityEvents: number;
+    trustedDevices: number;
+  };
+}
@@ -0,0 +1,12 @@
+// A browser the user chose to remember after a TOTP login. Logins from it
+// skip the second factor until it expires or is revoked.
+export interface TrustedDevice {
+  deviceId: string;
+  userId: string;
+  ipAddress: string; // where the device was trusted from
+  userAgent: string;
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
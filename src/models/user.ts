@@ -1,44 +1,91 @@
+export type UserRole = "user" | "admin";
+
 export interface User {
   userId: string;
   username: string;
   passwordHash: string;
+  passwordless?: boolean; // social sign-up that hasn't set a password yet
   createdAt: Date;
   email: string;
+  emailVerified?: boolean;
+  pendingEmail?: string;
   lastEmailChange?: Date;
   lastPasswordChange?: Date;
   lastUsernameChange?: Date;
   twoFactorSecret?: string;
   twoFactorEnabled: boolean;
-  recoveryCodes?: string[];
+  lastTotpStep?: number; // last TOTP time step accepted at login
+  emailOtpEnabled?: boolean; // opted in to login codes by email
+  recoveryCodes?: string[]; // SHA-256 hashes; the codes are only shown once
+  passkeys?: Passkey[];
+  identities?: LinkedIdentity[];
+  roles?: UserRole[]; // missing means ["user"]
+  disabled?: boolean; // set by an admin, blocks every way of logging in
+  disabledAt?: Date;
+  disabledReason?: string;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date; // purged after this unless the user logs in
+}
+
+export interface LinkedIdentity {
+  provider: string;
+  subject: string; // the provider's "sub" claim
+  email?: string;
+  linkedAt: Date;
+}
+
+export interface Passkey {
+  credentialId: string; // base64url
+  publicKey: string; // base64url COSE key
+  counter: number;
+  transports?: string[];
+  name: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
 }
 
+// "cookie" keeps the tokens in httpOnly cookies for browsers. "token" hands
+// them back in the body for clients that can't hold cookies (the mobile app,
+// the CLI); those send the access token as "Authorization: Bearer <jwt>".
+export type LoginMode = "cookie" | "token";
+
 export interface LoginRequest {
   username: string;
   password: string;
   twoFactorCode?: string;
+  mode?: LoginMode;
 }
 
 export interface ChangeEmailRequest {
   newEmail: string;
 }
 
-export interface ChangePasswordRequest {
-  oldPassword: string;
-  newPassword: string;
+export interface EmailChangeTokenRequest {
+  token: string;
 }
 
-export interface DeleteUserRequest {
-  passwordOne: string;
-  passwordTwo: string;
+export interface ChangeUsernameRequest {
+  newUsername: string;
 }
 
-export interface DisableTwoFactorRequest {
+export interface ChangePasswordRequest {
+  newPassword: string;
+}
+
+export interface StepUpRequest {
   password: string;
-  totp: string;
+  totp?: string; // required when 2FA is enabled
 }
 
 export interface UserProfile {
   username: string;
   email: string;
+  emailVerified: boolean;
+  pendingEmail?: string;
   createdAt: Date;
+  recoveryCodesRemaining?: number; // only when 2FA is enabled
+}
+
+export interface RenamePasskeyRequest {
+  name: string;
 }
@@ -0,0 +1,149 @@
+import { Collection, MongoClient } from "mongodb";
+import { AccessToken } from "../models/accessToken.ts";
+import { DatabaseMetrics, ErrorCounter } from "../utils/metrics.ts";
+import "@std/dotenv/load";
+
+export class AccessTokenRepo {
+  private collection: Collection<AccessToken>;
+
+  constructor(db: MongoClient) {
+    const dbName = Deno.env.get("MONGO_DB") as string;
+    const collectionName = Deno.env.get("ACCESS_TOKEN_COLLECTION") as string;
+    this.collection = db.db(dbName).collection(collectionName);
+  }
+
+  async createToken(token: AccessToken): Promise<AccessToken> {
+    const timer = DatabaseMetrics.track("insert", "access_tokens");
+    try {
+      const result = await this.collection.insertOne(token);
+      if (!result.acknowledged) {
+        throw new Error("Failed to insert access token");
+      }
+
+      return token;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "create_access_token_failed",
+      });
+      console.error("Failed to create access token: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findByHash(tokenHash: string): Promise<AccessToken | null> {
+    const timer = DatabaseMetrics.track("find", "access_tokens");
+    try {
+      return await this.collection.findOne({
+        tokenHash,
+        revokedAt: { $exists: false },
+      });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_access_token_failed",
+      });
+      console.error("Failed to find access token: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findActiveByUser(userId: string): Promise<AccessToken[]> {
+    const timer = DatabaseMetrics.track("find", "access_tokens");
+    try {
+      return await this.collection
+        .find({ userId, revokedAt: { $exists: false } })
+        .sort({ createdAt: -1 })
+        .toArray();
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_user_access_tokens_failed",
+      });
+      console.error("Failed to find user access tokens: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async touchToken(tokenId: string): Promise<void> {
+    const timer = DatabaseMetrics.track("update", "access_tokens");
+    try {
+      await this.collection.updateOne(
+        { tokenId },
+        { $set: { lastUsedAt: new Date() } },
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "touch_access_token_failed",
+      });
+      console.error("Failed to update access token usage: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "access_tokens");
+    try {
+      const result = await this.collection.updateOne(
+        { userId, tokenId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "revoke_access_token_failed",
+      });
+      console.error("Failed to revoke access token: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async revokeAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "access_tokens");
+    try {
+      const result = await this.collection.updateMany(
+        { userId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "revoke_user_access_tokens_failed",
+      });
+      console.error("Failed to revoke user access tokens: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async deleteAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("delete", "access_tokens");
+    try {
+      const result = await this.collection.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "delete_user_access_tokens_failed",
+      });
+      console.error("Failed to delete user access tokens: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { Collection, Filter, MongoClient } from "mongodb";
+import { AdminAuditEntry } from "../models/adminAudit.ts";
+import { DatabaseMetrics, ErrorCounter } from "../utils/metrics.ts";
+import "@std/dotenv/load";
+
+// Insert and read only. There is deliberately no way to change or delete an
+// entry through this repo.
+export class AdminAuditRepo {
+  private collection: Collection<AdminAuditEntry>;
+
+  constructor(db: MongoClient) {
+    const dbName = Deno.env.get("MONGO_DB") as string;
+    const collectionName = Deno.env.get("ADMIN_AUDIT_COLLECTION") as string;
+    this.collection = db.db(dbName).collection(collectionName);
+  }
+
+  async createEntry(entry: AdminAuditEntry): Promise<AdminAuditEntry> {
+    const timer = DatabaseMetrics.track("insert", "admin_audit");
+    try {
+      const result = await this.collection.insertOne(entry);
+      if (!result.acknowledged) {
+        throw new Error("Failed to insert admin audit entry");
+      }
+
+      return entry;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "create_admin_audit_failed",
+      });
+      console.error("Failed to create admin audit entry: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async getPaginatedEntries(
+    targetUserId: string | undefined,
+    page = 1,
+    pageSize = 20,
+  ): Promise<{ entries: AdminAuditEntry[]; totalCount: number }> {
+    const timer = DatabaseMetrics.track("find_paginated", "admin_audit");
+    try {
+      const filter: Filter<AdminAuditEntry> = targetUserId
+        ? { targetUserId }
+        : {};
+      const totalCount = await this.collection.countDocuments(filter);
+      const entries = await this.collection
+        .find(filter, { projection: { _id: 0 } })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .toArray();
+
+      return { entries, totalCount };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "get_admin_audit_failed",
+      });
+      console.error("Failed to get admin audit entries: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+}
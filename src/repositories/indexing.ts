@@ -62,6 +62,84 @@ const userIndexes: IndexDescription[] = [
     name: "email_index",
     unique: true,
   },
+  {
+    key: { "passkeys.credentialId": 1 },
+    name: "passkey_credential_index",
+    unique: true,
+    sparse: true,
+  },
+  {
+    key: { "identities.provider": 1, "identities.subject": 1 },
+    name: "linked_identity_index",
+    unique: true,
+    sparse: true,
+  },
+  {
+    key: { deletionScheduledFor: 1 },
+    name: "deletion_scheduled_index",
+    sparse: true,
+  },
+];
+
+const sessionIndexes: IndexDescription[] = [
+  {
+    key: { sessionId: 1 },
+    name: "sessionId_index",
+    unique: true,
+  },
+  {
+    key: { userId: 1, lastSeenAt: -1 },
+    name: "user_sessions_last_seen",
+  },
+];
+
+const accessTokenIndexes: IndexDescription[] = [
+  {
+    key: { tokenHash: 1 },
+    name: "tokenHash_index",
+    unique: true,
+  },
+  {
+    key: { userId: 1, createdAt: -1 },
+    name: "user_access_tokens_date",
+  },
+];
+
+const tombstoneIndexes: IndexDescription[] = [
+  {
+    key: { userIdHash: 1 },
+    name: "userIdHash_index",
+  },
+];
+
+const securityEventIndexes: IndexDescription[] = [
+  {
+    key: { userId: 1, createdAt: -1 },
+    name: "user_security_events_date",
+  },
+];
+
+const trustedDeviceIndexes: IndexDescription[] = [
+  {
+    key: { deviceId: 1 },
+    name: "deviceId_index",
+    unique: true,
+  },
+  {
+    key: { userId: 1, createdAt: -1 },
+    name: "user_trusted_devices_date",
+  },
+];
+
+const adminAuditIndexes: IndexDescription[] = [
+  {
+    key: { createdAt: -1 },
+    name: "admin_audit_date",
+  },
+  {
+    key: { targetUserId: 1, createdAt: -1 },
+    name: "admin_audit_target_date",
+  },
 ];
 
 export async function setupIndexes(db: Db): Promise<void> {
@@ -81,6 +159,12 @@ export async function setupIndexes(db: Db): Promise<void> {
       Deno.env.get("NOTE_COLLECTION"),
       Deno.env.get("TODO_COLLECTION"),
       Deno.env.get("USER_COLLECTION"),
+      Deno.env.get("SESSION_COLLECTION"),
+      Deno.env.get("ACCESS_TOKEN_COLLECTION"),
+      Deno.env.get("TOMBSTONE_COLLECTION"),
+      Deno.env.get("SECURITY_EVENT_COLLECTION"),
+      Deno.env.get("ADMIN_AUDIT_COLLECTION"),
+      Deno.env.get("TRUSTED_DEVICE_COLLECTION"),
     ].filter((name): name is string => !!name);
 
     for (const collName of collections) {
@@ -103,8 +187,19 @@ export async function setupIndexes(db: Db): Promise<void> {
     const noteCollection = Deno.env.get("NOTE_COLLECTION");
     const todoCollection = Deno.env.get("TODO_COLLECTION");
     const userCollection = Deno.env.get("USER_COLLECTION");
-
-    if (!noteCollection || !todoCollection || !userCollection) {
+    const sessionCollection = Deno.env.get("SESSION_COLLECTION");
+    const accessTokenCollection = Deno.env.get("ACCESS_TOKEN_COLLECTION");
+    const tombstoneCollection = Deno.env.get("TOMBSTONE_COLLECTION");
+    const securityEventCollection = Deno.env.get("SECURITY_EVENT_COLLECTION");
+    const adminAuditCollection = Deno.env.get("ADMIN_AUDIT_COLLECTION");
+    const trustedDeviceCollection = Deno.env.get("TRUSTED_DEVICE_COLLECTION");
+
+    if (
+      !noteCollection || !todoCollection || !userCollection ||
+      !sessionCollection || !accessTokenCollection || !tombstoneCollection ||
+      !securityEventCollection || !adminAuditCollection ||
+      !trustedDeviceCollection
+    ) {
       throw new Error(
         "Required collection names are not set in environment variables",
       );
@@ -119,6 +214,24 @@ export async function setupIndexes(db: Db): Promise<void> {
     const usersCollection = db.collection(userCollection);
     await usersCollection.createIndexes(userIndexes);
 
+    const sessionsCollection = db.collection(sessionCollection);
+    await sessionsCollection.createIndexes(sessionIndexes);
+
+    const accessTokensCollection = db.collection(accessTokenCollection);
+    await accessTokensCollection.createIndexes(accessTokenIndexes);
+
+    const tombstonesCollection = db.collection(tombstoneCollection);
+    await tombstonesCollection.createIndexes(tombstoneIndexes);
+
+    const securityEventsCollection = db.collection(securityEventCollection);
+    await securityEventsCollection.createIndexes(securityEventIndexes);
+
+    const adminAuditsCollection = db.collection(adminAuditCollection);
+    await adminAuditsCollection.createIndexes(adminAuditIndexes);
+
+    const trustedDevicesCollection = db.collection(trustedDeviceCollection);
+    await trustedDevicesCollection.createIndexes(trustedDeviceIndexes);
+
     console.log(`Successfully created all indexes in database: ${dbName}`);
   } catch (error: unknown) {
     // Proper error handling with type checking
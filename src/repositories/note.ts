@@ -575,4 +575,21 @@ export class NoteRepo {
       timer.end();
     }
   }
+
+  async deleteAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("delete", "note");
+    try {
+      const result = await this.collection.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "delete_user_notes_failed",
+      });
+      console.error("Failed to delete user notes: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
 }
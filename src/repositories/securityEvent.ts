@@ -0,0 +1,120 @@
+import { Collection, Filter, MongoClient } from "mongodb";
+import { SecurityEvent } from "../models/securityEvent.ts";
+import { DatabaseMetrics, ErrorCounter } from "../utils/metrics.ts";
+import "@std/dotenv/load";
+
+export class SecurityEventRepo {
+  private collection: Collection<SecurityEvent>;
+
+  constructor(db: MongoClient) {
+    const dbName = Deno.env.get("MONGO_DB") as string;
+    const collectionName = Deno.env.get("SECURITY_EVENT_COLLECTION") as string;
+    this.collection = db.db(dbName).collection(collectionName);
+  }
+
+  async createEvent(event: SecurityEvent): Promise<SecurityEvent> {
+    const timer = DatabaseMetrics.track("insert", "security_events");
+    try {
+      const result = await this.collection.insertOne(event);
+      if (!result.acknowledged) {
+        throw new Error("Failed to insert security event");
+      }
+
+      return event;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "create_security_event_failed",
+      });
+      console.error("Failed to create security event: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async getPaginatedEvents(
+    userId: string,
+    page = 1,
+    pageSize = 20,
+  ): Promise<{ events: SecurityEvent[]; totalCount: number }> {
+    const timer = DatabaseMetrics.track("find_paginated", "security_events");
+    try {
+      const filter: Filter<SecurityEvent> = { userId };
+      const totalCount = await this.collection.countDocuments(filter);
+      const events = await this.collection
+        .find(filter, { projection: { _id: 0 } })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .toArray();
+
+      return { events, totalCount };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "get_security_events_failed",
+      });
+      console.error("Failed to get security events: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findLatest(userId: string): Promise<SecurityEvent | null> {
+    const timer = DatabaseMetrics.track("find", "security_events");
+    try {
+      return await this.collection.findOne(
+        { userId },
+        { sort: { createdAt: -1 } },
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_security_event_failed",
+      });
+      console.error("Failed to find latest security event: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async countSuccessfulLogins(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("count", "security_events");
+    try {
+      return await this.collection.countDocuments({
+        userId,
+        type: "login",
+        success: true,
+      });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "count_security_events_failed",
+      });
+      console.error("Failed to count logins: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async deleteAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("delete", "security_events");
+    try {
+      const result = await this.collection.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "delete_security_events_failed",
+      });
+      console.error("Failed to delete security events: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { Collection, MongoClient } from "mongodb";
+import { Session } from "../models/session.ts";
+import { DatabaseMetrics, ErrorCounter } from "../utils/metrics.ts";
+import "@std/dotenv/load";
+
+export class SessionRepo {
+  private collection: Collection<Session>;
+
+  constructor(db: MongoClient) {
+    const dbName = Deno.env.get("MONGO_DB") as string;
+    const collectionName = Deno.env.get("SESSION_COLLECTION") as string;
+    this.collection = db.db(dbName).collection(collectionName);
+  }
+
+  async createSession(session: Session): Promise<Session> {
+    const timer = DatabaseMetrics.track("insert", "sessions");
+    try {
+      const result = await this.collection.insertOne(session);
+      if (!result.acknowledged) {
+        throw new Error("Failed to insert session");
+      }
+
+      return session;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "create_session_failed",
+      });
+      console.error("Failed to create session: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findById(sessionId: string): Promise<Session | null> {
+    const timer = DatabaseMetrics.track("find", "sessions");
+    try {
+      return await this.collection.findOne({ sessionId });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_session_failed",
+      });
+      console.error("Failed to find session: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findActiveByUser(userId: string): Promise<Session[]> {
+    const timer = DatabaseMetrics.track("find", "sessions");
+    try {
+      return await this.collection
+        .find({ userId, revokedAt: { $exists: false } })
+        .sort({ lastSeenAt: -1 })
+        .toArray();
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_user_sessions_failed",
+      });
+      console.error("Failed to find user sessions: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async touchSession(sessionId: string, ipAddress: string): Promise<void> {
+    const timer = DatabaseMetrics.track("update", "sessions");
+    try {
+      await this.collection.updateOne(
+        { sessionId, revokedAt: { $exists: false } },
+        { $set: { lastSeenAt: new Date(), ipAddress } },
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "touch_session_failed",
+      });
+      console.error("Failed to update session: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "sessions");
+    try {
+      const result = await this.collection.updateOne(
+        { sessionId, userId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "revoke_session_failed",
+      });
+      console.error("Failed to revoke session: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async revokeAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "sessions");
+    try {
+      const result = await this.collection.updateMany(
+        { userId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "revoke_user_sessions_failed",
+      });
+      console.error("Failed to revoke user sessions: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // Includes revoked sessions, unlike findActiveByUser
+  async findByUser(userId: string): Promise<Session[]> {
+    const timer = DatabaseMetrics.track("find", "sessions");
+    try {
+      return await this.collection.find({ userId }).toArray();
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_user_sessions_failed",
+      });
+      console.error("Failed to find user sessions: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async deleteAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("delete", "sessions");
+    try {
+      const result = await this.collection.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "delete_user_sessions_failed",
+      });
+      console.error("Failed to delete user sessions: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+}
@@ -199,4 +199,21 @@ export class TodoRepo {
       timer.end();
     }
   }
+
+  async deleteAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("delete", "todo");
+    try {
+      const result = await this.collection.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "delete_user_todos_failed",
+      });
+      console.error("Failed to delete user todos: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
 }
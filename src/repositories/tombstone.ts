@@ -0,0 +1,53 @@
+import { Collection, MongoClient } from "mongodb";
+import { AccountTombstone } from "../models/tombstone.ts";
+import { DatabaseMetrics, ErrorCounter } from "../utils/metrics.ts";
+import "@std/dotenv/load";
+
+export class TombstoneRepo {
+  private collection: Collection<AccountTombstone>;
+
+  constructor(db: MongoClient) {
+    const dbName = Deno.env.get("MONGO_DB") as string;
+    const collectionName = Deno.env.get("TOMBSTONE_COLLECTION") as string;
+    this.collection = db.db(dbName).collection(collectionName);
+  }
+
+  async createTombstone(
+    tombstone: AccountTombstone,
+  ): Promise<AccountTombstone> {
+    const timer = DatabaseMetrics.track("insert", "tombstones");
+    try {
+      const result = await this.collection.insertOne(tombstone);
+      if (!result.acknowledged) {
+        throw new Error("Failed to insert tombstone");
+      }
+
+      return tombstone;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "create_tombstone_failed",
+      });
+      console.error("Failed to create tombstone: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findByUserIdHash(userIdHash: string): Promise<AccountTombstone | null> {
+    const timer = DatabaseMetrics.track("find", "tombstones");
+    try {
+      return await this.collection.findOne({ userIdHash });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_tombstone_failed",
+      });
+      console.error("Failed to find tombstone: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { Collection, MongoClient } from "mongodb";
+import { TrustedDevice } from "../models/trustedDevice.ts";
+import { DatabaseMetrics, ErrorCounter } from "../utils/metrics.ts";
+import "@std/dotenv/load";
+
+export class TrustedDeviceRepo {
+  private collection: Collection<TrustedDevice>;
+
+  constructor(db: MongoClient) {
+    const dbName = Deno.env.get("MONGO_DB") as string;
+    const collectionName = Deno.env.get("TRUSTED_DEVICE_COLLECTION") as string;
+    this.collection = db.db(dbName).collection(collectionName);
+  }
+
+  async createDevice(device: TrustedDevice): Promise<TrustedDevice> {
+    const timer = DatabaseMetrics.track("insert", "trusted_devices");
+    try {
+      const result = await this.collection.insertOne(device);
+      if (!result.acknowledged) {
+        throw new Error("Failed to insert trusted device");
+      }
+
+      return device;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "create_trusted_device_failed",
+      });
+      console.error("Failed to create trusted device: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findActive(
+    userId: string,
+    deviceId: string,
+  ): Promise<TrustedDevice | null> {
+    const timer = DatabaseMetrics.track("find", "trusted_devices");
+    try {
+      return await this.collection.findOne({
+        userId,
+        deviceId,
+        expiresAt: { $gt: new Date() },
+        revokedAt: { $exists: false },
+      });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_trusted_device_failed",
+      });
+      console.error("Failed to find trusted device: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findActiveByUser(userId: string): Promise<TrustedDevice[]> {
+    const timer = DatabaseMetrics.track("find", "trusted_devices");
+    try {
+      return await this.collection
+        .find({
+          userId,
+          expiresAt: { $gt: new Date() },
+          revokedAt: { $exists: false },
+        })
+        .sort({ createdAt: -1 })
+        .toArray();
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_user_trusted_devices_failed",
+      });
+      console.error("Failed to find user trusted devices: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async touchDevice(deviceId: string): Promise<void> {
+    const timer = DatabaseMetrics.track("update", "trusted_devices");
+    try {
+      await this.collection.updateOne(
+        { deviceId },
+        { $set: { lastUsedAt: new Date() } },
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "touch_trusted_device_failed",
+      });
+      console.error("Failed to update trusted device usage: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async revokeDevice(userId: string, deviceId: string): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "trusted_devices");
+    try {
+      const result = await this.collection.updateOne(
+        { userId, deviceId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "revoke_trusted_device_failed",
+      });
+      console.error("Failed to revoke trusted device: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async revokeAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "trusted_devices");
+    try {
+      const result = await this.collection.updateMany(
+        { userId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "revoke_user_trusted_devices_failed",
+      });
+      console.error("Failed to revoke user trusted devices: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async deleteAllByUser(userId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("delete", "trusted_devices");
+    try {
+      const result = await this.collection.deleteMany({ userId });
+      return result.deletedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "delete_user_trusted_devices_failed",
+      });
+      console.error("Failed to delete user trusted devices: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+}
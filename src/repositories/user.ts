@@ -1,8 +1,15 @@
-import { Collection, MongoClient } from "mongodb";
-import { User } from "../models/user.ts";
+import { Collection, Filter, MongoClient, MongoServerError } from "mongodb";
+import { LinkedIdentity, Passkey, User } from "../models/user.ts";
 import { DatabaseMetrics, ErrorCounter } from "../utils/metrics.ts";
 import "@std/dotenv/load";
 
+// The unique username index is what settles two users racing for one name
+export class UsernameTaken extends Error {
+  constructor() {
+    super("This username is already in use");
+  }
+}
+
 export class UserRepo {
   private collection: Collection<User>;
 
@@ -100,6 +107,30 @@ export class UserRepo {
     }
   }
 
+  async replacePasswordHash(
+    userId: string,
+    currentHash: string,
+    passwordHash: string,
+  ): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId, passwordHash: currentHash },
+        { $set: { passwordHash } },
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "password_rehash_failed",
+      });
+      console.error("Failed to replace password hash: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
   async updateUserPassword(
     userId: string,
     passwordHash: string,
@@ -120,6 +151,7 @@ export class UserRepo {
             passwordHash: passwordHash,
             lastPasswordChange: new Date(),
           },
+          $unset: { passwordless: "" },
         },
       );
       return result.modifiedCount;
@@ -156,6 +188,9 @@ export class UserRepo {
 
       return result || null;
     } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) {
+        throw new UsernameTaken();
+      }
       ErrorCounter.add(1, {
         type: "database",
         operation: "username_update_failed",
@@ -198,16 +233,46 @@ export class UserRepo {
     }
   }
 
-  async updateUserEmail(userId: string, email: string): Promise<number> {
+  async setPendingEmail(userId: string, email: string): Promise<number> {
     const timer = DatabaseMetrics.track("update", "users");
     try {
       const result = await this.collection.updateOne(
         { userId: userId },
+        {
+          $set: {
+            pendingEmail: email,
+          },
+        },
+      );
+      return result.matchedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "pending_email_update_failed",
+      });
+      console.error("Failed to set pending email: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // Swaps in the pending address, but only if it is still the one the
+  // confirmation link was sent to.
+  async confirmPendingEmail(userId: string, email: string): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId: userId, pendingEmail: email },
         {
           $set: {
             email: email,
+            emailVerified: true,
             lastEmailChange: new Date(),
           },
+          $unset: {
+            pendingEmail: "",
+          },
         },
       );
       return result.modifiedCount;
@@ -223,6 +288,60 @@ export class UserRepo {
     }
   }
 
+  async restoreEmail(userId: string, email: string): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId: userId },
+        {
+          $set: {
+            email: email,
+            emailVerified: true,
+          },
+          $unset: {
+            pendingEmail: "",
+          },
+        },
+      );
+      return result.matchedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "email_restore_failed",
+      });
+      console.error("Failed to restore user email: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // Only verifies while the address on file is still the one the link was
+  // sent to.
+  async markEmailVerified(userId: string, email: string): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId: userId, email: email },
+        {
+          $set: {
+            emailVerified: true,
+          },
+        },
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "email_verify_failed",
+      });
+      console.error("Failed to mark email verified: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
   async enableTwoFactor(
     userId: string,
     secret: string,
@@ -272,6 +391,8 @@ export class UserRepo {
           $unset: {
             twoFactorSecret: "",
             recoveryCodes: "",
+            lastTotpStep: "",
+            emailOtpEnabled: "",
           },
         },
       );
@@ -293,6 +414,58 @@ export class UserRepo {
       timer.end();
     }
   }
+
+  // Only moves forward, so a step that was already used (or an older one)
+  // leaves the document untouched and the caller sees false.
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        {
+          userId,
+          $or: [
+            { lastTotpStep: { $exists: false } },
+            { lastTotpStep: { $lt: step } },
+          ],
+        },
+        { $set: { lastTotpStep: step } },
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "totp_step_update_failed",
+      });
+      console.error("Failed to record TOTP step: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // Removes one stored recovery code, hashed or legacy plaintext. Only the
+  // request that actually pulls it out gets true, so a code can't be spent
+  // twice by racing requests.
+  async consumeRecoveryCode(userId: string, stored: string): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId, recoveryCodes: stored },
+        { $pull: { recoveryCodes: stored } },
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "recovery_code_consume_failed",
+      });
+      console.error("Failed to consume recovery code: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
   async updateUserRecoveryCodes(
     userId: string,
     recoveryCodes: string[],
@@ -321,4 +494,323 @@ export class UserRepo {
       timer.end();
     }
   }
+
+  async addPasskey(userId: string, passkey: Passkey): Promise<void> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId },
+        { $push: { passkeys: passkey } },
+      );
+      if (result.matchedCount === 0) {
+        throw new Error("User not found");
+      }
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "passkey_add_failed",
+      });
+      console.error("Failed to add passkey: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findByPasskeyId(credentialId: string): Promise<User | null> {
+    const timer = DatabaseMetrics.track("find", "users");
+    try {
+      return await this.collection.findOne({
+        "passkeys.credentialId": credentialId,
+      });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_by_passkey_failed",
+      });
+      console.error("Failed to find user by passkey: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async updatePasskeyCounter(
+    userId: string,
+    credentialId: string,
+    counter: number,
+  ): Promise<void> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      await this.collection.updateOne(
+        { userId, "passkeys.credentialId": credentialId },
+        {
+          $set: {
+            "passkeys.$.counter": counter,
+            "passkeys.$.lastUsedAt": new Date(),
+          },
+        },
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "passkey_counter_update_failed",
+      });
+      console.error("Failed to update passkey counter: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async renamePasskey(
+    userId: string,
+    credentialId: string,
+    name: string,
+  ): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId, "passkeys.credentialId": credentialId },
+        { $set: { "passkeys.$.name": name } },
+      );
+      return result.matchedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "passkey_rename_failed",
+      });
+      console.error("Failed to rename passkey: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async removePasskey(userId: string, credentialId: string): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId },
+        { $pull: { passkeys: { credentialId } } },
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "passkey_remove_failed",
+      });
+      console.error("Failed to remove passkey: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findByIdentity(
+    provider: string,
+    subject: string,
+  ): Promise<User | null> {
+    const timer = DatabaseMetrics.track("find", "users");
+    try {
+      return await this.collection.findOne({
+        identities: { $elemMatch: { provider, subject } },
+      });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_by_identity_failed",
+      });
+      console.error("Failed to find user by identity: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async linkIdentity(userId: string, identity: LinkedIdentity): Promise<void> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId },
+        { $push: { identities: identity } },
+      );
+      if (result.matchedCount === 0) {
+        throw new Error("User not found");
+      }
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "identity_link_failed",
+      });
+      console.error("Failed to link identity: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async scheduleDeletion(
+    userId: string,
+    requestedAt: Date,
+    scheduledFor: Date,
+  ): Promise<number> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId: userId },
+        {
+          $set: {
+            deletionRequestedAt: requestedAt,
+            deletionScheduledFor: scheduledFor,
+          },
+        },
+      );
+      return result.matchedCount;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "schedule_deletion_failed",
+      });
+      console.error("Failed to schedule user deletion: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async cancelDeletion(userId: string): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId: userId, deletionScheduledFor: { $exists: true } },
+        {
+          $unset: {
+            deletionRequestedAt: "",
+            deletionScheduledFor: "",
+          },
+        },
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "cancel_deletion_failed",
+      });
+      console.error("Failed to cancel user deletion: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async findDueForDeletion(before: Date, limit: number): Promise<User[]> {
+    const timer = DatabaseMetrics.track("find", "users");
+    try {
+      return await this.collection
+        .find({ deletionScheduledFor: { $lte: before } })
+        .limit(limit)
+        .toArray();
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "find_due_deletions_failed",
+      });
+      console.error("Failed to find accounts due for deletion: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // Case-insensitive prefix match on the username or email
+  async searchUsers(
+    query: string,
+    page = 1,
+    pageSize = 20,
+  ): Promise<{ users: User[]; totalCount: number }> {
+    const timer = DatabaseMetrics.track("find_paginated", "users");
+    try {
+      const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const prefix = new RegExp(`^${escaped}`, "i");
+      const filter: Filter<User> = query
+        ? { $or: [{ username: prefix }, { email: prefix }] }
+        : {};
+      const totalCount = await this.collection.countDocuments(filter);
+      const users = await this.collection
+        .find(filter, { projection: { _id: 0 } })
+        .sort({ username: 1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .toArray();
+
+      return { users, totalCount };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "search_users_failed",
+      });
+      console.error("Failed to search users: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async setEmailOtpEnabled(
+    userId: string,
+    enabled: boolean,
+  ): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId },
+        enabled
+          ? { $set: { emailOtpEnabled: true } }
+          : { $unset: { emailOtpEnabled: "" } },
+      );
+      return result.matchedCount === 1;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "set_email_otp_failed",
+      });
+      console.error("Failed to update email OTP flag: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async setDisabled(
+    userId: string,
+    disabled: boolean,
+    reason?: string,
+  ): Promise<boolean> {
+    const timer = DatabaseMetrics.track("update", "users");
+    try {
+      const result = await this.collection.updateOne(
+        { userId },
+        disabled
+          ? {
+            $set: {
+              disabled: true,
+              disabledAt: new Date(),
+              disabledReason: reason,
+            },
+          }
+          : { $unset: { disabled: "", disabledAt: "", disabledReason: "" } },
+      );
+      return result.matchedCount === 1;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "database",
+        operation: "set_disabled_failed",
+      });
+      console.error("Failed to update disabled flag: ", error);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
 }
@@ -0,0 +1,160 @@
+import {
+  AccessToken,
+  TOKEN_SCOPES,
+  TokenScope,
+} from "../models/accessToken.ts";
+import { AccessTokenRepo } from "../repositories/accessToken.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { randomToken, sha256Hex } from "../utils/crypto.ts";
+
+export const ACCESS_TOKEN_PREFIX = "tuno_pat_";
+
+const MAX_TOKENS_PER_USER = 20;
+const MAX_EXPIRY_DAYS = 365;
+const LAST_USED_RESOLUTION = 60 * 1000; // don't write lastUsedAt more than once a minute
+
+export class AccessTokenService {
+  constructor(private accessTokenRepo: AccessTokenRepo) {}
+
+  async createToken(
+    userId: string,
+    name: string,
+    scopes: TokenScope[],
+    expiresInDays?: number,
+  ): Promise<{ token: string; accessToken: AccessToken }> {
+    try {
+      if (!name || name.trim() === "") {
+        throw new Error("Token name is required");
+      }
+      if (!Array.isArray(scopes) || scopes.length === 0) {
+        throw new Error("At least one scope is required");
+      }
+      const unknown = scopes.filter((scope) => !TOKEN_SCOPES.includes(scope));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown scopes: ${unknown.join(", ")}`);
+      }
+      if (
+        expiresInDays !== undefined &&
+        (!Number.isInteger(expiresInDays) || expiresInDays < 1 ||
+          expiresInDays > MAX_EXPIRY_DAYS)
+      ) {
+        throw new Error(
+          `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`,
+        );
+      }
+
+      const existing = await this.accessTokenRepo.findActiveByUser(userId);
+      if (existing.length >= MAX_TOKENS_PER_USER) {
+        throw new Error(
+          `You can have at most ${MAX_TOKENS_PER_USER} access tokens`,
+        );
+      }
+
+      const token = `${ACCESS_TOKEN_PREFIX}${randomToken()}`;
+      const now = new Date();
+
+      const accessToken: AccessToken = {
+        tokenId: crypto.randomUUID(),
+        userId,
+        name: name.trim(),
+        tokenHash: await sha256Hex(token),
+        prefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 4),
+        scopes: [...new Set(scopes)],
+        createdAt: now,
+        ...(expiresInDays
+          ? {
+            expiresAt: new Date(
+              now.getTime() + expiresInDays * 24 * 60 * 60 * 1000,
+            ),
+          }
+          : {}),
+      };
+
+      await this.accessTokenRepo.createToken(accessToken);
+
+      return { token, accessToken };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AccessTokenService",
+        operation: "create_token",
+      });
+      console.error("Error creating access token");
+      throw error;
+    }
+  }
+
+  // Returns null for anything that isn't a live token rather than throwing,
+  // so the auth middleware can answer with a plain 401.
+  async verifyToken(token: string): Promise<AccessToken | null> {
+    try {
+      if (!token.startsWith(ACCESS_TOKEN_PREFIX)) {
+        return null;
+      }
+
+      const accessToken = await this.accessTokenRepo.findByHash(
+        await sha256Hex(token),
+      );
+      if (!accessToken) {
+        return null;
+      }
+      if (accessToken.expiresAt && accessToken.expiresAt <= new Date()) {
+        return null;
+      }
+
+      if (
+        !accessToken.lastUsedAt ||
+        Date.now() - accessToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION
+      ) {
+        await this.accessTokenRepo.touchToken(accessToken.tokenId);
+      }
+
+      return accessToken;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AccessTokenService",
+        operation: "verify_token",
+      });
+      console.error("Error verifying access token");
+      throw error;
+    }
+  }
+
+  async listTokens(userId: string): Promise<AccessToken[]> {
+    try {
+      return await this.accessTokenRepo.findActiveByUser(userId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AccessTokenService",
+        operation: "list_tokens",
+      });
+      console.error("Error listing access tokens");
+      throw error;
+    }
+  }
+
+  async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    try {
+      return await this.accessTokenRepo.revokeToken(userId, tokenId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AccessTokenService",
+        operation: "revoke_token",
+      });
+      console.error("Error revoking access token");
+      throw error;
+    }
+  }
+
+  async revokeAllTokens(userId: string): Promise<number> {
+    try {
+      return await this.accessTokenRepo.revokeAllByUser(userId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AccessTokenService",
+        operation: "revoke_all_tokens",
+      });
+      console.error("Error revoking access tokens");
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { User } from "../models/user.ts";
+import { AccountTombstone } from "../models/tombstone.ts";
+import { UserRepo } from "../repositories/user.ts";
+import { NoteRepo } from "../repositories/note.ts";
+import { TodoRepo } from "../repositories/todo.ts";
+import { SessionRepo } from "../repositories/session.ts";
+import { AccessTokenRepo } from "../repositories/accessToken.ts";
+import { TombstoneRepo } from "../repositories/tombstone.ts";
+import { SecurityEventRepo } from "../repositories/securityEvent.ts";
+import { TrustedDeviceRepo } from "../repositories/trustedDevice.ts";
+import { RedisManager } from "./redis.ts";
+import { oneTimeTokenService } from "./oneTimeToken.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { RateLimiter } from "../utils/rateLimiter.ts";
+import { sha256Hex } from "../utils/crypto.ts";
+
+const PURGE_BATCH_SIZE = 50;
+const PURGE_LOCK_TTL = 10 * 60; // seconds
+
+export class AccountDeletionService {
+  constructor(
+    private userRepo: UserRepo,
+    private noteRepo: NoteRepo,
+    private todoRepo: TodoRepo,
+    private sessionRepo: SessionRepo,
+    private accessTokenRepo: AccessTokenRepo,
+    private tombstoneRepo: TombstoneRepo,
+    private securityEventRepo: SecurityEventRepo,
+    private trustedDeviceRepo: TrustedDeviceRepo,
+  ) {}
+
+  // The user document goes last, so a purge that fails halfway is picked up
+  // again on the next run.
+  async purgeUser(user: User): Promise<AccountTombstone> {
+    try {
+      const sessions = await this.sessionRepo.findByUser(user.userId);
+      await Promise.all(
+        sessions.map(async (session) => {
+          await RedisManager.revokeTokenFamily(session.sessionId);
+          await RedisManager.dropSessionElevation(session.sessionId);
+        }),
+      );
+      await RedisManager.consumeWebAuthnChallenge(`register:${user.userId}`);
+      await oneTimeTokenService.revokeAll(user.userId);
+      await RedisManager.clearEmailOtp(user.userId);
+      await RedisManager.releaseLock(`email-otp:${user.userId}`);
+      await RedisManager.clearUserRevocation(user.userId);
+      await RedisManager.releaseUsernamesOf(user.userId);
+      await RateLimiter.clearUser(user.userId, user.username, user.email);
+
+      const purged = {
+        notes: await this.noteRepo.deleteAllByUser(user.userId),
+        todos: await this.todoRepo.deleteAllByUser(user.userId),
+        sessions: await this.sessionRepo.deleteAllByUser(user.userId),
+        accessTokens: await this.accessTokenRepo.deleteAllByUser(user.userId),
+        securityEvents: await this.securityEventRepo.deleteAllByUser(
+          user.userId,
+        ),
+        trustedDevices: await this.trustedDeviceRepo.deleteAllByUser(
+          user.userId,
+        ),
+      };
+
+      const tombstone = await this.tombstoneRepo.createTombstone({
+        tombstoneId: crypto.randomUUID(),
+        userIdHash: await sha256Hex(user.userId),
+        requestedAt: user.deletionRequestedAt,
+        purgedAt: new Date(),
+        purged,
+      });
+
+      await this.userRepo.deleteUserById(user.userId);
+
+      return tombstone;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AccountDeletionService",
+        operation: "purge_user",
+      });
+      console.error("Error purging user");
+      throw error;
+    }
+  }
+
+  // Purges accounts whose grace period is over. Only one instance runs this
+  // at a time; the others skip the round.
+  async purgeDueAccounts(now: Date = new Date()): Promise<number> {
+    if (!(await RedisManager.acquireLock("account:purge", PURGE_LOCK_TTL))) {
+      return 0;
+    }
+
+    try {
+      const due = await this.userRepo.findDueForDeletion(
+        now,
+        PURGE_BATCH_SIZE,
+      );
+
+      let purged = 0;
+      for (const user of due) {
+        try {
+          await this.purgeUser(user);
+          purged++;
+        } catch {
+          // Already counted and logged; the account stays due for next run
+        }
+      }
+
+      return purged;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AccountDeletionService",
+        operation: "purge_due_accounts",
+      });
+      console.error("Error purging due accounts");
+      throw error;
+    } finally {
+      await RedisManager.releaseLock("account:purge");
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { AdminAction, AdminAuditEntry } from "../models/adminAudit.ts";
+import { User } from "../models/user.ts";
+import { AdminAuditRepo } from "../repositories/adminAudit.ts";
+import { UserRepo } from "../repositories/user.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+
+export interface AdminActionInput {
+  adminId: string;
+  action: AdminAction;
+  targetUserId?: string;
+  reason?: string;
+  details?: Record<string, string>;
+  ipAddress: string;
+  userAgent: string;
+  requestId: string;
+}
+
+export class AdminService {
+  constructor(
+    private userRepo: UserRepo,
+    private adminAuditRepo: AdminAuditRepo,
+  ) {}
+
+  // Written before the action is carried out. Unlike AuditService.record a
+  // failed write throws, so no admin action happens without its entry.
+  async recordAction(input: AdminActionInput): Promise<void> {
+    try {
+      await this.adminAuditRepo.createEntry({
+        entryId: crypto.randomUUID(),
+        ...input,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AdminService",
+        operation: "record_action",
+      });
+      console.error(`Error recording admin action ${input.action}`);
+      throw error;
+    }
+  }
+
+  async searchUsers(
+    query: string,
+    page: number,
+    pageSize: number,
+  ): Promise<{ users: User[]; totalCount: number }> {
+    try {
+      return await this.userRepo.searchUsers(query, page, pageSize);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AdminService",
+        operation: "search_users",
+      });
+      console.error("Error searching users");
+      throw error;
+    }
+  }
+
+  async disableUser(userId: string, reason: string): Promise<boolean> {
+    try {
+      return await this.userRepo.setDisabled(userId, true, reason);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AdminService",
+        operation: "disable_user",
+      });
+      console.error("Error disabling user");
+      throw error;
+    }
+  }
+
+  async enableUser(userId: string): Promise<boolean> {
+    try {
+      return await this.userRepo.setDisabled(userId, false);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AdminService",
+        operation: "enable_user",
+      });
+      console.error("Error enabling user");
+      throw error;
+    }
+  }
+
+  // For users who lost their authenticator and recovery codes. The caller
+  // has to have checked their identity some other way first.
+  async resetTwoFactor(userId: string): Promise<void> {
+    try {
+      await this.userRepo.disableTwoFactor(userId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AdminService",
+        operation: "reset_two_factor",
+      });
+      console.error("Error resetting two factor");
+      throw error;
+    }
+  }
+
+  async listAuditEntries(
+    targetUserId: string | undefined,
+    page: number,
+    pageSize: number,
+  ): Promise<{ entries: AdminAuditEntry[]; totalCount: number }> {
+    try {
+      return await this.adminAuditRepo.getPaginatedEntries(
+        targetUserId,
+        page,
+        pageSize,
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AdminService",
+        operation: "list_audit_entries",
+      });
+      console.error("Error listing admin audit entries");
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { SecurityEvent, SecurityEventType } from "../models/securityEvent.ts";
+import { ActivityStats } from "../models/stats.ts";
+import { User } from "../models/user.ts";
+import { SecurityEventRepo } from "../repositories/securityEvent.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+
+export interface SecurityEventInput {
+  userId: string;
+  type: SecurityEventType;
+  success?: boolean;
+  ipAddress: string;
+  userAgent: string;
+  requestId: string;
+  details?: Record<string, string>;
+}
+
+export class AuditService {
+  constructor(private securityEventRepo: SecurityEventRepo) {}
+
+  // Recording is best effort: a failed write is counted and logged, but never
+  // fails the request that caused the event.
+  async record(input: SecurityEventInput): Promise<void> {
+    try {
+      await this.securityEventRepo.createEvent({
+        eventId: crypto.randomUUID(),
+        userId: input.userId,
+        type: input.type,
+        success: input.success ?? true,
+        ipAddress: input.ipAddress,
+        userAgent: input.userAgent,
+        requestId: input.requestId,
+        details: input.details,
+        createdAt: new Date(),
+      });
+    } catch {
+      ErrorCounter.add(1, {
+        type: "AuditService",
+        operation: "record_event",
+      });
+      console.error(`Error recording security event ${input.type}`);
+    }
+  }
+
+  async listEvents(
+    userId: string,
+    page: number,
+    pageSize: number,
+  ): Promise<{ events: SecurityEvent[]; totalCount: number }> {
+    try {
+      return await this.securityEventRepo.getPaginatedEvents(
+        userId,
+        page,
+        pageSize,
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AuditService",
+        operation: "list_events",
+      });
+      console.error("Error listing security events");
+      throw error;
+    }
+  }
+
+  async getActivityStats(user: User): Promise<ActivityStats> {
+    try {
+      const latest = await this.securityEventRepo.findLatest(user.userId);
+      const totalSessions = await this.securityEventRepo.countSuccessfulLogins(
+        user.userId,
+      );
+
+      return {
+        lastActive: latest?.createdAt ?? user.createdAt,
+        createdAt: user.createdAt,
+        totalSessions,
+      };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "AuditService",
+        operation: "get_activity_stats",
+      });
+      console.error("Error getting activity stats");
+      throw error;
+    }
+  }
+}
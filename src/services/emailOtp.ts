@@ -0,0 +1,86 @@
+import { User } from "../models/user.ts";
+import { RedisManager } from "./redis.ts";
+import { mailService } from "./mail.ts";
+import { loginCodeEmail } from "../utils/emails.ts";
+import { sha256Hex, timingSafeEqual } from "../utils/crypto.ts";
+
+export const EMAIL_OTP_TTL = 10 * 60; // seconds
+export const EMAIL_OTP_RESEND_INTERVAL = 60; // seconds
+
+const EMAIL_OTP_MAX_FAILURES = 5;
+
+export type EmailOtpCheck = "accepted" | "invalid" | "expired";
+
+// Only users who enrolled, and only while their email is verified
+export function canUseEmailOtp(user: User): boolean {
+  return user.emailOtpEnabled === true && user.emailVerified === true;
+}
+
+// Uniform over 000000-999999: values past the last full million are drawn again
+function generateCode(): string {
+  const limit = Math.floor(0x100000000 / 1_000_000) * 1_000_000;
+  const value = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(value);
+  } while (value[0] >= limit);
+  return (value[0] % 1_000_000).toString().padStart(6, "0");
+}
+
+async function hashCode(userId: string, code: string): Promise<string> {
+  return await sha256Hex(`${userId}:${code}`);
+}
+
+// Six digit login codes sent to the user's verified email address as a
+// second factor. Only a hash is kept, one code per user at a time, and a few
+// wrong guesses throw the code away.
+export const emailOtpService = {
+  // Returns false without sending anything when a code went out less than
+  // EMAIL_OTP_RESEND_INTERVAL ago.
+  send: async (user: User): Promise<boolean> => {
+    if (
+      !(await RedisManager.acquireLock(
+        `email-otp:${user.userId}`,
+        EMAIL_OTP_RESEND_INTERVAL,
+      ))
+    ) {
+      return false;
+    }
+
+    const code = generateCode();
+    const stored = await RedisManager.setEmailOtp(
+      user.userId,
+      await hashCode(user.userId, code),
+      EMAIL_OTP_TTL,
+    );
+    if (!stored) {
+      throw new Error("Failed to store email code");
+    }
+
+    await mailService.send(
+      loginCodeEmail(user.email, code, EMAIL_OTP_TTL / 60),
+    );
+    return true;
+  },
+
+  verify: async (userId: string, code: string): Promise<EmailOtpCheck> => {
+    const stored = await RedisManager.getEmailOtp(userId);
+    if (!stored) {
+      return "expired";
+    }
+
+    if (!timingSafeEqual(await hashCode(userId, code), stored)) {
+      const failures = await RedisManager.addEmailOtpFailure(
+        userId,
+        EMAIL_OTP_TTL,
+      );
+      if (failures >= EMAIL_OTP_MAX_FAILURES) {
+        await RedisManager.clearEmailOtp(userId);
+      }
+      return "invalid";
+    }
+
+    // Two requests racing with the right code: only one gets it back
+    const taken = await RedisManager.takeEmailOtp(userId);
+    return taken === stored ? "accepted" : "expired";
+  },
+};
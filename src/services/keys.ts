@@ -0,0 +1,242 @@
+import {
+  exportJWK,
+  generateKeyPair,
+  importJWK,
+  JWK,
+  JWSHeaderParameters,
+} from "@panva/jose";
+import { RedisManager } from "./redis.ts";
+import { keyConfig, SigningAlgorithm } from "../utils/token.ts";
+import { decryptString, encryptString } from "../utils/crypto.ts";
+import "@std/dotenv/load";
+
+interface SigningKeyRecord {
+  kid: string;
+  alg: SigningAlgorithm;
+  encryptedPrivateJwk: string; // sealed with JWT_KEYRING_SECRET, bound to kid
+  publicJwk: JWK;
+  createdAt: number; // unix seconds
+  activatesAt: number; // when it starts signing, published before that
+  retiredAt?: number; // when the next key takes over signing
+}
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  key: CryptoKey;
+}
+
+// Long enough to outlast the rotation lock holder generating a key
+const LOCK_WAIT_ATTEMPTS = 50;
+const LOCK_WAIT_INTERVAL = 100; // ms
+
+// The keyring lives in Redis so every API instance signs with the same key
+// and can verify whatever the others issued. Private keys are only stored
+// encrypted, so reading Redis alone doesn't allow forging tokens. Imported
+// keys are cached per kid.
+let keyring: SigningKeyRecord[] = [];
+let keyringLoadedAt = 0;
+const importedKeys = new Map<string, CryptoKey>();
+
+function keyringSecret(): string {
+  const secret = Deno.env.get("JWT_KEYRING_SECRET");
+  if (!secret) {
+    throw new Error("JWT_KEYRING_SECRET is not set");
+  }
+  return secret;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+async function importKey(
+  record: SigningKeyRecord,
+  use: "sign" | "verify",
+): Promise<CryptoKey> {
+  const cacheKey = `${record.kid}:${use}`;
+  const cached = importedKeys.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const jwk: JWK = use === "sign"
+    ? JSON.parse(
+      await decryptString(
+        keyringSecret(),
+        record.encryptedPrivateJwk,
+        record.kid,
+      ),
+    )
+    : record.publicJwk;
+  const key = await importJWK(jwk, record.alg) as CryptoKey;
+  importedKeys.set(cacheKey, key);
+  return key;
+}
+
+async function createKeyRecord(
+  activatesAt: number,
+): Promise<SigningKeyRecord> {
+  const { publicKey, privateKey } = await generateKeyPair(
+    keyConfig.algorithm,
+    { extractable: true },
+  );
+  const kid = crypto.randomUUID();
+
+  return {
+    kid,
+    alg: keyConfig.algorithm,
+    encryptedPrivateJwk: await encryptString(
+      keyringSecret(),
+      JSON.stringify(await exportJWK(privateKey)),
+      kid,
+    ),
+    publicJwk: {
+      ...(await exportJWK(publicKey)),
+      kid,
+      alg: keyConfig.algorithm,
+      use: "sig",
+    },
+    createdAt: now(),
+    activatesAt,
+  };
+}
+
+async function loadKeyring(force = false): Promise<SigningKeyRecord[]> {
+  if (!force && now() - keyringLoadedAt < keyConfig.cacheTtl) {
+    return keyring;
+  }
+
+  const stored = await RedisManager.getSigningKeys();
+  keyring = stored ? JSON.parse(stored) : [];
+  keyringLoadedAt = now();
+  return keyring;
+}
+
+// The newest key whose turn has come and that hasn't been taken over yet
+function activeRecord(
+  records: SigningKeyRecord[],
+): SigningKeyRecord | undefined {
+  const timestamp = now();
+  return records
+    .filter((record) =>
+      record.activatesAt <= timestamp &&
+      (!record.retiredAt || record.retiredAt > timestamp)
+    )
+    .sort((a, b) => b.activatesAt - a.activatesAt)[0];
+}
+
+// The next key is staged publishLead before the active one is due, so the
+// switch still happens at the rotation interval.
+function rotationDue(records: SigningKeyRecord[]): boolean {
+  if (records.some((record) => record.activatesAt > now())) {
+    return false;
+  }
+
+  const active = activeRecord(records);
+  return !active ||
+    active.alg !== keyConfig.algorithm ||
+    now() - active.activatesAt >=
+      keyConfig.rotationInterval - keyConfig.publishLead;
+}
+
+// Used by instances that lost the rotation lock. With an active key they
+// simply carry on; on an empty keyring they wait for the winner's first key.
+async function waitForActiveKey(): Promise<SigningKeyRecord[]> {
+  for (let attempt = 0; attempt < LOCK_WAIT_ATTEMPTS; attempt++) {
+    const records = await loadKeyring(true);
+    if (activeRecord(records)) {
+      return records;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_WAIT_INTERVAL));
+  }
+  throw new Error("No active signing key");
+}
+
+export const keyService = {
+  getSigningKey: async (): Promise<SigningKey> => {
+    let records = await loadKeyring();
+
+    if (rotationDue(records)) {
+      records = await keyService.rotate();
+    }
+
+    const active = activeRecord(records);
+    if (!active) {
+      throw new Error("No active signing key");
+    }
+
+    return {
+      kid: active.kid,
+      alg: active.alg,
+      key: await importKey(active, "sign"),
+    };
+  },
+
+  // Key resolver handed to jwtVerify. An unknown kid triggers one reload in
+  // case another instance rotated since our last read.
+  getVerificationKey: async (
+    header: JWSHeaderParameters,
+  ): Promise<CryptoKey> => {
+    if (!header.kid) {
+      throw new Error("Token has no key id");
+    }
+
+    let record = (await loadKeyring()).find((key) => key.kid === header.kid);
+    if (!record) {
+      record = (await loadKeyring(true)).find((key) => key.kid === header.kid);
+    }
+    if (!record || record.alg !== header.alg) {
+      throw new Error("Unknown signing key");
+    }
+
+    return await importKey(record, "verify");
+  },
+
+  getPublicJwks: async (): Promise<{ keys: JWK[] }> => {
+    const records = await loadKeyring();
+    return { keys: records.map((record) => record.publicJwk) };
+  },
+
+  // Publishes a new key right away and schedules the active one to retire
+  // when the new one takes over, publishLead later, so nobody gets a token
+  // signed with a key they haven't seen. The very first key signs at once.
+  // Keys whose grace period has passed are dropped. Rotation is serialized
+  // through a Redis lock; an instance that loses the race keeps the current
+  // key, or waits for one if there is none yet.
+  rotate: async (): Promise<SigningKeyRecord[]> => {
+    if (!(await RedisManager.acquireLock("jwt:keyring", 30))) {
+      return await waitForActiveKey();
+    }
+
+    try {
+      const records = await loadKeyring(true);
+      const timestamp = now();
+      const activatesAt = activeRecord(records)
+        ? timestamp + keyConfig.publishLead
+        : timestamp;
+
+      const next = records
+        .map((record) =>
+          record.retiredAt ? record : { ...record, retiredAt: activatesAt }
+        )
+        .filter((record) =>
+          timestamp - record.retiredAt! < keyConfig.verificationGrace
+        );
+      next.push(await createKeyRecord(activatesAt));
+
+      if (!(await RedisManager.setSigningKeys(JSON.stringify(next)))) {
+        throw new Error("Failed to store signing keys");
+      }
+
+      keyring = next;
+      keyringLoadedAt = timestamp;
+      return keyring;
+    } catch (error) {
+      console.error("Error rotating signing keys:", error);
+      throw error;
+    } finally {
+      await RedisManager.releaseLock("jwt:keyring");
+    }
+  },
+};
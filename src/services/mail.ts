@@ -0,0 +1,97 @@
+import "@std/dotenv/load";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Hands messages to an HTTP mail relay as JSON, with the key as a bearer
+// token when one is configured.
+export class HttpTransport implements MailTransport {
+  constructor(private url: string, private apiKey?: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`Mail relay responded with ${response.status}`);
+    }
+  }
+}
+
+// Stand-in transport for development and tests. Messages are kept in memory
+// and, when a directory is given, also written there as one JSON file each.
+// They hold live reset and verification links, so this never runs in
+// production.
+export class OutboxTransport implements MailTransport {
+  static readonly LIMIT = 100;
+  readonly messages: MailMessage[] = [];
+
+  constructor(private dir?: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+    if (this.messages.length > OutboxTransport.LIMIT) {
+      this.messages.shift();
+    }
+
+    if (this.dir) {
+      await Deno.mkdir(this.dir, { recursive: true });
+      await Deno.writeTextFile(
+        `${this.dir}/${Date.now()}-${crypto.randomUUID()}.json`,
+        JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+      );
+    }
+  }
+
+  lastMessageTo(address: string): MailMessage | undefined {
+    return this.messages.findLast((message) => message.to === address);
+  }
+}
+
+// Throws in production when no relay is configured, so the server refuses to
+// start instead of quietly keeping mail in memory.
+export function createTransport(): MailTransport {
+  const url = Deno.env.get("MAIL_RELAY_URL");
+  if (url) {
+    return new HttpTransport(url, Deno.env.get("MAIL_RELAY_KEY"));
+  }
+
+  if (Deno.env.get("ENV") === "PROD") {
+    throw new Error("MAIL_RELAY_URL must be set in production");
+  }
+
+  return new OutboxTransport(Deno.env.get("MAIL_OUTBOX_DIR"));
+}
+
+let transport: MailTransport = createTransport();
+
+export const mailService = {
+  send: async (message: MailMessage): Promise<void> => {
+    try {
+      await transport.send(message);
+    } catch (error) {
+      console.error("Error sending mail:", error);
+      throw new Error("Failed to send mail");
+    }
+  },
+
+  setTransport: (next: MailTransport) => {
+    transport = next;
+  },
+};
@@ -0,0 +1,323 @@
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from "@panva/jose";
+import { User } from "../models/user.ts";
+import { UserRepo } from "../repositories/user.ts";
+import { RedisManager } from "./redis.ts";
+import { hashPassword } from "./password.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { pkceChallenge, randomToken } from "../utils/crypto.ts";
+import { oidcConfig, OidcProviderConfig } from "../utils/oidc.ts";
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcState {
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  linkUserId?: string; // set when a signed-in user links this provider
+}
+
+interface IdTokenClaims extends JWTPayload {
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+}
+
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  state: string;
+}
+
+export interface OidcResult {
+  user: User;
+  linked: boolean; // the identity was linked to a signed-in account
+}
+
+// Raised for anything the user or the provider got wrong, as opposed to
+// failures on our side.
+export class OidcError extends Error {}
+
+const discoveryCache = new Map<
+  string,
+  {
+    metadata: ProviderMetadata;
+    jwks: ReturnType<typeof createRemoteJWKSet>;
+    fetchedAt: number;
+  }
+>();
+
+async function discover(provider: OidcProviderConfig) {
+  const cached = discoveryCache.get(provider.issuer);
+  if (
+    cached && Date.now() - cached.fetchedAt < oidcConfig.discoveryTtl * 1000
+  ) {
+    return cached;
+  }
+
+  const response = await fetch(
+    `${provider.issuer}/.well-known/openid-configuration`,
+  );
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed for ${provider.name}`);
+  }
+
+  const metadata = (await response.json()) as ProviderMetadata;
+  if (metadata.issuer.replace(/\/$/, "") !== provider.issuer) {
+    throw new Error(`OIDC issuer mismatch for ${provider.name}`);
+  }
+
+  const entry = {
+    metadata,
+    jwks: createRemoteJWKSet(new URL(metadata.jwks_uri)),
+    fetchedAt: Date.now(),
+  };
+  discoveryCache.set(provider.issuer, entry);
+  return entry;
+}
+
+export class OidcService {
+  constructor(private userRepo: UserRepo) {}
+
+  // The caller has to bind the returned state to the browser, otherwise the
+  // callback could be completed in someone else's session.
+  async buildAuthorizationUrl(
+    provider: OidcProviderConfig,
+    linkUserId?: string,
+  ): Promise<OidcAuthorization> {
+    try {
+      const { metadata } = await discover(provider);
+
+      const state = randomToken();
+      const record: OidcState = {
+        provider: provider.name,
+        nonce: randomToken(),
+        codeVerifier: randomToken(48),
+        linkUserId,
+      };
+
+      const stored = await RedisManager.setOidcState(
+        state,
+        JSON.stringify(record),
+        oidcConfig.stateTtl,
+      );
+      if (!stored) {
+        throw new Error("Failed to store OIDC state");
+      }
+
+      const url = new URL(metadata.authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: provider.clientId,
+        redirect_uri: provider.redirectUri,
+        scope: provider.scopes,
+        state,
+        nonce: record.nonce,
+        code_challenge: await pkceChallenge(record.codeVerifier),
+        code_challenge_method: "S256",
+      }).toString();
+
+      return { authorizationUrl: url.toString(), state };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "OidcService",
+        operation: "build_authorization_url",
+      });
+      console.error("Error building OIDC authorization url");
+      throw error;
+    }
+  }
+
+  async handleCallback(
+    provider: OidcProviderConfig,
+    code: string,
+    state: string,
+  ): Promise<OidcResult> {
+    try {
+      const storedState = await RedisManager.consumeOidcState(state);
+      if (!storedState) {
+        throw new OidcError("Invalid or expired sign-in state");
+      }
+
+      const record = JSON.parse(storedState) as OidcState;
+      if (record.provider !== provider.name) {
+        throw new OidcError("Invalid or expired sign-in state");
+      }
+
+      const { metadata, jwks } = await discover(provider);
+
+      const tokenResponse = await fetch(metadata.token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: provider.redirectUri,
+          client_id: provider.clientId,
+          code_verifier: record.codeVerifier,
+          ...(provider.clientSecret
+            ? { client_secret: provider.clientSecret }
+            : {}),
+        }),
+      });
+      if (!tokenResponse.ok) {
+        throw new OidcError("Authorization code was rejected by the provider");
+      }
+
+      const { id_token: idToken } = await tokenResponse.json();
+      if (typeof idToken !== "string") {
+        throw new OidcError("Provider did not return an ID token");
+      }
+
+      let claims: IdTokenClaims;
+      try {
+        ({ payload: claims } = await jwtVerify<IdTokenClaims>(idToken, jwks, {
+          issuer: metadata.issuer,
+          audience: provider.clientId,
+        }));
+      } catch {
+        throw new OidcError("Invalid ID token");
+      }
+
+      if (claims.nonce !== record.nonce || !claims.sub) {
+        throw new OidcError("Invalid ID token");
+      }
+
+      if (record.linkUserId) {
+        return {
+          user: await this.linkToUser(record.linkUserId, provider.name, claims),
+          linked: true,
+        };
+      }
+
+      return {
+        user: await this.findOrCreateUser(provider.name, claims),
+        linked: false,
+      };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "OidcService",
+        operation: "handle_callback",
+      });
+      console.error("Error handling OIDC callback");
+      throw error;
+    }
+  }
+
+  // Existing links win. Otherwise an account is only linked by email when both
+  // sides have verified that address: an unverified provider email could take
+  // over someone else's account, and an unverified local one may have been
+  // registered by an attacker ahead of the real owner.
+  private async findOrCreateUser(
+    provider: string,
+    claims: IdTokenClaims,
+  ): Promise<User> {
+    const subject = claims.sub!;
+
+    const linked = await this.userRepo.findByIdentity(provider, subject);
+    if (linked) {
+      return linked;
+    }
+
+    const identity = {
+      provider,
+      subject,
+      email: claims.email,
+      linkedAt: new Date(),
+    };
+
+    if (claims.email) {
+      const existing = await this.userRepo.findByEmail(claims.email);
+      if (existing) {
+        if (claims.email_verified !== true || !existing.emailVerified) {
+          throw new OidcError(
+            "An account with this email already exists. Sign in and link it instead",
+          );
+        }
+
+        await this.userRepo.linkIdentity(existing.userId, identity);
+        return existing;
+      }
+    }
+
+    if (!claims.email) {
+      throw new OidcError("Provider did not share an email address");
+    }
+
+    const newUser: User = {
+      userId: crypto.randomUUID(),
+      username: await this.availableUsername(
+        claims.preferred_username ?? claims.email.split("@")[0],
+      ),
+      // Nobody knows this password; the user can set one through a reset
+      passwordHash: await hashPassword(randomToken()),
+      passwordless: true,
+      createdAt: new Date(),
+      email: claims.email,
+      emailVerified: claims.email_verified === true,
+      twoFactorEnabled: false,
+      identities: [identity],
+    };
+
+    return await this.userRepo.createUser(newUser);
+  }
+
+  private async linkToUser(
+    userId: string,
+    provider: string,
+    claims: IdTokenClaims,
+  ): Promise<User> {
+    const subject = claims.sub!;
+
+    const linked = await this.userRepo.findByIdentity(provider, subject);
+    if (linked) {
+      if (linked.userId !== userId) {
+        throw new OidcError(
+          "This sign-in is already linked to another account",
+        );
+      }
+      return linked;
+    }
+
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new OidcError("Account not found");
+    }
+
+    await this.userRepo.linkIdentity(userId, {
+      provider,
+      subject,
+      email: claims.email,
+      linkedAt: new Date(),
+    });
+    return user;
+  }
+
+  private async availableUsername(candidate: string): Promise<string> {
+    const base = candidate.replace(/[^a-zA-Z0-9_]/g, "").slice(0, 20) ||
+      "user";
+
+    if (!(await this.isUsernameTaken(base))) {
+      return base;
+    }
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const suffix = Math.floor(1000 + Math.random() * 9000);
+      const username = `${base}${suffix}`;
+      if (!(await this.isUsernameTaken(username))) {
+        return username;
+      }
+    }
+
+    return `${base}${crypto.randomUUID().slice(0, 8)}`;
+  }
+
+  private async isUsernameTaken(username: string): Promise<boolean> {
+    return await this.userRepo.findByUsername(username) !== null ||
+      await RedisManager.getUsernameReservation(username) !== null;
+  }
+}
@@ -0,0 +1,99 @@
+import { RedisManager } from "./redis.ts";
+import { randomToken, sha256Hex } from "../utils/crypto.ts";
+
+export const ONE_TIME_TOKEN_PURPOSES = [
+  "password-reset",
+  "email-verify",
+  "email-change",
+  "email-revert",
+] as const;
+
+export type OneTimeTokenPurpose = typeof ONE_TIME_TOKEN_PURPOSES[number];
+
+interface OneTimeTokenRecord<T> {
+  subject: string;
+  data: T;
+}
+
+// Single-use, time-limited tokens for emailed links. Only a SHA-256 of the
+// token is stored, and issuing a new token for the same subject and purpose
+// invalidates the previous one.
+export const oneTimeTokenService = {
+  issue: async <T>(
+    purpose: OneTimeTokenPurpose,
+    subject: string,
+    data: T,
+    ttlSeconds: number,
+  ): Promise<string> => {
+    const token = randomToken();
+    const tokenHash = await sha256Hex(token);
+    const record: OneTimeTokenRecord<T> = { subject, data };
+
+    const stored = await RedisManager.setOneTimeToken(
+      purpose,
+      tokenHash,
+      JSON.stringify(record),
+      ttlSeconds,
+    );
+    if (!stored) {
+      throw new Error("Failed to store one-time token");
+    }
+
+    const previousHash = await RedisManager.swapOneTimeTokenSubject(
+      purpose,
+      subject,
+      tokenHash,
+      ttlSeconds,
+    );
+    if (previousHash && previousHash !== tokenHash) {
+      await RedisManager.consumeOneTimeToken(purpose, previousHash);
+    }
+
+    return token;
+  },
+
+  // Reads a token without redeeming it, for checks that must pass before the
+  // link is used up. Only consume() proves the token was still unused.
+  peek: async <T>(
+    purpose: OneTimeTokenPurpose,
+    token: string,
+  ): Promise<OneTimeTokenRecord<T> | null> => {
+    if (!token) {
+      return null;
+    }
+
+    const stored = await RedisManager.getOneTimeToken(
+      purpose,
+      await sha256Hex(token),
+    );
+    return stored ? JSON.parse(stored) as OneTimeTokenRecord<T> : null;
+  },
+
+  consume: async <T>(
+    purpose: OneTimeTokenPurpose,
+    token: string,
+  ): Promise<OneTimeTokenRecord<T> | null> => {
+    if (!token) {
+      return null;
+    }
+
+    const stored = await RedisManager.consumeOneTimeToken(
+      purpose,
+      await sha256Hex(token),
+    );
+    return stored ? JSON.parse(stored) as OneTimeTokenRecord<T> : null;
+  },
+
+  // Invalidates the outstanding link of every purpose for the subject
+  revokeAll: async (subject: string): Promise<void> => {
+    for (const purpose of ONE_TIME_TOKEN_PURPOSES) {
+      const tokenHash = await RedisManager.takeOneTimeTokenSubject(
+        purpose,
+        subject,
+      );
+      if (tokenHash) {
+        await RedisManager.consumeOneTimeToken(purpose, tokenHash);
+      }
+    }
+  },
+};
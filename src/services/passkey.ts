@@ -0,0 +1,264 @@
+import {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import { base64url } from "@panva/jose";
+import { Passkey, User } from "../models/user.ts";
+import { UserRepo } from "../repositories/user.ts";
+import { RedisManager } from "./redis.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { webauthnConfig } from "../utils/webauthn.ts";
+
+const MAX_PASSKEYS = 10;
+
+export class PasskeyService {
+  constructor(private userRepo: UserRepo) {}
+
+  async startRegistration(
+    userId: string,
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    try {
+      const user = await this.userRepo.findById(userId);
+      if (!user) {
+        throw new Error("User not found");
+      }
+      if ((user.passkeys?.length ?? 0) >= MAX_PASSKEYS) {
+        throw new Error(`You can register at most ${MAX_PASSKEYS} passkeys`);
+      }
+
+      const options = await generateRegistrationOptions({
+        rpName: webauthnConfig.rpName,
+        rpID: webauthnConfig.rpID,
+        userID: new TextEncoder().encode(user.userId),
+        userName: user.username,
+        attestationType: "none",
+        excludeCredentials: (user.passkeys ?? []).map((passkey) => ({
+          id: passkey.credentialId,
+          transports: passkey.transports as AuthenticatorTransportFuture[],
+        })),
+        authenticatorSelection: {
+          residentKey: "preferred",
+          userVerification: "required",
+        },
+      });
+
+      await RedisManager.setWebAuthnChallenge(
+        `register:${user.userId}`,
+        options.challenge,
+        webauthnConfig.challengeTtl,
+      );
+
+      return options;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "PasskeyService",
+        operation: "start_registration",
+      });
+      console.error("Error starting passkey registration");
+      throw error;
+    }
+  }
+
+  async finishRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name?: string,
+  ): Promise<Passkey> {
+    try {
+      const expectedChallenge = await RedisManager.consumeWebAuthnChallenge(
+        `register:${userId}`,
+      );
+      if (!expectedChallenge) {
+        throw new Error("Registration challenge expired");
+      }
+
+      const verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: webauthnConfig.origin,
+        expectedRPID: webauthnConfig.rpID,
+      });
+      if (!verification.verified || !verification.registrationInfo) {
+        throw new Error("Passkey could not be verified");
+      }
+
+      const { credential } = verification.registrationInfo;
+      if (await this.userRepo.findByPasskeyId(credential.id)) {
+        throw new Error("Passkey is already registered");
+      }
+
+      const passkey: Passkey = {
+        credentialId: credential.id,
+        publicKey: base64url.encode(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports,
+        name: name?.trim() || "Passkey",
+        createdAt: new Date(),
+      };
+
+      await this.userRepo.addPasskey(userId, passkey);
+
+      return passkey;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "PasskeyService",
+        operation: "finish_registration",
+      });
+      console.error("Error finishing passkey registration");
+      throw error;
+    }
+  }
+
+  // Without a username the browser offers any discoverable passkey it has
+  // for this site.
+  async startAuthentication(
+    username?: string,
+  ): Promise<
+    { challengeId: string; options: PublicKeyCredentialRequestOptionsJSON }
+  > {
+    try {
+      const user = username
+        ? await this.userRepo.findByUsername(username)
+        : null;
+
+      const options = await generateAuthenticationOptions({
+        rpID: webauthnConfig.rpID,
+        userVerification: "required",
+        allowCredentials: (user?.passkeys ?? []).map((passkey) => ({
+          id: passkey.credentialId,
+          transports: passkey.transports as AuthenticatorTransportFuture[],
+        })),
+      });
+
+      const challengeId = crypto.randomUUID();
+      await RedisManager.setWebAuthnChallenge(
+        `login:${challengeId}`,
+        options.challenge,
+        webauthnConfig.challengeTtl,
+      );
+
+      return { challengeId, options };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "PasskeyService",
+        operation: "start_authentication",
+      });
+      console.error("Error starting passkey authentication");
+      throw error;
+    }
+  }
+
+  async finishAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+  ): Promise<User> {
+    try {
+      const expectedChallenge = await RedisManager.consumeWebAuthnChallenge(
+        `login:${challengeId}`,
+      );
+      if (!expectedChallenge) {
+        throw new Error("Authentication challenge expired");
+      }
+
+      const user = await this.userRepo.findByPasskeyId(response.id);
+      const passkey = user?.passkeys?.find((key) =>
+        key.credentialId === response.id
+      );
+      if (!user || !passkey) {
+        throw new Error("Unknown passkey");
+      }
+
+      const verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: webauthnConfig.origin,
+        expectedRPID: webauthnConfig.rpID,
+        credential: {
+          id: passkey.credentialId,
+          publicKey: new Uint8Array(base64url.decode(passkey.publicKey)),
+          counter: passkey.counter,
+          transports: passkey.transports as AuthenticatorTransportFuture[],
+        },
+      });
+      if (!verification.verified) {
+        throw new Error("Passkey could not be verified");
+      }
+
+      await this.userRepo.updatePasskeyCounter(
+        user.userId,
+        passkey.credentialId,
+        verification.authenticationInfo.newCounter,
+      );
+
+      return user;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "PasskeyService",
+        operation: "finish_authentication",
+      });
+      console.error("Error finishing passkey authentication");
+      throw error;
+    }
+  }
+
+  async listPasskeys(userId: string): Promise<Passkey[]> {
+    try {
+      const user = await this.userRepo.findById(userId);
+      if (!user) {
+        throw new Error("User not found");
+      }
+      return user.passkeys ?? [];
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "PasskeyService",
+        operation: "list_passkeys",
+      });
+      console.error("Error listing passkeys");
+      throw error;
+    }
+  }
+
+  async renamePasskey(
+    userId: string,
+    credentialId: string,
+    name: string,
+  ): Promise<boolean> {
+    try {
+      if (!name || name.trim() === "") {
+        throw new Error("Passkey name is required");
+      }
+      return (await this.userRepo.renamePasskey(
+        userId,
+        credentialId,
+        name.trim(),
+      )) > 0;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "PasskeyService",
+        operation: "rename_passkey",
+      });
+      console.error("Error renaming passkey");
+      throw error;
+    }
+  }
+
+  async deletePasskey(userId: string, credentialId: string): Promise<boolean> {
+    try {
+      return (await this.userRepo.removePasskey(userId, credentialId)) > 0;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "PasskeyService",
+        operation: "delete_passkey",
+      });
+      console.error("Error deleting passkey");
+      throw error;
+    }
+  }
+}
@@ -1,26 +1,122 @@
 import * as argon2 from "@felix/argon2";
-import { validatePassword } from "../utils/validators.ts";
+import {
+  MIN_PASSWORD_SCORE,
+  PasswordStrength,
+  scorePassword,
+} from "../utils/passwordStrength.ts";
+import { isBreachedPassword } from "../utils/breachedPasswords.ts";
+import "@std/dotenv/load";
 
+// Raising any of these only affects new hashes; older ones are upgraded the
+// next time their owner logs in.
 const ARGON2_CONFIG = {
-  memory: 64 * 1024,
-  iterations: 3,
-  keyLength: 32,
+  memory: parseInt(Deno.env.get("ARGON2_MEMORY_KIB") ?? `${64 * 1024}`),
+  iterations: parseInt(Deno.env.get("ARGON2_ITERATIONS") ?? "3"),
+  keyLength: parseInt(Deno.env.get("ARGON2_HASH_LENGTH") ?? "32"),
 } as const;
 
-export async function hashPassword(password: string): Promise<string> {
-  if (!validatePassword(password)) {
-    throw new Error(
-      "Invalid password: must be at least 8 characters long, atleast 2 numbers, and atleast 2 special characters",
+// PASSWORD_PEPPERS is a comma separated list of "id:secret" pairs. The first
+// one peppers new hashes; the others only verify hashes made with them until
+// those are rehashed, so a pepper is rotated by putting a new one in front.
+const PEPPERS = new Map(
+  (Deno.env.get("PASSWORD_PEPPERS") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator < 1) {
+        throw new Error("PASSWORD_PEPPERS entries must look like id:secret");
+      }
+      return [
+        entry.slice(0, separator),
+        new TextEncoder().encode(entry.slice(separator + 1)),
+      ] as const;
+    }),
+);
+const CURRENT_PEPPER_ID: string | undefined = PEPPERS.keys().next().value;
+
+// Peppered hashes carry the id of their pepper in front of the argon2 string
+const PEPPER_PREFIX = "$pepper$";
+
+export interface PasswordVerification {
+  valid: boolean;
+  needsRehash: boolean; // made with an older argon2 config or pepper
+}
+
+export interface PasswordFeedback extends PasswordStrength {
+  minimumScore: number;
+  breached: boolean;
+}
+
+export class PasswordPolicyError extends Error {
+  feedback: PasswordFeedback;
+
+  constructor(feedback: PasswordFeedback) {
+    super(
+      feedback.breached
+        ? "Password has appeared in a data breach"
+        : "Password is too weak",
     );
+    this.feedback = feedback;
   }
+}
+
+// userInputs are the account's username and email, which make a password
+// easier to guess when they appear in it.
+export async function checkPasswordPolicy(
+  password: string,
+  userInputs: string[] = [],
+): Promise<PasswordFeedback> {
+  const strength = scorePassword(password, userInputs);
+  const breached = strength.score >= MIN_PASSWORD_SCORE &&
+    await isBreachedPassword(password);
+
+  const feedback: PasswordFeedback = {
+    ...strength,
+    minimumScore: MIN_PASSWORD_SCORE,
+    breached,
+  };
+  if (breached) {
+    feedback.warnings.unshift("Appears in a list of breached passwords");
+    feedback.suggestions.unshift("Pick a password you haven't used elsewhere");
+  }
+
+  if (strength.score < MIN_PASSWORD_SCORE || breached) {
+    throw new PasswordPolicyError(feedback);
+  }
+  return feedback;
+}
+
+export async function hashPassword(
+  password: string,
+  userInputs: string[] = [],
+): Promise<string> {
+  await checkPasswordPolicy(password, userInputs);
 
+  return await argon2Hash(password);
+}
+
+// Hashes without the strength check, for upgrading a password that was
+// already accepted when it was set.
+export async function rehashPassword(password: string): Promise<string> {
+  return await argon2Hash(password);
+}
+
+async function argon2Hash(password: string): Promise<string> {
   try {
+    const secret = CURRENT_PEPPER_ID
+      ? PEPPERS.get(CURRENT_PEPPER_ID)
+      : undefined;
     const hash = await argon2.hash(password, {
       memoryCost: ARGON2_CONFIG.memory,
       timeCost: ARGON2_CONFIG.iterations,
       hashLength: ARGON2_CONFIG.keyLength,
+      secret,
     });
-    return hash;
+    return CURRENT_PEPPER_ID
+      ? `${PEPPER_PREFIX}${CURRENT_PEPPER_ID}${hash}`
+      : hash;
   } catch (error: unknown) {
     throw new Error(
       `Error hashing password: ${
@@ -30,12 +126,51 @@ export async function hashPassword(password: string): Promise<string> {
   }
 }
 
+function splitPepper(storedHash: string): { pepperId?: string; hash: string } {
+  if (!storedHash.startsWith(PEPPER_PREFIX)) {
+    return { hash: storedHash };
+  }
+
+  const rest = storedHash.slice(PEPPER_PREFIX.length);
+  const end = rest.indexOf("$");
+  return { pepperId: rest.slice(0, end), hash: rest.slice(end) };
+}
+
+// Reads m, t and the output length back out of "$argon2id$v=19$m=..,t=..,p=..$salt$hash"
+function isCurrentConfig(hash: string): boolean {
+  const [, , , params, , digest] = hash.split("$");
+  if (!params || !digest) {
+    return false;
+  }
+
+  const values = Object.fromEntries(
+    params.split(",").map((param) => param.split("=")),
+  );
+  const digestLength = Math.floor(digest.replace(/=+$/, "").length * 3 / 4);
+
+  return parseInt(values["m"]) === ARGON2_CONFIG.memory &&
+    parseInt(values["t"]) === ARGON2_CONFIG.iterations &&
+    digestLength === ARGON2_CONFIG.keyLength;
+}
+
 export async function verifyPassword(
   storedHash: string,
   providedPassword: string,
-): Promise<boolean> {
+): Promise<PasswordVerification> {
+  const { pepperId, hash } = splitPepper(storedHash);
+  const secret = pepperId ? PEPPERS.get(pepperId) : undefined;
+  if (pepperId && !secret) {
+    console.error(`Password hash uses unknown pepper ${pepperId}`);
+    return { valid: false, needsRehash: false };
+  }
+
   try {
-    return await argon2.verify(storedHash, providedPassword);
+    const valid = await argon2.verify(hash, providedPassword, secret);
+    return {
+      valid,
+      needsRehash: valid &&
+        (pepperId !== CURRENT_PEPPER_ID || !isCurrentConfig(hash)),
+    };
   } catch (error) {
     throw new Error(
       `Error hashing password: ${error})
@@ -8,6 +8,55 @@ export interface RateLimitInfo {
   blocked: boolean;
 }
 
+// The rate limit algorithms run as scripts so that reading and updating a
+// counter can't interleave with another instance doing the same.
+const FIXED_WINDOW_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+if count == 1 then
+  redis.call("EXPIRE", KEYS[1], ARGV[1])
+end
+return {count, redis.call("TTL", KEYS[1])}
+`;
+
+// A log of request times (ms) in a sorted set; only requests that were let
+// through are logged.
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - window)
+local count = redis.call("ZCARD", KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call("ZADD", KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call("PEXPIRE", KEYS[1], window)
+local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+return {allowed, count, oldest[2] or tostring(now)}
+`;
+
+// Tokens are refilled lazily from the time of the last request. Fractional
+// token counts are returned as strings, Lua numbers would be truncated.
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "ts")
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(now - ts, 0) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "ts", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.max(math.ceil((capacity - tokens) / rate), 1))
+return {allowed, tostring(tokens)}
+`;
+
 const redisPort = await Deno.connect({ port: 6379 });
 const client = new RedisClient(redisPort);
 
@@ -28,13 +77,15 @@ export class RedisManager {
     }
   }
 
+  // False means the key was already gone. A failed command throws, so a
+  // revocation can't be mistaken for one that happened.
   public static async del(key: string): Promise<boolean> {
     try {
       const reply = await this.client.sendCommand(["DEL", key]);
       return reply === 1;
     } catch (error) {
       console.error(`Redis DEL failed for key ${key}:`, error);
-      return false;
+      throw error;
     }
   }
 
@@ -63,10 +114,496 @@ export class RedisManager {
       return reply === "OK";
     } catch (error) {
       console.error(`Redis SETEX failed for key ${key}: `, error);
+      throw error;
+    }
+  }
+
+  public static async getTokenFamily(familyId: string): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GET",
+        `refresh:family:${familyId}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error(`Redis GET failed for token family ${familyId}:`, error);
+      return null;
+    }
+  }
+
+  public static async setTokenFamily(
+    familyId: string,
+    jti: string,
+    seconds: number,
+  ): Promise<boolean> {
+    try {
+      const reply = await this.client.sendCommand([
+        "SETEX",
+        `refresh:family:${familyId}`,
+        seconds.toString(),
+        jti,
+      ]);
+      return reply === "OK";
+    } catch (error) {
+      console.error(`Redis SETEX failed for token family ${familyId}:`, error);
+      return false;
+    }
+  }
+
+  // Swaps the family's current refresh jti for the next one, but only if the
+  // presented jti is still the current one. Done in a script so two
+  // concurrent refreshes can't both win.
+  public static async rotateTokenFamily(
+    familyId: string,
+    presentedJti: string,
+    nextJti: string,
+    seconds: number,
+  ): Promise<"rotated" | "reused" | "missing"> {
+    const script = `
+      local current = redis.call("GET", KEYS[1])
+      if not current then
+        return "missing"
+      end
+      if current ~= ARGV[1] then
+        return "reused"
+      end
+      redis.call("SETEX", KEYS[1], ARGV[3], ARGV[2])
+      return "rotated"
+    `;
+    try {
+      const reply = await this.client.sendCommand([
+        "EVAL",
+        script,
+        "1",
+        `refresh:family:${familyId}`,
+        presentedJti,
+        nextJti,
+        seconds.toString(),
+      ]);
+      return reply as "rotated" | "reused" | "missing";
+    } catch (error) {
+      console.error(`Redis EVAL failed for token family ${familyId}:`, error);
+      throw error;
+    }
+  }
+
+  public static async revokeTokenFamily(familyId: string): Promise<boolean> {
+    return await this.del(`refresh:family:${familyId}`);
+  }
+
+  public static async revokeJti(
+    jti: string,
+    seconds: number,
+  ): Promise<boolean> {
+    return await this.setex(`revoked:jti:${jti}`, seconds, "1");
+  }
+
+  public static async revokeUserTokensBefore(
+    userId: string,
+    issuedBefore: number,
+    seconds: number,
+  ): Promise<boolean> {
+    return await this.setex(
+      `revoked:user:${userId}`,
+      seconds,
+      issuedBefore.toString(),
+    );
+  }
+
+  public static async clearUserRevocation(userId: string): Promise<boolean> {
+    return await this.del(`revoked:user:${userId}`);
+  }
+
+  // Both revocation records are read in a single MGET so every
+  // authenticated request costs one round trip and no key scans.
+  public static async isRevoked(
+    jti: string,
+    userId: string,
+    issuedAt: number,
+  ): Promise<boolean> {
+    try {
+      const reply = await this.client.sendCommand([
+        "MGET",
+        `revoked:jti:${jti}`,
+        `revoked:user:${userId}`,
+      ]);
+      const [jtiRevoked, revokedBefore] = Array.isArray(reply)
+        ? reply as (string | null)[]
+        : [null, null];
+
+      if (jtiRevoked) {
+        return true;
+      }
+      return revokedBefore !== null && issuedAt <= parseInt(revokedBefore);
+    } catch (error) {
+      console.error(`Redis MGET failed for revocation of ${jti}:`, error);
+      throw error;
+    }
+  }
+
+  // A step-up marks its session as elevated for a few minutes
+  public static async elevateSession(
+    sessionId: string,
+    seconds: number,
+  ): Promise<boolean> {
+    return await this.setex(`session:elevated:${sessionId}`, seconds, "1");
+  }
+
+  public static async isSessionElevated(sessionId: string): Promise<boolean> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GET",
+        `session:elevated:${sessionId}`,
+      ]);
+      return reply !== null;
+    } catch (error) {
+      console.error(`Redis GET failed for elevation of ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  public static async dropSessionElevation(
+    sessionId: string,
+  ): Promise<boolean> {
+    return await this.del(`session:elevated:${sessionId}`);
+  }
+
+  // True only for the first call in each window, so callers can throttle
+  // writes that would otherwise happen on every request
+  public static async markSessionSeen(
+    sessionId: string,
+    seconds: number,
+  ): Promise<boolean> {
+    try {
+      const reply = await this.client.sendCommand([
+        "SET",
+        `session:seen:${sessionId}`,
+        "1",
+        "NX",
+        "EX",
+        seconds.toString(),
+      ]);
+      return reply === "OK";
+    } catch (error) {
+      console.error(`Redis SET NX failed for session ${sessionId}:`, error);
+      return false;
+    }
+  }
+
+  // Returns the failure count including this one. The counter lives only as
+  // long as the temp token it belongs to.
+  public static async addTempTokenFailure(
+    jti: string,
+    seconds: number,
+  ): Promise<number> {
+    try {
+      const reply = await this.client.sendCommand([
+        "INCR",
+        `temp:failures:${jti}`,
+      ]);
+      if (reply === 1) {
+        await this.client.sendCommand([
+          "EXPIRE",
+          `temp:failures:${jti}`,
+          seconds.toString(),
+        ]);
+      }
+      return reply as number;
+    } catch (error) {
+      console.error(`Redis INCR failed for temp token ${jti}:`, error);
+      throw error;
+    }
+  }
+
+  // Storing a new email code also forgets the failures made against the
+  // previous one.
+  public static async setEmailOtp(
+    userId: string,
+    codeHash: string,
+    seconds: number,
+  ): Promise<boolean> {
+    await this.del(`emailotp:failures:${userId}`);
+    return await this.setex(`emailotp:${userId}`, seconds, codeHash);
+  }
+
+  public static async getEmailOtp(userId: string): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GET",
+        `emailotp:${userId}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error(`Redis GET failed for email code of ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  public static async takeEmailOtp(userId: string): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GETDEL",
+        `emailotp:${userId}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error(`Redis GETDEL failed for email code of ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  public static async addEmailOtpFailure(
+    userId: string,
+    seconds: number,
+  ): Promise<number> {
+    try {
+      const reply = await this.client.sendCommand([
+        "INCR",
+        `emailotp:failures:${userId}`,
+      ]);
+      if (reply === 1) {
+        await this.client.sendCommand([
+          "EXPIRE",
+          `emailotp:failures:${userId}`,
+          seconds.toString(),
+        ]);
+      }
+      return reply as number;
+    } catch (error) {
+      console.error(`Redis INCR failed for email code of ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  public static async clearEmailOtp(userId: string): Promise<void> {
+    await this.del(`emailotp:${userId}`);
+    await this.del(`emailotp:failures:${userId}`);
+  }
+
+  public static async getSigningKeys(): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand(["GET", "jwt:keyring"]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error("Redis GET failed for signing keys:", error);
+      throw error;
+    }
+  }
+
+  public static async setSigningKeys(keyring: string): Promise<boolean> {
+    try {
+      const reply = await this.client.sendCommand([
+        "SET",
+        "jwt:keyring",
+        keyring,
+      ]);
+      return reply === "OK";
+    } catch (error) {
+      console.error("Redis SET failed for signing keys:", error);
       return false;
     }
   }
 
+  public static async acquireLock(
+    name: string,
+    seconds: number,
+  ): Promise<boolean> {
+    try {
+      const reply = await this.client.sendCommand([
+        "SET",
+        `lock:${name}`,
+        "1",
+        "NX",
+        "EX",
+        seconds.toString(),
+      ]);
+      return reply === "OK";
+    } catch (error) {
+      console.error(`Redis SET NX failed for lock ${name}:`, error);
+      return false;
+    }
+  }
+
+  public static async releaseLock(name: string): Promise<boolean> {
+    return await this.del(`lock:${name}`);
+  }
+
+  public static async setOneTimeToken(
+    purpose: string,
+    tokenHash: string,
+    record: string,
+    seconds: number,
+  ): Promise<boolean> {
+    return await this.setex(`ott:${purpose}:${tokenHash}`, seconds, record);
+  }
+
+  public static async getOneTimeToken(
+    purpose: string,
+    tokenHash: string,
+  ): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GET",
+        `ott:${purpose}:${tokenHash}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error(`Redis GET failed for ${purpose} token:`, error);
+      throw error;
+    }
+  }
+
+  // GETDEL makes redemption atomic: a token can only be read back once.
+  public static async consumeOneTimeToken(
+    purpose: string,
+    tokenHash: string,
+  ): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GETDEL",
+        `ott:${purpose}:${tokenHash}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error(`Redis GETDEL failed for ${purpose} token:`, error);
+      throw error;
+    }
+  }
+
+  // Remembers the latest token hash issued to a subject and returns the one
+  // it replaces, so older links can be invalidated when a new one is sent.
+  public static async swapOneTimeTokenSubject(
+    purpose: string,
+    subject: string,
+    tokenHash: string,
+    seconds: number,
+  ): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "SET",
+        `ott:${purpose}:subject:${subject}`,
+        tokenHash,
+        "EX",
+        seconds.toString(),
+        "GET",
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error(`Redis SET GET failed for ${purpose} subject:`, error);
+      throw error;
+    }
+  }
+
+  public static async takeOneTimeTokenSubject(
+    purpose: string,
+    subject: string,
+  ): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GETDEL",
+        `ott:${purpose}:subject:${subject}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error(`Redis GETDEL failed for ${purpose} subject:`, error);
+      throw error;
+    }
+  }
+
+  public static async setWebAuthnChallenge(
+    key: string,
+    challenge: string,
+    seconds: number,
+  ): Promise<boolean> {
+    return await this.setex(`webauthn:challenge:${key}`, seconds, challenge);
+  }
+
+  // Challenges are single-use, so reading one also removes it.
+  public static async consumeWebAuthnChallenge(
+    key: string,
+  ): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GETDEL",
+        `webauthn:challenge:${key}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error("Redis GETDEL failed for WebAuthn challenge:", error);
+      throw error;
+    }
+  }
+
+  public static async setOidcState(
+    state: string,
+    record: string,
+    seconds: number,
+  ): Promise<boolean> {
+    return await this.setex(`oidc:state:${state}`, seconds, record);
+  }
+
+  public static async consumeOidcState(state: string): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GETDEL",
+        `oidc:state:${state}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error("Redis GETDEL failed for OIDC state:", error);
+      throw error;
+    }
+  }
+
+  // Old usernames stay tied to their previous owner for a while so nobody
+  // else can pick one up and pass as that user.
+  public static async reserveUsername(
+    username: string,
+    userId: string,
+    seconds: number,
+  ): Promise<boolean> {
+    return await this.setex(`username:reserved:${username}`, seconds, userId);
+  }
+
+  public static async getUsernameReservation(
+    username: string,
+  ): Promise<string | null> {
+    try {
+      const reply = await this.client.sendCommand([
+        "GET",
+        `username:reserved:${username}`,
+      ]);
+      return reply ? reply as string : null;
+    } catch (error) {
+      console.error("Redis GET failed for username reservation:", error);
+      throw error;
+    }
+  }
+
+  public static async releaseUsername(username: string): Promise<boolean> {
+    return await this.del(`username:reserved:${username}`);
+  }
+
+  // Reservations are keyed by name, so the ones a user holds are found by
+  // their value
+  public static async releaseUsernamesOf(userId: string): Promise<number> {
+    const keys = await this.keys("username:reserved:*");
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    try {
+      const reply = await this.client.sendCommand(["MGET", ...keys]);
+      const owners = Array.isArray(reply) ? reply as (string | null)[] : [];
+      const owned = keys.filter((_, i) => owners[i] === userId);
+      await Promise.all(owned.map((key) => this.del(key)));
+      return owned.length;
+    } catch (error) {
+      console.error("Redis MGET failed for username reservations:", error);
+      throw error;
+    }
+  }
+
   public static async getRateLimit(key: string): Promise<RateLimitInfo | null> {
     try {
       const reply = await this.client.sendCommand(["GET", key]);
@@ -95,4 +632,75 @@ export class RedisManager {
       return false;
     }
   }
+
+  // Returns the request count in the current window and the seconds left in it
+  public static async hitFixedWindow(
+    key: string,
+    seconds: number,
+  ): Promise<{ count: number; ttl: number }> {
+    try {
+      const reply = await this.client.sendCommand([
+        "EVAL",
+        FIXED_WINDOW_SCRIPT,
+        "1",
+        key,
+        seconds.toString(),
+      ]) as number[];
+      return { count: reply[0], ttl: reply[1] };
+    } catch (error) {
+      console.error(`Redis EVAL failed for rate limit key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  public static async hitSlidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+  ): Promise<{ allowed: boolean; count: number; oldest: number }> {
+    try {
+      const reply = await this.client.sendCommand([
+        "EVAL",
+        SLIDING_WINDOW_SCRIPT,
+        "1",
+        key,
+        now.toString(),
+        windowMs.toString(),
+        limit.toString(),
+        `${now}:${crypto.randomUUID()}`,
+      ]) as [number, number, string];
+      return {
+        allowed: reply[0] === 1,
+        count: reply[1],
+        oldest: Number(reply[2]),
+      };
+    } catch (error) {
+      console.error(`Redis EVAL failed for rate limit key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  public static async takeBucketToken(
+    key: string,
+    capacity: number,
+    refillPerMs: number,
+    now: number,
+  ): Promise<{ allowed: boolean; tokens: number }> {
+    try {
+      const reply = await this.client.sendCommand([
+        "EVAL",
+        TOKEN_BUCKET_SCRIPT,
+        "1",
+        key,
+        capacity.toString(),
+        refillPerMs.toString(),
+        now.toString(),
+      ]) as [number, string];
+      return { allowed: reply[0] === 1, tokens: Number(reply[1]) };
+    } catch (error) {
+      console.error(`Redis EVAL failed for rate limit key ${key}:`, error);
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,189 @@
+import { decodeJwt } from "@panva/jose";
+import { Session } from "../models/session.ts";
+import { User } from "../models/user.ts";
+import { SessionRepo } from "../repositories/session.ts";
+import { UserRepo } from "../repositories/user.ts";
+import { RefreshTokenReused, tokenService } from "./token.ts";
+import { RedisManager } from "./redis.ts";
+import { TokenPair } from "../utils/token.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import "@std/dotenv/load";
+
+// How long a step-up keeps sensitive operations open for its session
+export const STEP_UP_WINDOW =
+  parseInt(Deno.env.get("STEP_UP_WINDOW_MINUTES") ?? "5") * 60; // seconds
+
+// lastSeenAt is written at most this often by ordinary requests
+const ACTIVITY_INTERVAL = 5 * 60; // seconds
+
+export class SessionService {
+  constructor(
+    private sessionRepo: SessionRepo,
+    private userRepo: UserRepo,
+  ) {}
+
+  async startSession(
+    user: User,
+    ipAddress: string,
+    userAgent: string,
+  ): Promise<TokenPair> {
+    try {
+      const now = new Date();
+      const session: Session = {
+        sessionId: crypto.randomUUID(),
+        userId: user.userId,
+        ipAddress,
+        userAgent,
+        createdAt: now,
+        lastSeenAt: now,
+      };
+
+      await this.sessionRepo.createSession(session);
+
+      return await tokenService.generateTokenPair(user, session.sessionId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "SessionService",
+        operation: "start_session",
+      });
+      console.error("Error starting session");
+      throw error;
+    }
+  }
+
+  async refreshSession(
+    refreshToken: string,
+    ipAddress: string,
+  ): Promise<TokenPair> {
+    try {
+      const tokenPair = await tokenService.refreshAccessToken(
+        refreshToken,
+        (userId) => this.userRepo.findById(userId),
+      );
+
+      const { sid } = decodeJwt(tokenPair.accessToken);
+      if (typeof sid === "string") {
+        await this.sessionRepo.touchSession(sid, ipAddress);
+      }
+
+      return tokenPair;
+    } catch (error) {
+      if (error instanceof RefreshTokenReused) {
+        const { userId } = decodeJwt(refreshToken);
+        await this.sessionRepo.revokeSession(userId as string, error.sessionId);
+      }
+      throw error;
+    }
+  }
+
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    // A session lives exactly as long as its refresh token family, so the
+    // family key doubles as the revocation check.
+    return await RedisManager.getTokenFamily(sessionId) !== null;
+  }
+
+  // Called on every authenticated request. Failing to record activity must
+  // not fail the request, so errors are only counted.
+  async recordActivity(sessionId: string, ipAddress: string): Promise<void> {
+    try {
+      if (await RedisManager.markSessionSeen(sessionId, ACTIVITY_INTERVAL)) {
+        await this.sessionRepo.touchSession(sessionId, ipAddress);
+      }
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "SessionService",
+        operation: "record_activity",
+      });
+      console.error("Error recording session activity:", error);
+    }
+  }
+
+  // Returns when the elevation runs out
+  async elevateSession(sessionId: string): Promise<Date> {
+    try {
+      await RedisManager.elevateSession(sessionId, STEP_UP_WINDOW);
+      return new Date(Date.now() + STEP_UP_WINDOW * 1000);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "SessionService",
+        operation: "elevate_session",
+      });
+      console.error("Error elevating session");
+      throw error;
+    }
+  }
+
+  async isSessionElevated(sessionId: string): Promise<boolean> {
+    return await RedisManager.isSessionElevated(sessionId);
+  }
+
+  async listSessions(userId: string): Promise<Session[]> {
+    try {
+      const sessions = await this.sessionRepo.findActiveByUser(userId);
+
+      // A session whose refresh token family ran out is over even though
+      // nobody revoked it in the database
+      const active = await Promise.all(
+        sessions.map((session) => this.isSessionActive(session.sessionId)),
+      );
+      return sessions.filter((_, i) => active[i]);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "SessionService",
+        operation: "list_sessions",
+      });
+      console.error("Error listing sessions");
+      throw error;
+    }
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    try {
+      const session = await this.sessionRepo.findById(sessionId);
+      if (!session || session.userId !== userId || session.revokedAt) {
+        return false;
+      }
+
+      // Redis first: if it fails the session stays listed and the caller can
+      // retry, instead of looking revoked while its tokens still work
+      await RedisManager.revokeTokenFamily(sessionId);
+      await RedisManager.dropSessionElevation(sessionId);
+      await this.sessionRepo.revokeSession(userId, sessionId);
+      return true;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "SessionService",
+        operation: "revoke_session",
+      });
+      console.error("Error revoking session");
+      throw error;
+    }
+  }
+
+  // Ends every session of the user and invalidates all of their outstanding
+  // tokens, including ones that were issued outside a session.
+  async revokeAllSessions(userId: string): Promise<number> {
+    try {
+      const sessions = await this.sessionRepo.findActiveByUser(userId);
+
+      // The tokens are revoked before the sessions are marked, so a Redis
+      // failure leaves everything in place for a retry
+      await tokenService.revokeAllForUser(userId);
+      await Promise.all(
+        sessions.map((session) =>
+          RedisManager.revokeTokenFamily(session.sessionId)
+        ),
+      );
+      await this.sessionRepo.revokeAllByUser(userId);
+
+      return sessions.length;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "SessionService",
+        operation: "revoke_all_sessions",
+      });
+      console.error("Error revoking all sessions");
+      throw error;
+    }
+  }
+}
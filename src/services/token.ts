@@ -1,88 +1,224 @@
-import { JWTPayload, jwtVerify, SignJWT } from "@panva/jose";
-import { User } from "../models/user.ts";
+import { decodeJwt, JWTPayload, jwtVerify, SignJWT } from "@panva/jose";
+import { User, UserRole } from "../models/user.ts";
 import { RedisManager } from "./redis.ts";
-import { secretKey, tokenConfig, TokenPair } from "../utils/token.ts";
+import { tokenConfig, TokenPair } from "../utils/token.ts";
+import { keyService } from "./keys.ts";
 import "@std/dotenv/load";
 
 interface UserPayload extends JWTPayload {
   userId: string;
   username: string;
+  sid?: string;
+  roles?: UserRole[];
   type?: string;
   recoveryAvailable?: boolean;
+  iatMs?: number;
+}
+
+export type TokenType = "access" | "refresh";
+
+const TEMP_TOKEN_MAX_FAILURES = 3;
+
+// `iat` only has second precision, which can't tell a token minted just
+// before a revoke-all from one minted just after it. Tokens carry their
+// issue time in milliseconds as well; older ones fall back to `iat`.
+function issuedAtMs(payload: JWTPayload): number {
+  return typeof payload["iatMs"] === "number"
+    ? payload["iatMs"]
+    : (payload.iat ?? 0) * 1000;
+}
+
+function remainingLifetime(payload: JWTPayload): number {
+  const now = Math.floor(Date.now() / 1000);
+  return Math.max((payload.exp ?? now) - now, 1);
+}
+
+export class TokenRevoked extends Error {
+  constructor() {
+    super("Token has been revoked");
+  }
+}
+
+// Bad signature, wrong issuer or audience, expired or malformed
+export class InvalidToken extends Error {
+  constructor(message: string = "Invalid token") {
+    super(message);
+  }
+}
+
+export class InvalidTokenType extends InvalidToken {
+  constructor() {
+    super("Invalid token type");
+  }
+}
+
+export class AccountDisabled extends Error {
+  constructor() {
+    super("Account is disabled");
+  }
+}
+
+export class RefreshTokenReused extends Error {
+  sessionId: string;
+
+  constructor(sessionId: string) {
+    super("Refresh token reuse detected");
+    this.sessionId = sessionId;
+  }
+}
+
+// The refresh token family is keyed by the session id, so both tokens of a
+// pair carry the same `sid` claim.
+async function signTokenPair(
+  payload: UserPayload,
+  sessionId: string,
+  refreshJti: string,
+): Promise<TokenPair> {
+  const { kid, alg, key } = await keyService.getSigningKey();
+  const iatMs = Date.now();
+
+  const accessToken = await new SignJWT({
+    ...payload,
+    sid: sessionId,
+    type: "access",
+    iatMs,
+  })
+    .setProtectedHeader({ alg, kid })
+    .setJti(crypto.randomUUID())
+    .setIssuedAt(Math.floor(iatMs / 1000))
+    .setIssuer(tokenConfig.issuer)
+    .setAudience(tokenConfig.audience)
+    .setExpirationTime(tokenConfig.accessTokenExpiry)
+    .sign(key);
+
+  const refreshToken = await new SignJWT({
+    ...payload,
+    sid: sessionId,
+    type: "refresh",
+    iatMs,
+  })
+    .setProtectedHeader({ alg, kid })
+    .setJti(refreshJti)
+    .setIssuedAt(Math.floor(iatMs / 1000))
+    .setIssuer(tokenConfig.issuer)
+    .setAudience(tokenConfig.audience)
+    .setExpirationTime(tokenConfig.refreshTokenExpiry)
+    .sign(key);
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: 15 * 60, // 15 minutes in seconds
+  };
 }
 
 export const tokenService = {
-  generateTokenPair: async (user: User): Promise<TokenPair> => {
+  generateTokenPair: async (
+    user: User,
+    sessionId: string = crypto.randomUUID(),
+  ): Promise<TokenPair> => {
     const payload: UserPayload = {
       userId: user.userId,
       username: user.username,
+      roles: user.roles ?? ["user"],
     };
     try {
-      const accessToken = await new SignJWT({ ...payload })
-        .setProtectedHeader({ alg: "HS256" })
-        .setIssuedAt()
-        .setIssuer(tokenConfig.issuer)
-        .setAudience(tokenConfig.audience)
-        .setExpirationTime(tokenConfig.accessTokenExpiry)
-        .sign(secretKey);
+      const refreshJti = crypto.randomUUID();
 
-      const refreshToken = await new SignJWT({
-        ...payload,
-        type: "refresh",
-      })
-        .setProtectedHeader({ alg: "HS256" })
-        .setIssuedAt()
-        .setIssuer(tokenConfig.issuer)
-        .setAudience(tokenConfig.audience)
-        .setExpirationTime(tokenConfig.refreshTokenExpiry)
-        .sign(secretKey);
-
-      return {
-        accessToken,
-        refreshToken,
-        expiresIn: 15 * 60, // 15 minutes in seconds
-      };
+      const tokenPair = await signTokenPair(payload, sessionId, refreshJti);
+      await RedisManager.setTokenFamily(
+        sessionId,
+        refreshJti,
+        tokenConfig.refreshTokenTtl,
+      );
+
+      return tokenPair;
     } catch (error) {
       console.error("Error generating tokens:", error);
       throw new Error("Failed to generate tokens");
     }
   },
 
-  verifyToken: async (token: string): Promise<JWTPayload> => {
+  // Both tokens of a pair are signed with the same key, so the `type` claim
+  // is what keeps a refresh token from being used as an access token.
+  verifyToken: async (
+    token: string,
+    expectedType: TokenType = "access",
+  ): Promise<JWTPayload> => {
+    let payload: JWTPayload;
     try {
-      const isBlacklisted = await tokenService.isTokenBlacklisted(token);
-      if (isBlacklisted) {
-        throw new Error("Token is blacklisted");
-      }
-
-      const { payload } = await jwtVerify(token, secretKey, {
+      ({ payload } = await jwtVerify(token, keyService.getVerificationKey, {
         issuer: tokenConfig.issuer,
         audience: tokenConfig.audience,
-      });
-
-      return payload;
+      }));
     } catch (error) {
       console.error("Token verification failed:", error);
-      throw new Error("Invalid token");
+      throw new InvalidToken();
     }
+
+    if (payload["type"] !== expectedType) {
+      throw new InvalidTokenType();
+    }
+
+    if (await tokenService.isPayloadRevoked(payload)) {
+      throw new TokenRevoked();
+    }
+
+    return payload;
   },
 
-  refreshAccessToken: async (refreshToken: string): Promise<string> => {
-    try {
-      const payload = await tokenService.verifyToken(refreshToken);
+  // Every refresh rotates the refresh token. Only the newest refresh token of
+  // a family is accepted; presenting an older one means it was copied, so the
+  // whole family is revoked and the caller has to log in again.
+  // The new pair is built from the stored account, not the old token, so
+  // role changes apply and a disabled account can't keep its session alive.
+  refreshAccessToken: async (
+    refreshToken: string,
+    findUser: (userId: string) => Promise<User | null>,
+  ): Promise<TokenPair> => {
+    const payload = await tokenService.verifyToken(refreshToken, "refresh");
 
-      if (payload["type"] !== "refresh") {
-        throw new Error("Invalid token type");
-      }
+    const sessionId = payload["sid"];
+    if (typeof sessionId !== "string" || !payload.jti) {
+      throw new Error("Refresh token has no session");
+    }
 
-      const { ["type"]: _tokenType, ...tokenPayload } = payload;
-      return await new SignJWT(tokenPayload)
-        .setProtectedHeader({ alg: "HS256" })
-        .setIssuedAt()
-        .setIssuer(tokenConfig.issuer)
-        .setAudience(tokenConfig.audience)
-        .setExpirationTime(tokenConfig.accessTokenExpiry)
-        .sign(secretKey);
+    const user = await findUser(payload["userId"] as string);
+    if (!user) {
+      await RedisManager.revokeTokenFamily(sessionId);
+      throw new Error("Account no longer exists");
+    }
+    if (user.disabled) {
+      await RedisManager.revokeTokenFamily(sessionId);
+      throw new AccountDisabled();
+    }
+
+    const nextJti = crypto.randomUUID();
+    const rotation = await RedisManager.rotateTokenFamily(
+      sessionId,
+      payload.jti,
+      nextJti,
+      tokenConfig.refreshTokenTtl,
+    );
+
+    if (rotation === "reused") {
+      await RedisManager.revokeTokenFamily(sessionId);
+      throw new RefreshTokenReused(sessionId);
+    }
+    if (rotation === "missing") {
+      throw new Error("Refresh token family has been revoked");
+    }
+
+    try {
+      return await signTokenPair(
+        {
+          userId: user.userId,
+          username: user.username,
+          roles: user.roles ?? ["user"],
+        },
+        sessionId,
+        nextJti,
+      );
     } catch (error) {
       console.error("Error refreshing token:", error);
       throw new Error("Failed to refresh token");
@@ -95,11 +231,18 @@ export const tokenService = {
     try {
       await Promise.all(
         tokens.map(async ({ token, type }) => {
-          const { payload } = await jwtVerify(token, secretKey);
-          if (payload.exp) {
-            const keyRedis = `blacklist:${type}:${token}`;
+          const { payload } = await jwtVerify(
+            token,
+            keyService.getVerificationKey,
+          );
+          if (payload.jti && payload.exp) {
             const timeDiff = payload.exp - Math.floor(Date.now() / 1000);
-            await RedisManager.setex(keyRedis, timeDiff, "true");
+            if (timeDiff > 0) {
+              await RedisManager.revokeJti(payload.jti, timeDiff);
+            }
+          }
+          if (type === "refresh" && typeof payload["sid"] === "string") {
+            await RedisManager.revokeTokenFamily(payload["sid"]);
           }
         }),
       );
@@ -109,33 +252,77 @@ export const tokenService = {
     }
   },
 
+  // Revokes every token issued to the user up to and including
+  // `issuedBefore` (unix milliseconds). The marker only has to outlive the
+  // longest-lived token. Returns once the clock is past the marker, so a
+  // pair minted right after (e.g. on a username change) is never caught by
+  // it.
+  revokeAllForUser: async (
+    userId: string,
+    issuedBefore: number = Date.now(),
+  ): Promise<void> => {
+    try {
+      await RedisManager.revokeUserTokensBefore(
+        userId,
+        issuedBefore,
+        tokenConfig.refreshTokenTtl,
+      );
+      while (Date.now() <= issuedBefore) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+      }
+    } catch (error) {
+      console.error("Error revoking user tokens:", error);
+      throw new Error("Failed to revoke user tokens");
+    }
+  },
+
+  isPayloadRevoked: async (payload: JWTPayload): Promise<boolean> => {
+    if (!payload.jti || typeof payload["userId"] !== "string") {
+      return false;
+    }
+
+    try {
+      return await RedisManager.isRevoked(
+        payload.jti,
+        payload["userId"],
+        issuedAtMs(payload),
+      );
+    } catch (error) {
+      console.error("Error checking revocation:", error);
+      throw new Error("Failed to check token revocation");
+    }
+  },
+
   isTokenBlacklisted: async (token: string): Promise<boolean> => {
     try {
-      const keyRedis = `blacklist:*:${token}`;
-      const keys = await RedisManager.keys(keyRedis);
-      return keys.length > 0;
+      return await tokenService.isPayloadRevoked(decodeJwt(token));
     } catch (error) {
       console.error("Error checking blacklist:", error);
       throw new Error("Failed to check token blacklist");
     }
   },
+
   generateTempToken: async (
     userId: string,
     expiry: string,
     recoveryAvailable: boolean,
   ): Promise<string> => {
     try {
+      const { kid, alg, key } = await keyService.getSigningKey();
+      const iatMs = Date.now();
       const tempToken = await new SignJWT({
         userId,
         type: "temp",
         recoveryAvailable,
+        iatMs,
       })
-        .setProtectedHeader({ alg: "HS256" })
-        .setIssuedAt()
+        .setProtectedHeader({ alg, kid })
+        .setJti(crypto.randomUUID())
+        .setIssuedAt(Math.floor(iatMs / 1000))
         .setIssuer(tokenConfig.issuer)
-        .setAudience(tokenConfig.audience)
+        .setAudience(tokenConfig.tempTokenAudience)
         .setExpirationTime(expiry)
-        .sign(secretKey);
+        .sign(key);
 
       return tempToken;
     } catch (error) {
@@ -148,19 +335,53 @@ export const tokenService = {
     token: string,
   ): Promise<UserPayload> => {
     try {
-      const { payload } = await jwtVerify(token, secretKey, {
-        issuer: tokenConfig.issuer,
-        audience: tokenConfig.audience,
-      });
+      const { payload } = await jwtVerify(
+        token,
+        keyService.getVerificationKey,
+        {
+          issuer: tokenConfig.issuer,
+          audience: tokenConfig.tempTokenAudience,
+        },
+      );
 
       if (payload.type !== "temp") {
         throw new Error("Invalid temporary token");
       }
 
+      if (await tokenService.isPayloadRevoked(payload)) {
+        throw new TokenRevoked();
+      }
+
       return payload as UserPayload;
     } catch (error) {
       console.error("Temporary token verification failed:", error);
       throw new Error("Invalid temporary token");
     }
   },
+
+  // Temp tokens are single use, and only allow a few wrong second factor
+  // codes before they are revoked.
+  consumeTempToken: async (payload: UserPayload): Promise<void> => {
+    if (payload.jti) {
+      await RedisManager.revokeJti(payload.jti, remainingLifetime(payload));
+    }
+  },
+
+  // Returns true once the token has used up its attempts and was revoked.
+  recordTempTokenFailure: async (payload: UserPayload): Promise<boolean> => {
+    if (!payload.jti) {
+      return true;
+    }
+
+    const failures = await RedisManager.addTempTokenFailure(
+      payload.jti,
+      remainingLifetime(payload),
+    );
+    if (failures < TEMP_TOKEN_MAX_FAILURES) {
+      return false;
+    }
+
+    await tokenService.consumeTempToken(payload);
+    return true;
+  },
 };
@@ -0,0 +1,162 @@
+import { TrustedDevice } from "../models/trustedDevice.ts";
+import { TrustedDeviceRepo } from "../repositories/trustedDevice.ts";
+import { ErrorCounter } from "../utils/metrics.ts";
+import { hmacSha256, timingSafeEqual } from "../utils/crypto.ts";
+
+export const TRUSTED_DEVICE_DAYS = 30;
+
+const MAX_DEVICES_PER_USER = 10;
+const LAST_USED_RESOLUTION = 60 * 1000; // don't write lastUsedAt more than once a minute
+
+// The cookie is "<deviceId>.<expiry>.<signature>", signed with
+// TRUSTED_DEVICE_SECRET over the user id as well, so it only vouches for the
+// one user on the one device it was issued to. The stored record is what
+// makes it revocable. Without the secret configured no device is trusted.
+function deviceSecret(): string | undefined {
+  return Deno.env.get("TRUSTED_DEVICE_SECRET") || undefined;
+}
+
+async function sign(
+  secret: string,
+  userId: string,
+  deviceId: string,
+  expiry: number,
+): Promise<string> {
+  return await hmacSha256(secret, `${userId}.${deviceId}.${expiry}`);
+}
+
+export class TrustedDeviceService {
+  constructor(private trustedDeviceRepo: TrustedDeviceRepo) {}
+
+  isEnabled(): boolean {
+    return deviceSecret() !== undefined;
+  }
+
+  // Past the limit the oldest device is dropped to make room
+  async trustDevice(
+    userId: string,
+    ipAddress: string,
+    userAgent: string,
+  ): Promise<{ cookie: string; device: TrustedDevice }> {
+    try {
+      const secret = deviceSecret();
+      if (!secret) {
+        throw new Error("Trusted devices are not configured");
+      }
+
+      const existing = await this.trustedDeviceRepo.findActiveByUser(userId);
+      for (const stale of existing.slice(MAX_DEVICES_PER_USER - 1)) {
+        await this.trustedDeviceRepo.revokeDevice(userId, stale.deviceId);
+      }
+
+      const now = new Date();
+      const device: TrustedDevice = {
+        deviceId: crypto.randomUUID(),
+        userId,
+        ipAddress,
+        userAgent,
+        createdAt: now,
+        expiresAt: new Date(
+          now.getTime() + TRUSTED_DEVICE_DAYS * 24 * 60 * 60 * 1000,
+        ),
+      };
+      await this.trustedDeviceRepo.createDevice(device);
+
+      const expiry = Math.floor(device.expiresAt.getTime() / 1000);
+      const signature = await sign(secret, userId, device.deviceId, expiry);
+
+      return { cookie: `${device.deviceId}.${expiry}.${signature}`, device };
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "TrustedDeviceService",
+        operation: "trust_device",
+      });
+      console.error("Error trusting device");
+      throw error;
+    }
+  }
+
+  // Returns null for anything that isn't a live device of this user, so a
+  // login can fall back to asking for the second factor.
+  async verifyDevice(
+    userId: string,
+    cookie: string,
+  ): Promise<TrustedDevice | null> {
+    try {
+      const secret = deviceSecret();
+      const [deviceId, expiryPart, signature] = cookie.split(".");
+      const expiry = Number(expiryPart);
+      if (
+        !secret || !deviceId || !signature || !Number.isInteger(expiry) ||
+        expiry * 1000 <= Date.now()
+      ) {
+        return null;
+      }
+
+      const expected = await sign(secret, userId, deviceId, expiry);
+      if (!timingSafeEqual(signature, expected)) {
+        return null;
+      }
+
+      const device = await this.trustedDeviceRepo.findActive(userId, deviceId);
+      if (!device) {
+        return null;
+      }
+
+      if (
+        !device.lastUsedAt ||
+        Date.now() - device.lastUsedAt.getTime() > LAST_USED_RESOLUTION
+      ) {
+        await this.trustedDeviceRepo.touchDevice(device.deviceId);
+      }
+
+      return device;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "TrustedDeviceService",
+        operation: "verify_device",
+      });
+      console.error("Error verifying trusted device");
+      throw error;
+    }
+  }
+
+  async listDevices(userId: string): Promise<TrustedDevice[]> {
+    try {
+      return await this.trustedDeviceRepo.findActiveByUser(userId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "TrustedDeviceService",
+        operation: "list_devices",
+      });
+      console.error("Error listing trusted devices");
+      throw error;
+    }
+  }
+
+  async revokeDevice(userId: string, deviceId: string): Promise<boolean> {
+    try {
+      return await this.trustedDeviceRepo.revokeDevice(userId, deviceId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "TrustedDeviceService",
+        operation: "revoke_device",
+      });
+      console.error("Error revoking trusted device");
+      throw error;
+    }
+  }
+
+  async revokeAllDevices(userId: string): Promise<number> {
+    try {
+      return await this.trustedDeviceRepo.revokeAllByUser(userId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "TrustedDeviceService",
+        operation: "revoke_all_devices",
+      });
+      console.error("Error revoking trusted devices");
+      throw error;
+    }
+  }
+}
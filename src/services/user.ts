@@ -1,14 +1,50 @@
 import { User, UserProfile } from "../models/user.ts";
-import { UserRepo } from "../repositories/user.ts";
-import { validateEmail, validatePassword } from "../utils/validators.ts";
+import { UsernameTaken, UserRepo } from "../repositories/user.ts";
+import { validateEmail } from "../utils/validators.ts";
 import { ErrorCounter } from "../utils/metrics.ts";
-import { generateRecoveryCodes } from "../utils/recovery.ts";
-import { verifyTOTP } from "../utils/totp.ts";
-import { hashPassword, verifyPassword } from "../services/password.ts";
+import {
+  findRecoveryCode,
+  generateRecoveryCodes,
+  hashRecoveryCodes,
+} from "../utils/recovery.ts";
+import { matchTOTPStep } from "../utils/totp.ts";
+import {
+  hashPassword,
+  rehashPassword,
+  verifyPassword,
+} from "../services/password.ts";
 import * as OTPAuth from "@hectorm/otpauth";
 import * as denoqr from "@openjs/denoqr";
 import "@std/dotenv/load";
 import { ChangeRateLimit } from "../utils/rateLimiter.ts";
+import { oneTimeTokenService } from "./oneTimeToken.ts";
+import { RedisManager } from "./redis.ts";
+import { mailService } from "./mail.ts";
+import {
+  emailChangeConfirmEmail,
+  emailChangeRevertEmail,
+  passwordResetEmail,
+  verificationEmail,
+} from "../utils/emails.ts";
+
+const PASSWORD_RESET_TTL = 30 * 60; // seconds
+const EMAIL_VERIFY_TTL = 24 * 60 * 60; // seconds
+const EMAIL_CHANGE_TTL = 24 * 60 * 60; // seconds
+const EMAIL_REVERT_TTL = 7 * 24 * 60 * 60; // seconds
+const USERNAME_RESERVATION_TTL = 30 * 24 * 60 * 60; // seconds
+export const ACCOUNT_DELETION_GRACE = 14 * 24 * 60 * 60; // seconds
+
+export type TotpCheck = "accepted" | "invalid" | "replayed";
+
+// The account was created through a social sign-in and nobody knows its
+// password, so it can't be confirmed until the user sets one
+export class PasswordNotSet extends Error {
+  constructor() {
+    super(
+      "This account has no password yet. Set one through a password reset to confirm this change",
+    );
+  }
+}
 
 export class UserService {
   constructor(private userRepo: UserRepo) {}
@@ -18,19 +54,13 @@ export class UserService {
     email: string,
     password: string,
   ): Promise<User> {
-    if (!validatePassword(password)) {
-      throw new Error(
-        "Password must have at least 2 special characters, 2 numbers, and be at least 8 characters long",
-      );
-    }
     if (!validateEmail(email)) {
       throw new Error(
         "Must be a valid email",
       );
     }
     try {
-      const userNameExists = await this.userRepo.findByUsername(username);
-      if (userNameExists) {
+      if (await this.isUsernameTaken(username)) {
         throw new Error("Username already exists");
       }
       const emailExists = await this.userRepo.findByEmail(email);
@@ -38,7 +68,7 @@ export class UserService {
         throw new Error("Email already in use");
       }
 
-      const hashedPassword = await hashPassword(password);
+      const hashedPassword = await hashPassword(password, [username, email]);
 
       const newUser: User = {
         userId: crypto.randomUUID(),
@@ -46,6 +76,7 @@ export class UserService {
         passwordHash: hashedPassword,
         createdAt: new Date(),
         email,
+        emailVerified: false,
         twoFactorEnabled: false,
       };
 
@@ -71,7 +102,12 @@ export class UserService {
       const userProfile: UserProfile = {
         username: exists.username,
         email: exists.email,
+        emailVerified: exists.emailVerified === true,
+        pendingEmail: exists.pendingEmail,
         createdAt: exists.createdAt,
+        ...(exists.twoFactorEnabled
+          ? { recoveryCodesRemaining: exists.recoveryCodes?.length ?? 0 }
+          : {}),
       };
 
       return userProfile;
@@ -84,11 +120,9 @@ export class UserService {
       throw error;
     }
   }
-  async changePassword(
-    userId: string,
-    newPassword: string,
-    oldPassword: string,
-  ): Promise<boolean> {
+  // Callers must have stepped up first, the current password isn't asked for
+  // again here.
+  async changePassword(userId: string, newPassword: string): Promise<boolean> {
     try {
       const exists = await this.userRepo.findById(userId);
 
@@ -108,15 +142,14 @@ export class UserService {
         }
       }
 
-      if (!await verifyPassword(exists.passwordHash, oldPassword)) {
-        throw new Error("Old password is incorrect");
-      } else if (!validatePassword(newPassword)) {
-        throw new Error(
-          "New password must have at least 2 special characters, 2 numbers, and be at least 8 characters long",
-        );
+      if ((await verifyPassword(exists.passwordHash, newPassword)).valid) {
+        throw new Error("failed to provide a new password");
       }
 
-      const hashedPassword = await hashPassword(newPassword);
+      const hashedPassword = await hashPassword(newPassword, [
+        exists.username,
+        exists.email,
+      ]);
 
       const result = await this.userRepo.updateUserPassword(
         userId,
@@ -138,6 +171,156 @@ export class UserService {
     }
   }
 
+  async sendEmailVerification(userId: string): Promise<void> {
+    try {
+      const user = await this.userRepo.findById(userId);
+      if (!user) {
+        throw new Error("User not found");
+      }
+      if (user.emailVerified) {
+        throw new Error("Email is already verified");
+      }
+
+      const token = await oneTimeTokenService.issue(
+        "email-verify",
+        user.userId,
+        { email: user.email },
+        EMAIL_VERIFY_TTL,
+      );
+
+      await mailService.send(
+        verificationEmail(user.email, token, EMAIL_VERIFY_TTL / 3600),
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "send_email_verification",
+      });
+      console.error("Error sending email verification");
+      throw error;
+    }
+  }
+
+  async verifyEmail(token: string): Promise<string> {
+    try {
+      const record = await oneTimeTokenService.consume<{ email: string }>(
+        "email-verify",
+        token,
+      );
+      if (!record) {
+        throw new Error("Invalid or expired verification token");
+      }
+
+      const verified = await this.userRepo.markEmailVerified(
+        record.subject,
+        record.data.email,
+      );
+      if (!verified) {
+        throw new Error("Invalid or expired verification token");
+      }
+
+      return record.subject;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "verify_email",
+      });
+      console.error("Error verifying email");
+      throw error;
+    }
+  }
+
+  // Swaps in a hash made with the current argon2 config and pepper. Only
+  // replaces the hash that was just verified, so a password changed in the
+  // meantime stays untouched. A failure here never fails the login.
+  async upgradePasswordHash(user: User, password: string): Promise<void> {
+    try {
+      await this.userRepo.replacePasswordHash(
+        user.userId,
+        user.passwordHash,
+        await rehashPassword(password),
+      );
+    } catch {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "upgrade_password_hash",
+      });
+      console.error("Error upgrading password hash");
+    }
+  }
+
+  // Silently does nothing for unknown addresses so the endpoint can't be used
+  // to find out which emails have accounts.
+  async requestPasswordReset(email: string): Promise<void> {
+    try {
+      const user = await this.userRepo.findByEmail(email);
+      if (!user) {
+        return;
+      }
+
+      const token = await oneTimeTokenService.issue(
+        "password-reset",
+        user.userId,
+        { email: user.email },
+        PASSWORD_RESET_TTL,
+      );
+
+      await mailService.send(
+        passwordResetEmail(user.email, token, PASSWORD_RESET_TTL / 60),
+      );
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "request_password_reset",
+      });
+      console.error("Error requesting password reset");
+      throw error;
+    }
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<string> {
+    try {
+      const pending = await oneTimeTokenService.peek<{ email: string }>(
+        "password-reset",
+        token,
+      );
+      if (!pending) {
+        throw new Error("Invalid or expired reset token");
+      }
+
+      const user = await this.userRepo.findById(pending.subject);
+      if (!user || user.email !== pending.data.email) {
+        throw new Error("Invalid or expired reset token");
+      }
+
+      // The full policy, username and email included, runs before the token
+      // is consumed so a rejected password doesn't use up the reset link
+      const hashedPassword = await hashPassword(newPassword, [
+        user.username,
+        user.email,
+      ]);
+
+      const record = await oneTimeTokenService.consume<{ email: string }>(
+        "password-reset",
+        token,
+      );
+      if (!record || record.subject !== user.userId) {
+        throw new Error("Invalid or expired reset token");
+      }
+
+      await this.userRepo.updateUserPassword(user.userId, hashedPassword);
+
+      return user.userId;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "reset_password",
+      });
+      console.error("Error resetting password");
+      throw error;
+    }
+  }
+
   async findById(userId: string): Promise<User | null> {
     try {
       return await this.userRepo.findById(userId);
@@ -177,11 +360,17 @@ export class UserService {
     }
   }
 
-  async updateUsername(
-    userId: string,
-    oldName: string,
-    newName: string,
-  ): Promise<User | null> {
+  // Usernames held back for their previous owner count as taken for
+  // everybody else.
+  async isUsernameTaken(username: string, userId?: string): Promise<boolean> {
+    if (await this.userRepo.findByUsername(username)) {
+      return true;
+    }
+    const reservedFor = await RedisManager.getUsernameReservation(username);
+    return reservedFor !== null && reservedFor !== userId;
+  }
+
+  async updateUsername(userId: string, newName: string): Promise<User | null> {
     try {
       const exists = await this.userRepo.findById(userId);
       if (!exists) {
@@ -189,7 +378,9 @@ export class UserService {
       }
       if (!newName || newName.trim() === "") {
         throw new Error("Must provide new username");
-      } else if (newName.trim() === oldName.trim()) {
+      }
+      newName = newName.trim();
+      if (newName === exists.username) {
         throw new Error("You are already using this username");
       }
 
@@ -200,24 +391,37 @@ export class UserService {
         const timeRemaining = Math.max(0, twoWeeks - timeSinceChange);
 
         if (timeRemaining > 0) {
-          throw new Error(
-            `Username can only be changed every 2 weeks. Time remaining: ${
-              Math.ceil(timeRemaining / (24 * 60 * 60 * 1000))
-            } days`,
-          );
+          const nextAllowed = Math.ceil(timeRemaining / (24 * 60 * 60 * 1000));
+          throw new ChangeRateLimit(nextAllowed);
         }
       }
 
-      const nameUsed = await this.userRepo.findByUsername(newName);
-
-      if (nameUsed) {
-        throw new Error("This username is already in use");
+      const reservedFor = await RedisManager.getUsernameReservation(newName);
+      if (reservedFor !== null && reservedFor !== userId) {
+        throw new UsernameTaken();
       }
 
-      return await this.userRepo.updateUsernameById(
+      // Reserved before the rename so the old name is never up for grabs in
+      // between. A taken new name is caught by the unique index, which leaves
+      // the old name in use and the reservation harmless.
+      await RedisManager.reserveUsername(
+        exists.username,
         userId,
-        { username: newName.trim() } as User,
+        USERNAME_RESERVATION_TTL,
       );
+
+      const updated = await this.userRepo.updateUsernameById(
+        userId,
+        { username: newName } as User,
+      );
+      if (!updated) {
+        return null;
+      }
+
+      // Taking back one of your own old names ends its reservation
+      await RedisManager.releaseUsername(newName);
+
+      return updated;
     } catch (error) {
       ErrorCounter.add(1, {
         type: "UserService",
@@ -228,7 +432,9 @@ export class UserService {
     }
   }
 
-  async updateEmail(userId: string, newEmail: string): Promise<boolean> {
+  // The new address only takes over once it has been confirmed. The current
+  // address gets a revert link in case the request didn't come from its owner.
+  async requestEmailChange(userId: string, newEmail: string): Promise<boolean> {
     try {
       const exists = await this.userRepo.findById(userId);
       if (!exists) {
@@ -255,22 +461,127 @@ export class UserService {
         throw new Error("Must be a valid email addresss");
       }
 
-      const result = await this.userRepo.updateUserEmail(userId, newEmail);
+      if (await this.userRepo.findByEmail(newEmail)) {
+        throw new Error("Email already in use");
+      }
+
+      const result = await this.userRepo.setPendingEmail(userId, newEmail);
 
       if (!result) {
         return false;
       }
 
+      const confirmToken = await oneTimeTokenService.issue(
+        "email-change",
+        userId,
+        { email: newEmail },
+        EMAIL_CHANGE_TTL,
+      );
+      const revertToken = await oneTimeTokenService.issue(
+        "email-revert",
+        userId,
+        { previousEmail: exists.email, newEmail },
+        EMAIL_REVERT_TTL,
+      );
+
+      await mailService.send(
+        emailChangeConfirmEmail(
+          newEmail,
+          confirmToken,
+          EMAIL_CHANGE_TTL / 3600,
+        ),
+      );
+      await mailService.send(
+        emailChangeRevertEmail(
+          exists.email,
+          newEmail,
+          revertToken,
+          EMAIL_REVERT_TTL / 3600,
+        ),
+      );
+
       return true;
     } catch (error) {
       ErrorCounter.add(1, {
         type: "UserService",
         operation: "change_email",
       });
-      console.error("Error updating email");
+      console.error("Error requesting email change");
+      throw error;
+    }
+  }
+
+  async confirmEmailChange(token: string): Promise<string> {
+    try {
+      const record = await oneTimeTokenService.consume<{ email: string }>(
+        "email-change",
+        token,
+      );
+      if (!record) {
+        throw new Error("Invalid or expired confirmation token");
+      }
+
+      const taken = await this.userRepo.findByEmail(record.data.email);
+      if (taken && taken.userId !== record.subject) {
+        throw new Error("Email already in use");
+      }
+
+      const result = await this.userRepo.confirmPendingEmail(
+        record.subject,
+        record.data.email,
+      );
+      if (!result) {
+        throw new Error("Invalid or expired confirmation token");
+      }
+
+      return record.subject;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "confirm_email_change",
+      });
+      console.error("Error confirming email change");
       throw error;
     }
   }
+
+  // Puts the previous address back whether or not the change was confirmed.
+  // The caller is expected to revoke the account's sessions afterwards.
+  async revertEmailChange(token: string): Promise<string> {
+    try {
+      const record = await oneTimeTokenService.consume<
+        { previousEmail: string; newEmail: string }
+      >("email-revert", token);
+      if (!record) {
+        throw new Error("Invalid or expired revert token");
+      }
+
+      const taken = await this.userRepo.findByEmail(
+        record.data.previousEmail,
+      );
+      if (taken && taken.userId !== record.subject) {
+        throw new Error("Previous email is now used by another account");
+      }
+
+      const result = await this.userRepo.restoreEmail(
+        record.subject,
+        record.data.previousEmail,
+      );
+      if (!result) {
+        throw new Error("User not found");
+      }
+
+      return record.subject;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "revert_email_change",
+      });
+      console.error("Error reverting email change");
+      throw error;
+    }
+  }
+
   async enableTwoFactor(
     userId: string,
   ): Promise<
@@ -354,7 +665,7 @@ export class UserService {
       await this.userRepo.enableTwoFactor(
         userId,
         tempSecret,
-        recoveryCodes,
+        await hashRecoveryCodes(recoveryCodes),
         true,
       );
 
@@ -369,11 +680,7 @@ export class UserService {
     }
   }
 
-  async disableTwoFactor(
-    userId: string,
-    totp: string,
-    password: string,
-  ): Promise<boolean> {
+  async disableTwoFactor(userId: string): Promise<boolean> {
     try {
       const exists = await this.userRepo.findById(userId);
       if (!exists) {
@@ -384,34 +691,131 @@ export class UserService {
         throw new Error("Two factor cannot be disable (not enabled)");
       }
 
-      const verifiedPassword = await verifyPassword(
-        exists.passwordHash,
-        password,
-      );
-      if (!verifiedPassword) {
-        throw new Error("Invalid password");
+      await this.userRepo.disableTwoFactor(userId);
+
+      return true;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "disable_two_factor",
+      });
+      console.error("Error disabling two factor");
+      throw error;
+    }
+  }
+
+  // Email codes are a second factor the user opts in to: whoever controls the
+  // mailbox can also reset the password, so offering them by default would
+  // turn 2FA into one factor.
+  async setEmailOtp(userId: string, enabled: boolean): Promise<void> {
+    try {
+      const user = await this.userRepo.findById(userId);
+      if (!user) {
+        throw new Error("User not found");
+      }
+
+      if (enabled && !user.twoFactorEnabled) {
+        throw new Error("Email codes need 2FA to be enabled");
+      }
+      if (enabled && !user.emailVerified) {
+        throw new Error("Email codes need a verified email address");
+      }
+
+      await this.userRepo.setEmailOtpEnabled(userId, enabled);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "set_email_otp",
+      });
+      console.error("Error updating email codes");
+      throw error;
+    }
+  }
+
+  // Replaces all recovery codes with a new set
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    try {
+      const exists = await this.userRepo.findById(userId);
+      if (!exists) {
+        throw new Error("User not found");
+      }
+
+      if (!exists.twoFactorEnabled || !exists.twoFactorSecret) {
+        throw new Error("Two factor is not enabled");
       }
 
-      const verifiedTotp = verifyTOTP(
-        OTPAuth.Secret.fromBase32(exists.twoFactorSecret!),
-        totp,
+      const recoveryCodes = generateRecoveryCodes();
+      await this.userRepo.updateUserRecoveryCodes(
+        userId,
+        await hashRecoveryCodes(recoveryCodes),
       );
-      if (!verifiedTotp) {
+
+      return recoveryCodes;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "regenerate_recovery_codes",
+      });
+      console.error("Error regenerating recovery codes");
+      throw error;
+    }
+  }
+
+  // The password plus, with 2FA on, a current TOTP code
+  private async verifyCredentials(
+    user: User,
+    password: string,
+    totp?: string,
+  ): Promise<void> {
+    if (user.passwordless) {
+      throw new PasswordNotSet();
+    }
+
+    if (!(await verifyPassword(user.passwordHash, password)).valid) {
+      throw new Error("Invalid password");
+    }
+
+    if (user.twoFactorEnabled) {
+      if (!totp) {
+        throw new Error("OTP is require when two-factor is enabled");
+      }
+      // Same replay protection as the login, so a code seen at login can't
+      // be used again for a step-up
+      const check = await this.consumeTotp(user, totp);
+      if (check === "replayed") {
+        throw new Error("OTP has already been used");
+      }
+      if (check !== "accepted") {
         throw new Error("OTP cannot be verified");
       }
+    }
+  }
 
-      await this.userRepo.disableTwoFactor(userId);
+  // Confirms the credentials for a step-up before the session is elevated
+  async verifyStepUp(
+    userId: string,
+    password: string,
+    totp?: string,
+  ): Promise<User> {
+    try {
+      const exists = await this.userRepo.findById(userId);
+      if (!exists) {
+        throw new Error("User not found");
+      }
 
-      return true;
+      await this.verifyCredentials(exists, password, totp);
+
+      return exists;
     } catch (error) {
       ErrorCounter.add(1, {
         type: "UserService",
-        operation: "disable_two_factor",
+        operation: "verify_step_up",
       });
-      console.error("Error disabling two factor");
+      console.error("Error verifying step-up credentials");
       throw error;
     }
   }
+
   async deleteUser(
     userId: string,
     passwordOnce: string,
@@ -424,47 +828,96 @@ export class UserService {
         throw new Error("User not found");
       }
 
-      const verifiedPasswordOnce = await verifyPassword(
-        exists.passwordHash,
-        passwordOnce,
-      );
-
-      if (!verifiedPasswordOnce) {
-        throw new Error("Invalid password");
+      if (passwordOnce !== passwordTwice) {
+        throw new Error("Passwords do not match");
       }
-      const verifiedPasswordTwice = await verifyPassword(
-        exists.passwordHash,
-        passwordTwice,
+      await this.verifyCredentials(exists, passwordOnce, totp);
+
+      return await this.userRepo.deleteUserById(userId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "delete_user",
+      });
+      console.error("Error deleting user");
+      throw error;
+    }
+  }
+
+  // Marks the account for deletion after the grace period. The data is only
+  // removed by the purge job, so logging in before then keeps the account.
+  async scheduleDeletion(userId: string): Promise<Date> {
+    try {
+      const requestedAt = new Date();
+      const scheduledFor = new Date(
+        requestedAt.getTime() + ACCOUNT_DELETION_GRACE * 1000,
       );
+      const result = await this.userRepo.scheduleDeletion(
+        userId,
+        requestedAt,
+        scheduledFor,
+      );
+      if (!result) {
+        throw new Error("User not found");
+      }
+
+      return scheduledFor;
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "schedule_deletion",
+      });
+      console.error("Error scheduling user deletion");
+      throw error;
+    }
+  }
 
-      if (!verifiedPasswordTwice) {
-        throw new Error("Invalid password");
+  // Returns true when a pending deletion was called off
+  async cancelDeletion(user: User): Promise<boolean> {
+    if (!user.deletionScheduledFor) {
+      return false;
+    }
+
+    try {
+      return await this.userRepo.cancelDeletion(user.userId);
+    } catch (error) {
+      ErrorCounter.add(1, {
+        type: "UserService",
+        operation: "cancel_deletion",
+      });
+      console.error("Error cancelling user deletion");
+      throw error;
+    }
+  }
+
+  // A TOTP code stays valid for its whole time step, so the step accepted at
+  // login is remembered and the same code can't be used to log in twice.
+  async consumeTotp(user: User, code: string): Promise<TotpCheck> {
+    try {
+      if (!user.twoFactorSecret) {
+        return "invalid";
       }
-      if (exists.twoFactorEnabled) {
-        if (!totp) {
-          throw new Error("OTP is require when two-factor is enabled");
-        }
-        const verifiedTotp = verifyTOTP(
-          OTPAuth.Secret.fromBase32(
-            exists.twoFactorSecret!,
-          ),
-          totp,
-        );
-        if (!verifiedTotp) {
-          throw new Error("OTP cannot be verified");
-        }
+
+      const step = matchTOTPStep(
+        OTPAuth.Secret.fromBase32(user.twoFactorSecret),
+        code,
+      );
+      if (step === null) {
+        return "invalid";
       }
 
-      return await this.userRepo.deleteUserById(userId);
+      const recorded = await this.userRepo.recordTotpStep(user.userId, step);
+      return recorded ? "accepted" : "replayed";
     } catch (error) {
       ErrorCounter.add(1, {
         type: "UserService",
-        operation: "delete_user",
+        operation: "consume_totp",
       });
-      console.error("Error deleting user");
+      console.error("Error consuming TOTP code");
       throw error;
     }
   }
+
   async useRecoveryCode(
     userId: string,
     recoveryCode: string,
@@ -483,20 +936,16 @@ export class UserService {
         throw new Error("No code provided");
       }
 
-      const used = recoveryCode.trim();
+      const index = await findRecoveryCode(exists.recoveryCodes, recoveryCode);
 
-      if (exists.recoveryCodes?.includes(used)) {
-        const updatedCodes = exists.recoveryCodes.filter((remaining) =>
-          remaining !== used
-        );
-        await this.userRepo.updateUserRecoveryCodes(
-          exists.userId,
-          updatedCodes,
-        );
-        return true;
+      if (index === -1) {
+        return false;
       }
 
-      return false;
+      return await this.userRepo.consumeRecoveryCode(
+        exists.userId,
+        exists.recoveryCodes[index],
+      );
     } catch (error) {
       ErrorCounter.add(1, {
         type: "UserService",
@@ -0,0 +1,49 @@
+import { sha1Hex } from "./crypto.ts";
+
+// Breached passwords are looked up in a local copy of the Pwned Passwords
+// range files: one file per 5 character SHA-1 prefix (e.g. "5BAA6.txt"),
+// each line holding the rest of a hash and how often it was seen
+// ("1E4C9B93F3F0682250B6CF8331B7EE68FD8:3861493"). Only the prefix file a
+// password falls into is ever read, and recently used ones stay in memory.
+
+const CACHED_PREFIXES = 256;
+const prefixCache = new Map<string, Set<string>>();
+
+async function loadPrefix(directory: string, prefix: string) {
+  const cached = prefixCache.get(prefix);
+  if (cached) {
+    return cached;
+  }
+
+  let suffixes = new Set<string>();
+  try {
+    const text = await Deno.readTextFile(`${directory}/${prefix}.txt`);
+    suffixes = new Set(
+      text.split("\n")
+        .map((line) => line.split(":")[0].trim().toUpperCase())
+        .filter((suffix) => suffix.length > 0),
+    );
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  if (prefixCache.size >= CACHED_PREFIXES) {
+    prefixCache.delete(prefixCache.keys().next().value!);
+  }
+  prefixCache.set(prefix, suffixes);
+  return suffixes;
+}
+
+// Without BREACHED_PASSWORDS_DIR configured nothing counts as breached.
+export async function isBreachedPassword(password: string): Promise<boolean> {
+  const directory = Deno.env.get("BREACHED_PASSWORDS_DIR");
+  if (!directory) {
+    return false;
+  }
+
+  const hash = (await sha1Hex(password)).toUpperCase();
+  const suffixes = await loadPrefix(directory, hash.slice(0, 5));
+  return suffixes.has(hash.slice(5));
+}
@@ -0,0 +1,299 @@
+// The most common leaked passwords with their digits and symbols stripped,
+// ordered by how often they show up in public breach dumps (RockYou and the
+// yearly top lists). Earlier entries are cheaper for an attacker to guess.
+export const COMMON_PASSWORDS = [
+  "password",
+  "iloveyou",
+  "princess",
+  "qwerty",
+  "rockyou",
+  "abc",
+  "nicole",
+  "daniel",
+  "babygirl",
+  "monkey",
+  "lovely",
+  "jessica",
+  "michael",
+  "ashley",
+  "love",
+  "football",
+  "baseball",
+  "dragon",
+  "sunshine",
+  "letmein",
+  "welcome",
+  "admin",
+  "shadow",
+  "master",
+  "superman",
+  "trustno",
+  "hello",
+  "freedom",
+  "whatever",
+  "charlie",
+  "jordan",
+  "hunter",
+  "ranger",
+  "soccer",
+  "batman",
+  "secret",
+  "summer",
+  "winter",
+  "spring",
+  "autumn",
+  "starwars",
+  "pokemon",
+  "cheese",
+  "computer",
+  "internet",
+  "flower",
+  "hockey",
+  "killer",
+  "mustang",
+  "access",
+  "tigger",
+  "buster",
+  "pepper",
+  "ginger",
+  "cookie",
+  "banana",
+  "orange",
+  "purple",
+  "silver",
+  "golden",
+  "angel",
+  "angels",
+  "changeme",
+  "default",
+  "guest",
+  "pass",
+  "passw",
+  "passwd",
+  "user",
+  "root",
+  "test",
+  "tester",
+  "testing",
+  "login",
+  "chocolate",
+  "butterfly",
+  "liverpool",
+  "chelsea",
+  "arsenal",
+  "barcelona",
+  "manchester",
+  "anthony",
+  "andrew",
+  "joshua",
+  "matthew",
+  "robert",
+  "thomas",
+  "william",
+  "jennifer",
+  "michelle",
+  "amanda",
+  "melissa",
+  "elizabeth",
+  "samantha",
+  "sarah",
+  "jasmine",
+  "justin",
+  "taylor",
+  "bailey",
+  "maggie",
+  "buddy",
+  "lucky",
+  "tiger",
+  "lovers",
+  "loveme",
+  "lover",
+  "friends",
+  "friend",
+  "family",
+  "forever",
+  "mylove",
+  "babyboy",
+  "baby",
+  "sweet",
+  "sweetie",
+  "sweetheart",
+  "honey",
+  "blessed",
+  "jesus",
+  "christ",
+  "heaven",
+  "faith",
+  "money",
+  "qazwsx",
+  "asdf",
+  "zxcv",
+  "zaq",
+  "abcd",
+  "abcdef",
+  "passion",
+  "monica",
+  "hannah",
+  "diamond",
+  "crystal",
+  "peanut",
+  "pumpkin",
+  "snoopy",
+  "scooter",
+  "smokey",
+  "bandit",
+  "harley",
+  "thunder",
+  "matrix",
+  "phoenix",
+  "merlin",
+  "wizard",
+  "gandalf",
+  "ninja",
+  "samurai",
+  "warrior",
+  "knight",
+  "legend",
+  "player",
+  "gamer",
+  "hacker",
+  "coffee",
+  "pizza",
+  "apple",
+  "google",
+  "facebook",
+  "twitter",
+  "linkedin",
+  "microsoft",
+  "windows",
+  "linux",
+  "ubuntu",
+  "server",
+  "office",
+  "company",
+  "business",
+  "dollar",
+  "rich",
+  "happy",
+  "smile",
+  "sunny",
+  "rainbow",
+  "unicorn",
+  "dolphin",
+  "panther",
+  "eagle",
+  "falcon",
+  "yankees",
+  "cowboys",
+  "steelers",
+  "lakers",
+  "boston",
+  "london",
+  "paris",
+  "berlin",
+  "america",
+  "canada",
+  "germany",
+  "england",
+  "france",
+  "mexico",
+  "china",
+  "india",
+  "brazil",
+  "spain",
+  "italy",
+  "poland",
+  "russia",
+  "hallo",
+  "passwort",
+  "qwertz",
+  "azerty",
+  "motdepasse",
+  "contrasena",
+  "senha",
+  "parola",
+  "haslo",
+  "geheim",
+  "schatz",
+  "maverick",
+  "midnight",
+  "morning",
+  "december",
+  "november",
+  "october",
+  "september",
+  "august",
+  "july",
+  "june",
+  "april",
+  "march",
+  "february",
+  "january",
+  "monday",
+  "friday",
+  "sunday",
+  "school",
+  "student",
+  "teacher",
+  "doctor",
+  "nurse",
+  "music",
+  "guitar",
+  "dancer",
+  "tennis",
+  "golf",
+  "fishing",
+  "hunting",
+  "horses",
+  "kitten",
+  "puppy",
+  "doggie",
+  "kitty",
+  "bubbles",
+  "cupcake",
+  "candy",
+  "sugar",
+  "cherry",
+  "lemon",
+  "mango",
+  "strawberry",
+  "vanilla",
+  "qwertyuiop",
+  "asdfghjkl",
+  "zxcvbnm",
+  "iloveu",
+  "lol",
+  "omg",
+  "yes",
+  "nothing",
+  "something",
+  "anything",
+  "everything",
+  "simple",
+  "easy",
+  "hard",
+  "strong",
+  "power",
+  "energy",
+  "magic",
+  "mystery",
+  "private",
+  "public",
+  "system",
+  "network",
+  "security",
+  "secure",
+  "safety",
+  "backup",
+  "manager",
+  "support",
+  "service",
+  "account",
+  "member",
+  "online",
+  "mobile",
+  "phone",
+  "email",
+  "web",
+  "site",
+];
@@ -10,3 +10,11 @@ export function createContext(timeout: number) {
     cancel: () => clearTimeout(timeoutId),
   };
 }
+
+export function clientInfo(ctx: Context) {
+  return {
+    ipAddress: ctx.request.ip,
+    userAgent: ctx.request.headers.get("user-agent") ?? "unknown",
+    requestId: (ctx.state?.requestId as string | undefined) ?? "unknown",
+  };
+}
@@ -0,0 +1,140 @@
+import { Context } from "@oak/oak";
+import { TokenPair } from "./token.ts";
+import { LoginMode } from "../models/user.ts";
+import { randomToken } from "./crypto.ts";
+
+export const CSRF_COOKIE = "csrfToken";
+export const CSRF_HEADER = "X-CSRF-Token";
+export const TRUSTED_DEVICE_COOKIE = "trustedDevice";
+export const OIDC_STATE_COOKIE = "oidcState";
+
+// Pass the current CSRF token to keep it: a frontend on another origin caches
+// the value from /api/auth/csrf and would otherwise get 403s after a refresh.
+export function setAuthCookies(
+  ctx: Context,
+  tokenPair: TokenPair,
+  csrfToken?: string,
+) {
+  const isProd = Deno.env.get("ENV") === "PROD";
+
+  ctx.cookies.set("accessToken", tokenPair.accessToken, {
+    httpOnly: true,
+    secure: isProd,
+    sameSite: "lax",
+    path: "/",
+  });
+
+  ctx.cookies.set("refreshToken", tokenPair.refreshToken, {
+    httpOnly: true,
+    secure: isProd,
+    sameSite: "lax",
+    path: "/",
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days (longer than access token)
+  });
+
+  setCsrfCookie(ctx, csrfToken);
+}
+
+// Readable by scripts on purpose: the frontend echoes it back in the
+// X-CSRF-Token header, which another site can't do (see csrfProtection).
+export function setCsrfCookie(
+  ctx: Context,
+  csrfToken: string = randomToken(),
+): string {
+  ctx.cookies.set(CSRF_COOKIE, csrfToken, {
+    httpOnly: false,
+    secure: Deno.env.get("ENV") === "PROD",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 7 * 24 * 60 * 60 * 1000, // as long as the refresh token
+  });
+  return csrfToken;
+}
+
+export function clearAuthCookies(ctx: Context) {
+  ctx.cookies.delete("accessToken", { path: "/" });
+  ctx.cookies.delete("refreshToken", { path: "/" });
+  ctx.cookies.delete(CSRF_COOKIE, { path: "/" });
+}
+
+// Only sent to the login routes, and left alone on logout: the device stays
+// trusted until it expires or is revoked.
+export function setTrustedDeviceCookie(
+  ctx: Context,
+  cookie: string,
+  expiresAt: Date,
+) {
+  ctx.cookies.set(TRUSTED_DEVICE_COOKIE, cookie, {
+    httpOnly: true,
+    secure: Deno.env.get("ENV") === "PROD",
+    sameSite: "strict",
+    path: "/api/login",
+    expires: expiresAt,
+  });
+}
+
+// Ties a social sign-in to the browser that started it, so a callback link
+// with someone else's state can't log the victim into the attacker's account.
+export function setOidcStateCookie(ctx: Context, state: string, ttl: number) {
+  ctx.cookies.set(OIDC_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: Deno.env.get("ENV") === "PROD",
+    sameSite: "lax",
+    path: "/api/auth/oidc",
+    expires: new Date(Date.now() + ttl * 1000),
+  });
+}
+
+export function clearOidcStateCookie(ctx: Context) {
+  ctx.cookies.delete(OIDC_STATE_COOKIE, { path: "/api/auth/oidc" });
+}
+
+export interface TokenResponse {
+  tokenType: "Bearer";
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export function isLoginMode(mode: unknown): mode is LoginMode {
+  return mode === "cookie" || mode === "token";
+}
+
+// Returns the tokens for the response body in token mode, sets the cookies
+// otherwise.
+export function deliverTokens(
+  ctx: Context,
+  tokenPair: TokenPair,
+  mode: LoginMode = "cookie",
+  csrfToken?: string,
+): TokenResponse | undefined {
+  if (mode === "token") {
+    return {
+      tokenType: "Bearer",
+      accessToken: tokenPair.accessToken,
+      refreshToken: tokenPair.refreshToken,
+      expiresIn: tokenPair.expiresIn,
+    };
+  }
+
+  setAuthCookies(ctx, tokenPair, csrfToken);
+  return undefined;
+}
+
+// Token mode clients send their refresh token in the body instead
+export async function readBodyRefreshToken(
+  ctx: Context,
+): Promise<string | undefined> {
+  if (!ctx.request.hasBody) {
+    return undefined;
+  }
+
+  try {
+    const body = await ctx.request.body.json();
+    return typeof body?.refreshToken === "string"
+      ? body.refreshToken
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
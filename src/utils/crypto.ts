@@ -0,0 +1,115 @@
+import { base64url } from "@panva/jose";
+
+export function randomToken(bytes: number = 32): string {
+  return base64url.encode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+async function digestHex(algorithm: string, value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    algorithm,
+    new TextEncoder().encode(value),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  return await digestHex("SHA-256", value);
+}
+
+// Only for lookups in SHA-1 keyed data such as breached password lists
+export async function sha1Hex(value: string): Promise<string> {
+  return await digestHex("SHA-1", value);
+}
+
+// HMAC-SHA256 of value, base64url encoded
+export async function hmacSha256(
+  secret: string,
+  value: string,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(value),
+  );
+  return base64url.encode(new Uint8Array(signature));
+}
+
+async function aesKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(secret),
+  );
+  return await crypto.subtle.importKey("raw", digest, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+// AES-256-GCM under a key derived from secret, as "iv.ciphertext" in
+// base64url. The same additionalData has to be passed to decrypt it again.
+export async function encryptString(
+  secret: string,
+  plaintext: string,
+  additionalData: string,
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData: new TextEncoder().encode(additionalData),
+    },
+    await aesKey(secret),
+    new TextEncoder().encode(plaintext),
+  );
+  return `${base64url.encode(iv)}.${
+    base64url.encode(new Uint8Array(ciphertext))
+  }`;
+}
+
+export async function decryptString(
+  secret: string,
+  sealed: string,
+  additionalData: string,
+): Promise<string> {
+  const [iv, ciphertext] = sealed.split(".");
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: new Uint8Array(base64url.decode(iv)),
+      additionalData: new TextEncoder().encode(additionalData),
+    },
+    await aesKey(secret),
+    new Uint8Array(base64url.decode(ciphertext)),
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// S256 code challenge for an OAuth PKCE code verifier
+export async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier),
+  );
+  return base64url.encode(new Uint8Array(digest));
+}
+
+// Compares two strings without returning early on the first difference
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
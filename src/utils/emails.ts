@@ -0,0 +1,107 @@
+import { MailMessage } from "../services/mail.ts";
+import "@std/dotenv/load";
+
+function appUrl(path: string): string {
+  const base = Deno.env.get("APP_URL") ?? Deno.env.get("ALLOWED_ORIGIN") ??
+    "http://localhost:3000";
+  return `${base.replace(/\/$/, "")}${path}`;
+}
+
+export function passwordResetEmail(
+  to: string,
+  token: string,
+  ttlMinutes: number,
+): MailMessage {
+  const link = appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+  return {
+    to,
+    subject: "Reset your Tuno password",
+    text: [
+      "Someone asked to reset the password for your Tuno account.",
+      `Use this link within ${ttlMinutes} minutes to choose a new one:`,
+      "",
+      link,
+      "",
+      "If this wasn't you, you can ignore this email.",
+    ].join("\n"),
+  };
+}
+
+export function verificationEmail(
+  to: string,
+  token: string,
+  ttlHours: number,
+): MailMessage {
+  const link = appUrl(`/verify-email?token=${encodeURIComponent(token)}`);
+  return {
+    to,
+    subject: "Confirm your Tuno email address",
+    text: [
+      "Please confirm this is your email address by opening the link below.",
+      `It stays valid for ${ttlHours} hours:`,
+      "",
+      link,
+      "",
+      "If you didn't create a Tuno account, you can ignore this email.",
+    ].join("\n"),
+  };
+}
+
+export function emailChangeConfirmEmail(
+  to: string,
+  token: string,
+  ttlHours: number,
+): MailMessage {
+  const link = appUrl(`/confirm-email?token=${encodeURIComponent(token)}`);
+  return {
+    to,
+    subject: "Confirm your new Tuno email address",
+    text: [
+      "You asked to move your Tuno account to this email address.",
+      `Open this link within ${ttlHours} hours to finish the change:`,
+      "",
+      link,
+      "",
+      "If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+  };
+}
+
+export function emailChangeRevertEmail(
+  to: string,
+  newEmail: string,
+  token: string,
+  ttlHours: number,
+): MailMessage {
+  const link = appUrl(`/revert-email?token=${encodeURIComponent(token)}`);
+  return {
+    to,
+    subject: "Your Tuno email address is being changed",
+    text: [
+      `Someone asked to change your Tuno email address to ${newEmail}.`,
+      `If this wasn't you, open this link within ${ttlHours} hours to keep`,
+      "this address and sign out every device:",
+      "",
+      link,
+    ].join("\n"),
+  };
+}
+
+export function loginCodeEmail(
+  to: string,
+  code: string,
+  ttlMinutes: number,
+): MailMessage {
+  return {
+    to,
+    subject: "Your Tuno login code",
+    text: [
+      "Use this code to finish logging in to your Tuno account:",
+      "",
+      code,
+      "",
+      `It expires in ${ttlMinutes} minutes and can only be used once.`,
+      "If you didn't just enter your password, change it as soon as you can.",
+    ].join("\n"),
+  };
+}
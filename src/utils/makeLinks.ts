@@ -20,7 +20,7 @@ export function makeUserLink(
     case "changePassword":
       return { href: `/users/${id}/password`, method: "PATCH" };
     case "changeUsername":
-      return { href: `/users/${id}/username`, method: "PATCH" };
+      return { href: `/api/${id}/change-username`, method: "PUT" };
     default:
       throw new Error(`Unknown action: ${action}`);
   }
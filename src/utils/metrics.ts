@@ -12,11 +12,19 @@ const meterProvider = new MeterProvider({
 const errorMeter = meterProvider.getMeter("error-meter");
 const dbMeter = meterProvider.getMeter("db-metrics");
 const httpMeter = meterProvider.getMeter("http-metrics");
+const authMeter = meterProvider.getMeter("auth-metrics");
 
 export const ErrorCounter = errorMeter.createCounter("error_counter", {
   description: "Number of api errors",
 });
 
+export const SecondFactorFailures = authMeter.createCounter(
+  "second_factor_failures",
+  {
+    description: "Number of failed second factor attempts during login",
+  },
+);
+
 export const ActiveConnections = dbMeter.createUpDownCounter(
   "active_connections",
   {
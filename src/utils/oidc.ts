@@ -0,0 +1,49 @@
+import "@std/dotenv/load";
+
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+export const oidcConfig = {
+  stateTtl: 10 * 60, // seconds the user has to finish signing in
+  discoveryTtl: 60 * 60, // seconds before provider metadata is re-fetched
+};
+
+// Providers are enabled through OIDC_PROVIDERS (e.g. "google,gitlab") and
+// each one is configured with OIDC_<NAME>_ISSUER, _CLIENT_ID, _CLIENT_SECRET,
+// _REDIRECT_URI and optionally _SCOPES. The environment is read on every call
+// so providers can be added without touching code.
+export function getOidcProvider(name: string): OidcProviderConfig | null {
+  const enabled = (Deno.env.get("OIDC_PROVIDERS") ?? "")
+    .split(",")
+    .map((provider) => provider.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!enabled.includes(name.toLowerCase())) {
+    return null;
+  }
+
+  const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+  const issuer = Deno.env.get(`${prefix}ISSUER`);
+  const clientId = Deno.env.get(`${prefix}CLIENT_ID`);
+  const redirectUri = Deno.env.get(`${prefix}REDIRECT_URI`);
+
+  if (!issuer || !clientId || !redirectUri) {
+    console.error(`OIDC provider ${name} is missing configuration`);
+    return null;
+  }
+
+  return {
+    name: name.toLowerCase(),
+    issuer: issuer.replace(/\/$/, ""),
+    clientId,
+    clientSecret: Deno.env.get(`${prefix}CLIENT_SECRET`),
+    redirectUri,
+    scopes: Deno.env.get(`${prefix}SCOPES`) ?? "openid email profile",
+  };
+}
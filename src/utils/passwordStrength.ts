@@ -0,0 +1,269 @@
+import { COMMON_PASSWORDS } from "./commonPasswords.ts";
+
+// Estimates how many bits of guessing a password takes. The password is split
+// into the patterns an attacker would try first (common passwords, personal
+// details, keyboard runs, sequences, repeats and padding at the end); each
+// pattern is worth only a few bits and every other character is worth a
+// brute-force guess from its own character class.
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  entropy: number; // bits
+  warnings: string[];
+  suggestions: string[];
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+export const MIN_PASSWORD_SCORE = 3;
+
+const KEYBOARD_ROWS = [
+  "1234567890",
+  "!@#$%^&*()",
+  "qwertyuiop",
+  "asdfghjkl",
+  "zxcvbnm",
+];
+
+const LEET: Record<string, string> = {
+  "@": "a",
+  "4": "a",
+  "8": "b",
+  "3": "e",
+  "6": "g",
+  "1": "i",
+  "!": "i",
+  "0": "o",
+  "$": "s",
+  "5": "s",
+  "7": "t",
+};
+
+type PatternKind =
+  | "personal"
+  | "common"
+  | "keyboard"
+  | "sequence"
+  | "repeat"
+  | "year"
+  | "suffix";
+
+interface PatternMatch {
+  kind: PatternKind;
+  length: number;
+  bits: number;
+}
+
+const WARNINGS: Record<PatternKind, string> = {
+  personal: "Contains your username or email",
+  common: "Contains a commonly used password",
+  keyboard: "Contains a keyboard pattern like qwerty",
+  sequence: "Contains a sequence like abc or 123",
+  repeat: "Contains repeated characters like aaa",
+  year: "Contains a year",
+  suffix: "Ends with predictable digits or symbols like 123!",
+};
+
+// Padding tacked onto a word to get past composition rules
+const MAX_SUFFIX_LENGTH = 4;
+
+// Mixing classes doesn't make every character harder to guess: an attacker
+// tries the capital at the front and the digits at the end first.
+function charBits(char: string): number {
+  if (/[a-z]/.test(char) || /[A-Z]/.test(char)) return Math.log2(26);
+  if (/\d/.test(char)) return Math.log2(10);
+  if (/[!-/:-@[-`{-~ ]/.test(char)) return Math.log2(33);
+  return Math.log2(100);
+}
+
+// A capital at the start or an all caps word adds a guess or two, anything
+// else one bit per capital.
+function capitalizationBits(word: string): number {
+  const capitals = word.replace(/[^A-Z]/g, "").length;
+  if (capitals === 0) return 0;
+  if (capitals === word.length || (capitals === 1 && /^[A-Z]/.test(word))) {
+    return 1;
+  }
+  return 1 + capitals;
+}
+
+function personalTokens(userInputs: string[]): string[] {
+  return userInputs
+    .flatMap((input) => input.toLowerCase().split(/[@.\s_-]+/))
+    .filter((token) => token.length >= 3);
+}
+
+function wordMatch(
+  password: string,
+  unleeted: string,
+  start: number,
+  words: string[],
+  kind: PatternKind,
+): PatternMatch | null {
+  const lower = password.toLowerCase();
+  let best: PatternMatch | null = null;
+  for (const [rank, word] of words.entries()) {
+    const exact = lower.startsWith(word, start);
+    if (!exact && !unleeted.startsWith(word, start)) {
+      continue;
+    }
+    if (best && best.length >= word.length) {
+      continue;
+    }
+    const bits = (kind === "personal" ? 1 : Math.log2(rank + 2)) +
+      capitalizationBits(password.slice(start, start + word.length));
+    best = { kind, length: word.length, bits: exact ? bits : bits + 1 };
+  }
+  return best;
+}
+
+function keyboardMatch(lower: string, start: number): PatternMatch | null {
+  let length = 0;
+  for (const row of KEYBOARD_ROWS) {
+    for (const line of [row, [...row].reverse().join("")]) {
+      let run = 0;
+      while (
+        start + run < lower.length &&
+        line.includes(lower.slice(start, start + run + 1))
+      ) {
+        run++;
+      }
+      length = Math.max(length, run);
+    }
+  }
+  return length >= 4
+    ? { kind: "keyboard", length, bits: Math.log2(60 * length) }
+    : null;
+}
+
+function sequenceMatch(password: string, start: number): PatternMatch | null {
+  const step = password.charCodeAt(start + 1) - password.charCodeAt(start);
+  if (Math.abs(step) !== 1) {
+    return null;
+  }
+
+  let length = 2;
+  while (
+    start + length < password.length &&
+    password.charCodeAt(start + length) -
+          password.charCodeAt(start + length - 1) === step
+  ) {
+    length++;
+  }
+  return length >= 3
+    ? { kind: "sequence", length, bits: 4 + Math.log2(length) }
+    : null;
+}
+
+function repeatMatch(password: string, start: number): PatternMatch | null {
+  let length = 1;
+  while (password[start + length] === password[start]) {
+    length++;
+  }
+  return length >= 3
+    ? {
+      kind: "repeat",
+      length,
+      bits: charBits(password[start]) + Math.log2(length),
+    }
+    : null;
+}
+
+function yearMatch(password: string, start: number): PatternMatch | null {
+  return /^(19|20)\d\d/.test(password.slice(start))
+    ? { kind: "year", length: 4, bits: Math.log2(120) }
+    : null;
+}
+
+// Only what is left at the very end counts, and only after something else,
+// so a password made of nothing but digits is still brute-forced.
+function suffixMatch(password: string, start: number): PatternMatch | null {
+  const rest = password.slice(start);
+  if (
+    start === 0 || rest.length > MAX_SUFFIX_LENGTH ||
+    !/^[\d!-/:-@[-`{-~]+$/.test(rest)
+  ) {
+    return null;
+  }
+  return { kind: "suffix", length: rest.length, bits: 2 * rest.length + 1 };
+}
+
+export function scorePassword(
+  password: string,
+  userInputs: string[] = [],
+): PasswordStrength {
+  const lower = password.toLowerCase();
+  const unleeted = [...lower].map((char) => LEET[char] ?? char).join("");
+  const personal = personalTokens(userInputs);
+
+  let entropy = 0;
+  const found = new Set<PatternKind>();
+  for (let i = 0; i < password.length;) {
+    const candidates = [
+      wordMatch(password, unleeted, i, personal, "personal"),
+      wordMatch(password, unleeted, i, COMMON_PASSWORDS, "common"),
+      keyboardMatch(lower, i),
+      sequenceMatch(password, i),
+      repeatMatch(password, i),
+      yearMatch(password, i),
+      suffixMatch(password, i),
+    ].filter((match): match is PatternMatch => match !== null);
+
+    const match = candidates.reduce<PatternMatch | null>(
+      (best, next) => !best || next.length > best.length ? next : best,
+      null,
+    );
+    if (match) {
+      found.add(match.kind);
+      entropy += match.bits;
+      i += match.length;
+    } else {
+      entropy += charBits(password[i]);
+      i++;
+    }
+  }
+
+  const warnings = [...found].map((kind) => WARNINGS[kind]);
+  const suggestions: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    warnings.unshift(
+      `Must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+    );
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    warnings.unshift(
+      `Must be at most ${MAX_PASSWORD_LENGTH} characters long`,
+    );
+  }
+  if (found.has("personal")) {
+    suggestions.push("Leave your username and email out of your password");
+  }
+  let score = scoreFromEntropy(entropy);
+  if (
+    password.length < MIN_PASSWORD_LENGTH ||
+    password.length > MAX_PASSWORD_LENGTH
+  ) {
+    score = 0;
+  }
+  if (score < 4) {
+    suggestions.push(
+      "Use a longer passphrase made of several unrelated words",
+    );
+  }
+
+  return {
+    score,
+    entropy: Math.round(entropy),
+    warnings,
+    suggestions,
+  };
+}
+
+// Roughly 10^3, 10^6, 10^8 and 10^10 guesses
+function scoreFromEntropy(entropy: number): PasswordStrength["score"] {
+  if (entropy < 10) return 0;
+  if (entropy < 20) return 1;
+  if (entropy < 27) return 2;
+  if (entropy < 33) return 3;
+  return 4;
+}
@@ -9,6 +9,9 @@ export class ChangeRateLimit extends Error {
   }
 }
 
+// Counts failed attempts (wrong passwords and codes) rather than requests,
+// and locks out the IP or the account after a few. Request quotas for routes,
+// the login routes included, are set with the rateLimit() middleware.
 export class RateLimiter {
   private static readonly MAX_ATTEMPTS = 5;
   private static readonly BLOCK_DURATION = 900; // 15 minutes
@@ -110,4 +113,103 @@ export class RateLimiter {
       await RedisManager.del(this.getKey("user", username));
     }
   }
+  // Drops every per-user counter, both these and the rateLimit() policy
+  // ones, for the account purge. Counters keyed by IP are left alone.
+  static async clearUser(
+    userId: string,
+    username: string,
+    email: string,
+  ): Promise<void> {
+    const keys = [
+      this.getKey("user", userId),
+      this.getKey("user", username),
+      this.getKey("user", `verify:${userId}`),
+      this.getKey("user", `forgot:${email.toLowerCase()}`),
+      ...await RedisManager.keys(`ratelimit:*:user:${userId}`),
+    ];
+    await Promise.all(keys.map((key) => RedisManager.del(key)));
+  }
+}
+
+export type RateLimitAlgorithm =
+  | "fixed-window"
+  | "sliding-window"
+  | "token-bucket";
+
+export interface RateLimitPolicy {
+  name: string; // keeps the counters of different policies apart
+  algorithm: RateLimitAlgorithm;
+  limit: number; // requests per window, or the size of the bucket
+  window: number; // seconds; a token bucket refills completely in this time
+  by?: "ip" | "user"; // "user" falls back to the IP for anonymous requests
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // seconds until the full quota is available again
+  retryAfter: number; // seconds until the next request can get through
+}
+
+export async function checkRateLimit(
+  policy: RateLimitPolicy,
+  subject: string,
+): Promise<RateLimitDecision> {
+  const key = `ratelimit:${policy.name}:${subject}`;
+  const windowMs = policy.window * 1000;
+  const now = Date.now();
+
+  switch (policy.algorithm) {
+    case "fixed-window": {
+      const { count, ttl } = await RedisManager.hitFixedWindow(
+        key,
+        policy.window,
+      );
+      const reset = Math.max(ttl, 0);
+      return {
+        allowed: count <= policy.limit,
+        limit: policy.limit,
+        remaining: Math.max(policy.limit - count, 0),
+        reset,
+        retryAfter: count <= policy.limit ? 0 : reset,
+      };
+    }
+    case "sliding-window": {
+      const { allowed, count, oldest } = await RedisManager.hitSlidingWindow(
+        key,
+        policy.limit,
+        windowMs,
+        now,
+      );
+      // The oldest logged request is the next one to drop out of the window
+      const nextFree = Math.max(
+        Math.ceil((oldest + windowMs - now) / 1000),
+        0,
+      );
+      return {
+        allowed,
+        limit: policy.limit,
+        remaining: Math.max(policy.limit - count, 0),
+        reset: count > 0 ? policy.window : 0,
+        retryAfter: allowed ? 0 : nextFree,
+      };
+    }
+    case "token-bucket": {
+      const refillPerMs = policy.limit / windowMs;
+      const { allowed, tokens } = await RedisManager.takeBucketToken(
+        key,
+        policy.limit,
+        refillPerMs,
+        now,
+      );
+      return {
+        allowed,
+        limit: policy.limit,
+        remaining: Math.floor(tokens),
+        reset: Math.ceil((policy.limit - tokens) / refillPerMs / 1000),
+        retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000),
+      };
+    }
+  }
 }
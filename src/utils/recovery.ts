@@ -1,3 +1,5 @@
+import { sha256Hex, timingSafeEqual } from "./crypto.ts";
+
 function generateRecoveryCode(): string {
   const characters =
     "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
@@ -18,3 +20,31 @@ export function generateRecoveryCodes(): string[] {
   }
   return recoveryCodes;
 }
+
+export async function hashRecoveryCode(code: string): Promise<string> {
+  return await sha256Hex(code.trim().toUpperCase());
+}
+
+export async function hashRecoveryCodes(codes: string[]): Promise<string[]> {
+  return await Promise.all(codes.map(hashRecoveryCode));
+}
+
+// Index of the stored code matching `code`, or -1. Every entry is compared so
+// the time taken doesn't depend on which one matched. Codes saved before they
+// were hashed are still accepted until they are used or replaced.
+export async function findRecoveryCode(
+  stored: string[],
+  code: string,
+): Promise<number> {
+  const hashed = await hashRecoveryCode(code);
+  const plain = code.trim().toUpperCase();
+
+  let match = -1;
+  stored.forEach((entry, index) => {
+    const candidate = /^[0-9a-f]{64}$/.test(entry) ? hashed : plain;
+    if (timingSafeEqual(entry, candidate) && match === -1) {
+      match = index;
+    }
+  });
+  return match;
+}
@@ -4,6 +4,7 @@ export interface Response {
   status?: number;
   message?: string;
   error?: string;
+  details?: unknown;
   data?: unknown;
 }
 
@@ -23,10 +24,11 @@ export class Response {
     };
   }
 
-  static badRequest(ctx: Context, message: string) {
+  static badRequest(ctx: Context, message: string, details?: unknown) {
     ctx.response.status = 400;
     ctx.response.body = {
       error: message,
+      ...(details !== undefined ? { details } : {}),
     };
   }
 
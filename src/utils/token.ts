@@ -3,29 +3,50 @@ import "@std/dotenv/load";
 export interface TokenConfig {
   accessTokenExpiry: string;
   refreshTokenExpiry: string;
+  refreshTokenTtl: number;
   issuer: string;
   audience: string;
+  tempTokenAudience: string; // 2FA temp tokens can't pass as access tokens
 }
 
 export const tokenConfig: TokenConfig = {
   accessTokenExpiry: "15m", // Short-lived access token
   refreshTokenExpiry: "7d", // Longer-lived refresh token
+  refreshTokenTtl: 7 * 24 * 60 * 60, // refreshTokenExpiry in seconds
   issuer: "tonotes-api",
   audience: "tonotes-client",
+  tempTokenAudience: "tonotes-2fa",
 };
 
-const jwtSecret = Deno.env.get("JWT_SECRET_KEY");
-if (!jwtSecret) {
-  throw new Error("JWT_SECRET_KEY is not provided");
+export type SigningAlgorithm = "ES256" | "EdDSA";
+
+export interface KeyConfig {
+  algorithm: SigningAlgorithm;
+  rotationInterval: number;
+  verificationGrace: number;
+  cacheTtl: number;
+  jwksMaxAge: number;
+  publishLead: number;
+}
+
+const signingAlgorithm = Deno.env.get("JWT_ALG") ?? "ES256";
+if (signingAlgorithm !== "ES256" && signingAlgorithm !== "EdDSA") {
+  throw new Error(`Unsupported JWT_ALG: ${signingAlgorithm}`);
 }
 
-export const secretKey = await crypto.subtle.importKey(
-  "raw",
-  new TextEncoder().encode(jwtSecret),
-  { name: "HMAC", hash: "SHA-256" },
-  false,
-  ["sign", "verify"],
-);
+export const keyConfig: KeyConfig = {
+  algorithm: signingAlgorithm,
+  // A fresh signing key is generated once the current one reaches this age
+  rotationInterval: parseInt(Deno.env.get("JWT_KEY_ROTATION_DAYS") ?? "30") *
+    24 * 60 * 60,
+  // Retired keys keep verifying until every token they signed has expired
+  verificationGrace: tokenConfig.refreshTokenTtl,
+  cacheTtl: 60, // seconds before the keyring is re-read from Redis
+  jwksMaxAge: 300, // how long clients may cache the JWKS
+  // A new key is published this long before it signs anything, so every
+  // cached JWKS and keyring has picked it up by the time it is used
+  publishLead: 300 + 60,
+};
 
 export interface TokenPair {
   accessToken: string;
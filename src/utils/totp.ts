@@ -1,19 +1,37 @@
 import * as OTPAuth from "@hectorm/otpauth";
 
+function createTOTP(secret: OTPAuth.Secret): OTPAuth.TOTP {
+  return new OTPAuth.TOTP({
+    issuer: "toNotes",
+    label: "toNotesAuth",
+    algorithm: "SHA512",
+    digits: 6,
+    period: 30,
+    secret: secret,
+  });
+}
+
 export function verifyTOTP(secret: OTPAuth.Secret, code: string): boolean {
+  return matchTOTPStep(secret, code) !== null;
+}
+
+// Returns the time step the code was generated for, or null if it doesn't
+// match any step inside the validation window.
+export function matchTOTPStep(
+  secret: OTPAuth.Secret,
+  code: string,
+  timestamp: number = Date.now(),
+): number | null {
   try {
-    const totp = new OTPAuth.TOTP({
-      issuer: "toNotes",
-      label: "toNotesAuth",
-      algorithm: "SHA512",
-      digits: 6,
-      period: 30,
-      secret: secret,
-    });
+    const totp = createTOTP(secret);
+    const delta = totp.validate({ token: code, timestamp });
+    if (delta === null) {
+      return null;
+    }
 
-    return totp.validate({ token: code }) !== null;
+    return totp.counter({ timestamp }) + delta;
   } catch (error) {
     console.error("Error validating TOTP code:", error);
-    return false;
+    return null;
   }
 }
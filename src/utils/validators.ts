@@ -1,22 +1,13 @@
 import { Pattern, Priority } from "../models/todo.ts";
-
-export function validatePassword(password: string): boolean {
-  // Password must:
-  // - Be at least 8 characters long
-  // - Contain at least 2 numbers
-  // - Contain at least 2 special character
-
-  if (password.length < 8) {
-    return false;
-  }
-
-  const numberCount = (password.match(/\d/g) || []).length;
-  const specialCharCount = (password.match(/[^A-Za-z0-9]/g) || []).length;
-
-  const hasNumber = numberCount >= 2;
-  const hasSpecial = specialCharCount >= 2;
-
-  return hasNumber && hasSpecial;
+import { MIN_PASSWORD_SCORE, scorePassword } from "./passwordStrength.ts";
+
+// Synchronous strength check only; hashPassword also rejects breached
+// passwords and explains why a password was refused.
+export function validatePassword(
+  password: string,
+  userInputs: string[] = [],
+): boolean {
+  return scorePassword(password, userInputs).score >= MIN_PASSWORD_SCORE;
 }
 
 export function validateEmail(email: string): boolean {
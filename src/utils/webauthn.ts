@@ -0,0 +1,17 @@
+import "@std/dotenv/load";
+
+export interface WebAuthnConfig {
+  rpName: string;
+  rpID: string;
+  origin: string;
+  challengeTtl: number;
+}
+
+export const webauthnConfig: WebAuthnConfig = {
+  rpName: Deno.env.get("WEBAUTHN_RP_NAME") ?? "Tuno",
+  // Must be the registrable domain the frontend is served from
+  rpID: Deno.env.get("WEBAUTHN_RP_ID") ?? "localhost",
+  origin: Deno.env.get("WEBAUTHN_ORIGIN") ??
+    Deno.env.get("ALLOWED_ORIGIN") ?? "http://localhost:3000",
+  challengeTtl: 5 * 60, // seconds a ceremony has to complete
+};
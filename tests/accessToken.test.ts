@@ -0,0 +1,236 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { RouterContext } from "@oak/oak";
+import {
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+} from "../src/controllers/accessToken.ts";
+import { authMiddleware } from "../src/middleware/auth.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+import { Response } from "../src/utils/response.ts";
+import { User } from "../src/models/user.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import {
+  accessTokenService,
+  initializeServices,
+  userService,
+} from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: {
+    token?: string;
+    accessToken?: { tokenId: string; prefix: string; scopes: string[] };
+    tokens?: { tokenId: string; name: string; lastUsedAt?: string }[];
+  };
+  error?: string;
+}
+
+function createMockContext<T extends string>(
+  options: {
+    body?: unknown;
+    state?: Record<string, unknown>;
+    params?: Record<string, string>;
+    headers?: Record<string, string>;
+    method?: string;
+    path?: string;
+  } = {},
+): RouterContext<T> {
+  return {
+    request: {
+      body: {
+        value: options.body,
+        json: () => Promise.resolve(options.body),
+      },
+      method: options.method ?? "GET",
+      url: new URL(`http://localhost${options.path ?? "/"}`),
+      ip: "127.0.0.1",
+      headers: new Headers(options.headers),
+    },
+    response: new Response(),
+    state: options.state ?? {},
+    params: options.params ?? {},
+    cookies: {
+      get: () => undefined,
+      set: () => {},
+      delete: () => {},
+    },
+  } as unknown as RouterContext<T>;
+}
+
+async function runMiddleware(
+  ctx: RouterContext<string>,
+  middleware: (
+    ctx: RouterContext<string>,
+    next: () => Promise<unknown>,
+  ) => unknown,
+): Promise<boolean> {
+  let nextCalled = false;
+  await middleware(ctx, () => {
+    nextCalled = true;
+    return Promise.resolve();
+  });
+  return nextCalled;
+}
+
+Deno.test({
+  name: "Access Token Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let testUser: User;
+    let rawToken: string;
+    let tokenId: string;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await client.db().collection("access_tokens").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test user", async () => {
+      const createdUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      assertExists(createdUser);
+      testUser = createdUser;
+    });
+
+    await t.step("should create a scoped token", async () => {
+      const ctx = createMockContext<"/api/:userId/tokens">({
+        body: { name: "backup script", scopes: ["notes:read"] },
+        state: { user: { userId: testUser.userId } },
+        params: { userId: testUser.userId },
+      });
+
+      await createAccessToken(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 201);
+      assertExists(responseData.data?.token);
+      assertEquals(responseData.data?.accessToken?.scopes, ["notes:read"]);
+      rawToken = responseData.data!.token!;
+      tokenId = responseData.data!.accessToken!.tokenId;
+      assertEquals(rawToken.startsWith("tuno_pat_"), true);
+    });
+
+    await t.step("should reject unknown scopes", async () => {
+      const ctx = createMockContext<"/api/:userId/tokens">({
+        body: { name: "bad", scopes: ["admin:everything"] },
+        state: { user: { userId: testUser.userId } },
+        params: { userId: testUser.userId },
+      });
+
+      await createAccessToken(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "Unknown scopes: admin:everything");
+    });
+
+    await t.step("should authenticate with a bearer token", async () => {
+      const ctx = createMockContext({
+        headers: { Authorization: `Bearer ${rawToken}` },
+        path: `/api/${testUser.userId}/notes`,
+        params: { userId: testUser.userId },
+      });
+
+      assertEquals(await runMiddleware(ctx, authMiddleware), true);
+      assertEquals(ctx.state.user.userId, testUser.userId);
+      assertEquals(ctx.state.user.type, "pat");
+
+      assertEquals(
+        await runMiddleware(ctx, authorize({ scopes: ["notes:read"] })),
+        true,
+      );
+    });
+
+    await t.step("should record when the token was last used", async () => {
+      const tokens = await accessTokenService.listTokens(testUser.userId);
+
+      assertExists(tokens[0].lastUsedAt);
+    });
+
+    await t.step("should deny endpoints outside the token scopes", async () => {
+      const writeCtx = createMockContext({
+        headers: { Authorization: `Bearer ${rawToken}` },
+        method: "PUT",
+        path: `/api/${testUser.userId}/notes/create`,
+        params: { userId: testUser.userId },
+      });
+      await runMiddleware(writeCtx, authMiddleware);
+
+      assertEquals(
+        await runMiddleware(writeCtx, authorize({ scopes: ["notes:write"] })),
+        false,
+      );
+      assertEquals(writeCtx.response.status, 403);
+
+      const accountCtx = createMockContext({
+        headers: { Authorization: `Bearer ${rawToken}` },
+        method: "GET",
+        path: `/api/${testUser.userId}/tokens`,
+        params: { userId: testUser.userId },
+      });
+      await runMiddleware(accountCtx, authMiddleware);
+
+      assertEquals(await runMiddleware(accountCtx, authorize()), false);
+      assertEquals(accountCtx.response.status, 403);
+    });
+
+    await t.step("should list tokens without the secret", async () => {
+      const ctx = createMockContext<"/api/:userId/tokens">({
+        state: { user: { userId: testUser.userId } },
+        params: { userId: testUser.userId },
+      });
+
+      await listAccessTokens(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.tokens?.length, 1);
+      assertEquals(responseData.data?.tokens?.[0].name, "backup script");
+      assertEquals(
+        (responseData.data?.tokens?.[0] as Record<string, unknown>).tokenHash,
+        undefined,
+      );
+    });
+
+    await t.step("should revoke a token", async () => {
+      const ctx = createMockContext<"/api/:userId/tokens/:tokenId">({
+        state: { user: { userId: testUser.userId } },
+        params: { userId: testUser.userId, tokenId },
+      });
+
+      await revokeAccessToken(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      const authCtx = createMockContext({
+        headers: { Authorization: `Bearer ${rawToken}` },
+        path: `/api/${testUser.userId}/notes`,
+      });
+
+      assertEquals(await runMiddleware(authCtx, authMiddleware), false);
+      assertEquals(authCtx.response.status, 401);
+    });
+
+    await t.step("cleanup: delete test user and close connection", async () => {
+      if (testUser) {
+        await userService.deleteUser(
+          testUser.userId,
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
+        );
+        await closeDatabaseConnection();
+      }
+    });
+  },
+});
@@ -0,0 +1,268 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { Context, RouterContext } from "@oak/oak";
+import {
+  disableUser,
+  enableUser,
+  getUser,
+  listAdminAudit,
+  resetTwoFactor,
+  searchUsers,
+} from "../src/controllers/admin.ts";
+import { login } from "../src/controllers/login.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+import {
+  AdminAuditPageResponse,
+  AdminUserDetailResponse,
+  AdminUserPageResponse,
+} from "../src/dto/admin.ts";
+import { Response } from "../src/utils/response.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { User } from "../src/models/user.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+
+interface ResponseData<T = unknown> {
+  data?: T;
+  error?: string;
+}
+
+function createMockRouterContext<T extends string>(
+  url: string,
+  user: Record<string, unknown>,
+  params: Record<string, string> = {},
+  body: unknown = {},
+): RouterContext<T> {
+  return {
+    request: {
+      url: new URL(url, "http://localhost"),
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers({ "user-agent": "Support Console" }),
+    },
+    response: new Response(),
+    state: { user },
+    params,
+  } as unknown as RouterContext<T>;
+}
+
+const createLoginContext = (body: unknown): Context =>
+  ({
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: {},
+    cookies: {
+      get: () => undefined,
+      set: () => {},
+      delete: () => {},
+    },
+  }) as unknown as Context;
+
+Deno.test({
+  name: "Admin Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let admin: User;
+    let target: User;
+    let adminState: Record<string, unknown>;
+
+    const auditCollection = async () =>
+      (await connectToDb())
+        .db()
+        .collection(Deno.env.get("ADMIN_AUDIT_COLLECTION")!);
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await (await auditCollection()).deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create admin and target user", async () => {
+      admin = await userService.createUser(
+        "supportagent",
+        "support@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      await (await connectToDb())
+        .db()
+        .collection("users")
+        .updateOne({ userId: admin.userId }, { $set: { roles: ["admin"] } });
+      adminState = { userId: admin.userId, roles: ["admin"] };
+
+      target = await userService.createUser(
+        "targetuser",
+        "target@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+    });
+
+    await t.step("should keep regular users out", async () => {
+      const ctx = createMockRouterContext<"/api/admin/users">(
+        "/api/admin/users",
+        { userId: target.userId, roles: ["user"] },
+      );
+      let nextCalled = false;
+
+      await authorize({ roles: ["admin"], owner: false })(ctx, () => {
+        nextCalled = true;
+        return Promise.resolve();
+      });
+
+      assertEquals(nextCalled, false);
+      assertEquals(ctx.response.status, 403);
+    });
+
+    await t.step("should search users by prefix", async () => {
+      const ctx = createMockRouterContext<"/api/admin/users">(
+        "/api/admin/users?q=TARGET",
+        adminState,
+      );
+
+      await searchUsers(ctx);
+      const responseData = ctx.response.body as ResponseData<
+        AdminUserPageResponse
+      >;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.totalCount, 1);
+      assertEquals(responseData.data?.users[0].userId, target.userId);
+      assertEquals("passwordHash" in responseData.data!.users[0], false);
+    });
+
+    await t.step("should show account metadata", async () => {
+      const ctx = createMockRouterContext<"/api/admin/users/:userId">(
+        `/api/admin/users/${target.userId}`,
+        adminState,
+        { userId: target.userId },
+      );
+
+      await getUser(ctx);
+      const user = (ctx.response.body as ResponseData<AdminUserDetailResponse>)
+        .data;
+
+      assertEquals(ctx.response.status, 200);
+      assertExists(user);
+      assertEquals(user.username, "targetuser");
+      assertEquals(user.disabled, false);
+      assertEquals(user.activeSessions, 0);
+    });
+
+    await t.step("should require a reason to disable", async () => {
+      const ctx = createMockRouterContext<"/api/admin/users/:userId/disable">(
+        `/api/admin/users/${target.userId}/disable`,
+        adminState,
+        { userId: target.userId },
+      );
+
+      await disableUser(ctx);
+
+      assertEquals(ctx.response.status, 400);
+    });
+
+    await t.step("should block logins while disabled", async () => {
+      const ctx = createMockRouterContext<"/api/admin/users/:userId/disable">(
+        `/api/admin/users/${target.userId}/disable`,
+        adminState,
+        { userId: target.userId },
+        { reason: "Reported compromised" },
+      );
+
+      await disableUser(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      const loginCtx = createLoginContext({
+        username: "targetuser",
+        password: "Tulip-Harbor-Ferry-92",
+      });
+      await login(loginCtx);
+      assertEquals(loginCtx.response.status, 403);
+      assertEquals(
+        (loginCtx.response.body as ResponseData).error,
+        "Account is disabled",
+      );
+    });
+
+    await t.step("should allow logins again once enabled", async () => {
+      const ctx = createMockRouterContext<"/api/admin/users/:userId/enable">(
+        `/api/admin/users/${target.userId}/enable`,
+        adminState,
+        { userId: target.userId },
+        { reason: "Owner confirmed" },
+      );
+
+      await enableUser(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      const loginCtx = createLoginContext({
+        username: "targetuser",
+        password: "Tulip-Harbor-Ferry-92",
+      });
+      await login(loginCtx);
+      assertEquals(loginCtx.response.status, 200);
+    });
+
+    await t.step("should not reset 2FA that isn't enabled", async () => {
+      const ctx = createMockRouterContext<
+        "/api/admin/users/:userId/2fa/reset"
+      >(
+        `/api/admin/users/${target.userId}/2fa/reset`,
+        adminState,
+        { userId: target.userId },
+        { verification: "Ticket 1234, ID checked on video call" },
+      );
+
+      await resetTwoFactor(ctx);
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(
+        (ctx.response.body as ResponseData).error,
+        "Two factor is not enabled",
+      );
+    });
+
+    await t.step("should keep an audit trail of admin actions", async () => {
+      const ctx = createMockRouterContext<"/api/admin/audit">(
+        `/api/admin/audit?target=${target.userId}`,
+        adminState,
+      );
+
+      await listAdminAudit(ctx);
+      const entries = (ctx.response.body as ResponseData<
+        AdminAuditPageResponse
+      >).data?.entries;
+
+      assertExists(entries);
+      assertEquals(
+        entries.map((entry) => entry.action),
+        ["view_admin_audit", "enable_user", "disable_user", "view_user"],
+      );
+      const disabled = entries.find((entry) => entry.action === "disable_user");
+      assertEquals(disabled?.adminId, admin.userId);
+      assertEquals(disabled?.reason, "Reported compromised");
+      assertEquals(disabled?.userAgent, "Support Console");
+    });
+
+    await t.step("cleanup: delete test data and close connection", async () => {
+      const client = await connectToDb();
+      await client.db().collection("users").deleteMany({});
+      await (await auditCollection()).deleteMany({});
+      await closeDatabaseConnection();
+    });
+  },
+});
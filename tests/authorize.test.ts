@@ -0,0 +1,117 @@
+import { assertEquals } from "@std/assert";
+import { RouterContext } from "@oak/oak";
+import { AuthorizationRule, authorize } from "../src/middleware/authorize.ts";
+import { Response } from "../src/utils/response.ts";
+
+interface ResponseData {
+  error?: string;
+}
+
+function createMockContext(
+  user: Record<string, unknown> | undefined,
+  params: Record<string, string> = {},
+): RouterContext<string> {
+  return {
+    request: {
+      method: "GET",
+      url: new URL("http://localhost/"),
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: user ? { user } : {},
+    params,
+  } as unknown as RouterContext<string>;
+}
+
+async function isAllowed(
+  ctx: RouterContext<string>,
+  rule?: AuthorizationRule,
+): Promise<boolean> {
+  let nextCalled = false;
+  await authorize(rule)(ctx, () => {
+    nextCalled = true;
+    return Promise.resolve();
+  });
+  return nextCalled;
+}
+
+Deno.test("Authorization Middleware Tests", async (t) => {
+  const session = { userId: "user-1", sid: "session-1", roles: ["user"] };
+  const token = {
+    userId: "user-1",
+    type: "pat",
+    tokenId: "token-1",
+    scopes: ["notes:read"],
+  };
+
+  await t.step("should reject requests without a user", async () => {
+    const ctx = createMockContext(undefined, { userId: "user-1" });
+
+    assertEquals(await isAllowed(ctx), false);
+    assertEquals(ctx.response.status, 401);
+  });
+
+  await t.step("should let owners through", async () => {
+    const ctx = createMockContext(session, { userId: "user-1" });
+
+    assertEquals(await isAllowed(ctx), true);
+  });
+
+  await t.step("should deny access to another user's resources", async () => {
+    const ctx = createMockContext(session, { userId: "user-2" });
+
+    assertEquals(await isAllowed(ctx), false);
+    assertEquals(ctx.response.status, 403);
+    assertEquals(
+      (ctx.response.body as ResponseData).error,
+      "You don't have access to this resource",
+    );
+  });
+
+  await t.step("should skip the owner check when disabled", async () => {
+    const ctx = createMockContext(session, { userId: "user-2" });
+
+    assertEquals(await isAllowed(ctx, { owner: false }), true);
+  });
+
+  await t.step("should give logins access regardless of scopes", async () => {
+    const ctx = createMockContext(session, { userId: "user-1" });
+
+    assertEquals(await isAllowed(ctx, { scopes: ["todos:write"] }), true);
+  });
+
+  await t.step("should check access token scopes", async () => {
+    const granted = createMockContext(token, { userId: "user-1" });
+    assertEquals(await isAllowed(granted, { scopes: ["notes:read"] }), true);
+
+    const missing = createMockContext(token, { userId: "user-1" });
+    assertEquals(await isAllowed(missing, { scopes: ["notes:write"] }), false);
+    assertEquals(missing.response.status, 403);
+    assertEquals(
+      (missing.response.body as ResponseData).error,
+      "Access token is missing the notes:write scope",
+    );
+  });
+
+  await t.step("should keep access tokens off unscoped routes", async () => {
+    const ctx = createMockContext(token, { userId: "user-1" });
+
+    assertEquals(await isAllowed(ctx), false);
+    assertEquals(ctx.response.status, 403);
+  });
+
+  await t.step("should require one of the listed roles", async () => {
+    const user = createMockContext(session);
+    assertEquals(await isAllowed(user, { roles: ["admin"] }), false);
+    assertEquals(user.response.status, 403);
+
+    const admin = createMockContext({ ...session, roles: ["user", "admin"] });
+    assertEquals(await isAllowed(admin, { roles: ["admin"] }), true);
+  });
+
+  await t.step("should treat tokens without roles as users", async () => {
+    const ctx = createMockContext({ userId: "user-1" });
+
+    assertEquals(await isAllowed(ctx, { roles: ["user"] }), true);
+  });
+});
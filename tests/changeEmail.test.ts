@@ -1,11 +1,21 @@
 import { assertEquals, assertExists } from "@std/assert";
-import { RouterContext } from "@oak/oak";
-import { changeEmail } from "../src/controllers/changeEmail.ts";
+import { Context, RouterContext } from "@oak/oak";
+import {
+  changeEmail,
+  confirmEmailChange,
+  revertEmailChange,
+} from "../src/controllers/changeEmail.ts";
 import { Response } from "../src/utils/response.ts";
-import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+import {
+  initializeServices,
+  sessionService,
+  userService,
+} from "../src/config/serviceSetup.ts";
+import { mailService, OutboxTransport } from "../src/services/mail.ts";
 import { ChangeRateLimit } from "../src/utils/rateLimiter.ts";
 import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
 import { User } from "../src/models/user.ts";
+import { authorize } from "../src/middleware/authorize.ts";
 
 interface ResponseData {
   data?: unknown;
@@ -41,6 +51,25 @@ function createMockRouterContext(
   >;
 }
 
+function createMockContext(body: unknown): Context {
+  return {
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+    },
+    response: new Response(),
+    state: {},
+  } as unknown as Context;
+}
+
+function tokenFromMail(text: string): string {
+  const match = text.match(/token=([^\s]+)/);
+  assertExists(match, "Link not found in mail");
+  return decodeURIComponent(match[1]);
+}
+
 Deno.test({
   name: "Change Email Controller Tests",
   sanitizeResources: false,
@@ -48,6 +77,8 @@ Deno.test({
 
   async fn(t) {
     await initializeServices();
+    const outbox = new OutboxTransport();
+    mailService.setTransport(outbox);
     let testUser: User;
 
     await t.step("setup: initialize mongodb", async () => {
@@ -64,7 +95,7 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "old@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
@@ -80,6 +111,62 @@ Deno.test({
       await changeEmail(ctx);
 
       assertEquals(ctx.response.status, 200);
+
+      const user = await userService.findById(testUser.userId);
+      assertEquals(user?.email, "old@example.com");
+      assertEquals(user?.pendingEmail, "new@example.com");
+      assertExists(outbox.lastMessageTo("new@example.com"));
+      assertExists(outbox.lastMessageTo("old@example.com"));
+    });
+
+    await t.step("should switch the email once confirmed", async () => {
+      const token = tokenFromMail(
+        outbox.lastMessageTo("new@example.com")!.text,
+      );
+      const ctx = createMockContext({ token });
+
+      await confirmEmailChange(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      const user = await userService.findById(testUser.userId);
+      assertEquals(user?.email, "new@example.com");
+      assertEquals(user?.pendingEmail, undefined);
+      assertEquals(user?.emailVerified, true);
+
+      const replayCtx = createMockContext({ token });
+      await confirmEmailChange(replayCtx);
+      assertEquals(replayCtx.response.status, 400);
+    });
+
+    await t.step(
+      "should restore the old email and revoke sessions on revert",
+      async () => {
+        await sessionService.startSession(testUser, "127.0.0.1", "Browser");
+        const token = tokenFromMail(
+          outbox.lastMessageTo("old@example.com")!.text,
+        );
+        const ctx = createMockContext({ token });
+
+        await revertEmailChange(ctx);
+
+        assertEquals(ctx.response.status, 200);
+        const user = await userService.findById(testUser.userId);
+        assertEquals(user?.email, "old@example.com");
+        assertEquals(
+          (await sessionService.listSessions(testUser.userId)).length,
+          0,
+        );
+      },
+    );
+
+    await t.step("should reject an invalid revert token", async () => {
+      const ctx = createMockContext({ token: "bogus" });
+
+      await revertEmailChange(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "Invalid or expired revert token");
     });
 
     await t.step(
@@ -91,7 +178,7 @@ Deno.test({
           { userId: testUser.userId },
         );
 
-        await changeEmail(ctx);
+        await authorize()(ctx, () => changeEmail(ctx));
         const responseData = ctx.response.body as ResponseData;
 
         assertEquals(ctx.response.status, 401);
@@ -134,8 +221,8 @@ Deno.test({
     );
 
     await t.step("should handle rate limit errors", async () => {
-      const originalUpdateEmail = userService.updateEmail;
-      userService.updateEmail = () => {
+      const originalRequestEmailChange = userService.requestEmailChange;
+      userService.requestEmailChange = () => {
         throw new ChangeRateLimit(14);
       };
 
@@ -151,15 +238,15 @@ Deno.test({
       assertEquals(ctx.response.status, 429);
       assertEquals(responseData.error, "Trying to update too frequently: 14");
 
-      userService.updateEmail = originalUpdateEmail;
+      userService.requestEmailChange = originalRequestEmailChange;
     });
 
     await t.step("cleanup: delete test user and close connection", async () => {
       if (testUser) {
         await userService.deleteUser(
           testUser.userId,
-          "Test123!@#$",
-          "Test123!@#$",
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
         );
         await closeDatabaseConnection();
       }
@@ -6,10 +6,12 @@ import { initializeServices, userService } from "../src/config/serviceSetup.ts";
 import { ChangeRateLimit } from "../src/utils/rateLimiter.ts";
 import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
 import { User } from "../src/models/user.ts";
+import { authorize } from "../src/middleware/authorize.ts";
 
 interface ResponseData {
   data?: unknown;
   error?: string;
+  details?: { score: number; minimumScore: number; suggestions: string[] };
 }
 
 function createMockRouterContext(
@@ -65,15 +67,35 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "old@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
     });
 
+    await t.step("should explain why a weak password is rejected", async () => {
+      const ctx = createMockRouterContext(
+        { newPassword: "password12!!" },
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await changePassword(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "Password is too weak");
+      assertExists(responseData.details);
+      assertEquals(
+        responseData.details.score < responseData.details.minimumScore,
+        true,
+      );
+      assertEquals(responseData.details.suggestions.length > 0, true);
+    });
+
     await t.step("should successfully change password", async () => {
       const ctx = createMockRouterContext(
-        { oldPassword: "Test123!@#$", newPassword: "NewPass123!@#$" },
+        { newPassword: "NewPass123!@#$" },
         { user: { userId: testUser.userId } },
         { userId: testUser.userId },
       );
@@ -87,12 +109,12 @@ Deno.test({
       "should return unauthorized when no user ID in context",
       async () => {
         const ctx = createMockRouterContext(
-          { oldPassword: "Test123!@#$", newPassword: "NewPass123!@#$" },
+          { newPassword: "NewPass123!@#$" },
           {},
           { userId: testUser.userId },
         );
 
-        await changePassword(ctx);
+        await authorize()(ctx, () => changePassword(ctx));
         const responseData = ctx.response.body as ResponseData;
 
         assertEquals(ctx.response.status, 401);
@@ -101,10 +123,10 @@ Deno.test({
     );
 
     await t.step(
-      "should return bad request when passwords are not provided",
+      "should return bad request when the password is not provided",
       async () => {
         const ctx = createMockRouterContext(
-          { oldPassword: "", newPassword: "" },
+          { newPassword: "" },
           { user: { userId: testUser.userId } },
           { userId: testUser.userId },
         );
@@ -113,10 +135,7 @@ Deno.test({
         const responseData = ctx.response.body as ResponseData;
 
         assertEquals(ctx.response.status, 400);
-        assertEquals(
-          responseData.error,
-          "new or existing password not provided",
-        );
+        assertEquals(responseData.error, "new password not provided");
       },
     );
 
@@ -124,7 +143,7 @@ Deno.test({
       "should return unauthorized when user is not found",
       async () => {
         const ctx = createMockRouterContext(
-          { oldPassword: "Test123!@#$", newPassword: "NewPass123!@#$" },
+          { newPassword: "NewPass123!@#$" },
           { user: { userId: "nonexistent-id" } },
           { userId: "nonexistent-id" },
         );
@@ -144,7 +163,7 @@ Deno.test({
       };
 
       const ctx = createMockRouterContext(
-        { oldPassword: "Test123!@#$", newPassword: "NewPass123!@#$" },
+        { newPassword: "NewPass123!@#$" },
         { user: { userId: testUser.userId } },
         { userId: testUser.userId },
       );
@@ -0,0 +1,243 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { RouterContext } from "@oak/oak";
+import { decodeJwt } from "@panva/jose";
+import { changeUsername } from "../src/controllers/changeUsername.ts";
+import { Response } from "../src/utils/response.ts";
+import {
+  initializeServices,
+  sessionService,
+  userService,
+} from "../src/config/serviceSetup.ts";
+import { tokenService } from "../src/services/token.ts";
+import { RedisManager } from "../src/services/redis.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { User } from "../src/models/user.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+
+interface ResponseData {
+  data?: {
+    user?: { username: string };
+    tokens?: { accessToken: string; refreshToken: string };
+  };
+  error?: string;
+}
+
+function createMockRouterContext(
+  body: unknown,
+  state: Record<string, unknown> = {},
+  params: { userId?: string } = {},
+  cookies: Record<string, string> = {},
+): RouterContext<"/api/:userId/change-username"> {
+  return {
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers({ "user-agent": "Browser" }),
+    },
+    response: new Response(),
+    state,
+    params: { userId: params.userId ?? "test" },
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  } as unknown as RouterContext<"/api/:userId/change-username">;
+}
+
+Deno.test({
+  name: "Change Username Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let testUser: User;
+    let otherUser: User;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await RedisManager.releaseUsername("testuser");
+        await RedisManager.releaseUsername("otheruser");
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test users", async () => {
+      testUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      assertExists(testUser);
+      otherUser = await userService.createUser(
+        "otheruser",
+        "other@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+    });
+
+    await t.step(
+      "should return forbidden for another user's account",
+      async () => {
+        const ctx = createMockRouterContext(
+          { newUsername: "renamed" },
+          { user: { userId: testUser.userId } },
+          { userId: "someone-else" },
+        );
+
+        await authorize()(ctx, () => changeUsername(ctx));
+
+        assertEquals(ctx.response.status, 403);
+      },
+    );
+
+    await t.step("should reject a username that is in use", async () => {
+      const ctx = createMockRouterContext(
+        { newUsername: "otheruser" },
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await changeUsername(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "This username is already in use");
+    });
+
+    await t.step(
+      "should change the username and replace old tokens",
+      async () => {
+        const oldPair = await sessionService.startSession(
+          testUser,
+          "127.0.0.1",
+          "Browser",
+        );
+        const cookies: Record<string, string> = {};
+        const ctx = createMockRouterContext(
+          { newUsername: " renamed " },
+          { user: { userId: testUser.userId } },
+          { userId: testUser.userId },
+          cookies,
+        );
+
+        await changeUsername(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 200);
+        assertEquals(responseData.data?.user?.username, "renamed");
+
+        const payload = await tokenService.verifyToken(cookies["accessToken"]);
+        assertEquals(payload["username"], "renamed");
+
+        const { sid } = decodeJwt(oldPair.accessToken);
+        assertEquals(
+          await sessionService.isSessionActive(sid as string),
+          false,
+        );
+        assertEquals(
+          (await sessionService.listSessions(testUser.userId)).length,
+          1,
+        );
+      },
+    );
+
+    await t.step("should reserve the old username", async () => {
+      assertEquals(await userService.isUsernameTaken("testuser"), true);
+      assertEquals(
+        await userService.isUsernameTaken("testuser", testUser.userId),
+        false,
+      );
+
+      let registrationFailed = false;
+      try {
+        await userService.createUser(
+          "testuser",
+          "impostor@example.com",
+          "Tulip-Harbor-Ferry-92",
+        );
+      } catch {
+        registrationFailed = true;
+      }
+      assertEquals(registrationFailed, true);
+    });
+
+    await t.step(
+      "should hand bearer clients their new tokens in the body",
+      async () => {
+        const cookies: Record<string, string> = {};
+        const ctx = createMockRouterContext(
+          { newUsername: "otherrenamed" },
+          { user: { userId: otherUser.userId }, credential: "bearer" },
+          { userId: otherUser.userId },
+          cookies,
+        );
+
+        await changeUsername(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 200);
+        assertEquals(cookies["accessToken"], undefined);
+        assertExists(responseData.data?.tokens?.accessToken);
+        const payload = await tokenService.verifyToken(
+          responseData.data.tokens.accessToken,
+        );
+        assertEquals(payload["username"], "otherrenamed");
+      },
+    );
+
+    await t.step("should enforce the cooldown", async () => {
+      const ctx = createMockRouterContext(
+        { newUsername: "testuser" },
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await changeUsername(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 429);
+      assertEquals(responseData.error, "Trying to update too frequently: 14");
+    });
+
+    await t.step(
+      "should return bad request when username is not provided",
+      async () => {
+        const ctx = createMockRouterContext(
+          {},
+          { user: { userId: testUser.userId } },
+          { userId: testUser.userId },
+        );
+
+        await changeUsername(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 400);
+        assertEquals(responseData.error, "New username not provided");
+      },
+    );
+
+    await t.step(
+      "cleanup: delete test users and close connection",
+      async () => {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await RedisManager.releaseUsername("testuser");
+        await RedisManager.releaseUsername("otheruser");
+        await closeDatabaseConnection();
+      },
+    );
+  },
+});
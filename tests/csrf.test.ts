@@ -0,0 +1,113 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { Context } from "@oak/oak";
+import { csrfProtection } from "../src/middleware/csrf.ts";
+import { getCsrfToken } from "../src/controllers/csrf.ts";
+import { Response } from "../src/utils/response.ts";
+
+interface ResponseData {
+  data?: { csrfToken?: string };
+  error?: string;
+}
+
+function createMockContext(
+  method: string,
+  credential: string | undefined,
+  cookies: Record<string, string> = {},
+  headers: Record<string, string> = {},
+): Context {
+  return {
+    request: {
+      method,
+      url: new URL("http://localhost/"),
+      headers: new Headers(headers),
+    },
+    response: new Response(),
+    state: { user: { userId: "user-1" }, credential },
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  } as unknown as Context;
+}
+
+async function isAllowed(ctx: Context): Promise<boolean> {
+  let nextCalled = false;
+  await csrfProtection(ctx, () => {
+    nextCalled = true;
+    return Promise.resolve();
+  });
+  return nextCalled;
+}
+
+Deno.test("CSRF Protection Tests", async (t) => {
+  await t.step("should let safe methods through", async () => {
+    const ctx = createMockContext("GET", "cookie");
+
+    assertEquals(await isAllowed(ctx), true);
+  });
+
+  await t.step("should reject cookie mutations without a token", async () => {
+    const ctx = createMockContext("POST", "cookie", { csrfToken: "abc" });
+
+    assertEquals(await isAllowed(ctx), false);
+    assertEquals(ctx.response.status, 403);
+    assertEquals(
+      (ctx.response.body as ResponseData).error,
+      "Missing CSRF token",
+    );
+  });
+
+  await t.step("should reject a mismatched token", async () => {
+    const ctx = createMockContext(
+      "DELETE",
+      "cookie",
+      { csrfToken: "abc" },
+      { "X-CSRF-Token": "abd" },
+    );
+
+    assertEquals(await isAllowed(ctx), false);
+    assertEquals(ctx.response.status, 403);
+    assertEquals(
+      (ctx.response.body as ResponseData).error,
+      "CSRF token mismatch",
+    );
+  });
+
+  await t.step("should accept a matching token", async () => {
+    const ctx = createMockContext(
+      "PUT",
+      "cookie",
+      { csrfToken: "abc" },
+      { "X-CSRF-Token": "abc" },
+    );
+
+    assertEquals(await isAllowed(ctx), true);
+  });
+
+  await t.step("should exempt bearer and access token requests", async () => {
+    assertEquals(await isAllowed(createMockContext("POST", "bearer")), true);
+    assertEquals(await isAllowed(createMockContext("POST", undefined)), true);
+  });
+
+  await t.step("should hand out the cookie's token", async () => {
+    const cookies: Record<string, string> = {};
+    const first = createMockContext("GET", "cookie", cookies);
+    await getCsrfToken(first);
+    const issued = (first.response.body as ResponseData).data?.csrfToken;
+
+    assertExists(issued);
+    assertEquals(cookies["csrfToken"], issued);
+
+    const second = createMockContext("GET", "cookie", cookies);
+    await getCsrfToken(second);
+    assertEquals(
+      (second.response.body as ResponseData).data?.csrfToken,
+      issued,
+    );
+  });
+});
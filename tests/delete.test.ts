@@ -1,13 +1,26 @@
 import { assertEquals, assertExists } from "@std/assert";
-import { Context } from "@oak/oak";
+import { RouterContext } from "@oak/oak";
 import { deleteUser } from "../src/controllers/delete.ts";
+import { login } from "../src/controllers/login.ts";
 import { tokenService } from "../src/services/token.ts";
-import { connectToDb } from "../src/config/db.ts";
+import { sha256Hex } from "../src/utils/crypto.ts";
+import { Response } from "../src/utils/response.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
 import { User } from "../src/models/user.ts";
-import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+import {
+  accountDeletionService,
+  initializeServices,
+  noteService,
+  todoService,
+  userService,
+} from "../src/config/serviceSetup.ts";
+import { ACCOUNT_DELETION_GRACE } from "../src/services/user.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+import { RedisManager } from "../src/services/redis.ts";
+import { checkRateLimit, RateLimiter } from "../src/utils/rateLimiter.ts";
 
 interface ResponseData {
-  data?: string;
+  data?: { message?: string; scheduledFor?: Date };
   error?: string;
 }
 
@@ -15,14 +28,15 @@ const createMockContext = (
   body: unknown | null = null,
   state: Record<string, unknown> = {},
   cookies: Record<string, string> = {},
-): Context =>
+  params: Record<string, string> = {},
+): RouterContext<"/api/:userId"> =>
   ({
     request: {
       body: body
         ? {
-            value: body,
-            json: () => Promise.resolve(body),
-          }
+          value: body,
+          json: () => Promise.resolve(body),
+        }
         : undefined,
     },
     response: {
@@ -31,12 +45,15 @@ const createMockContext = (
       headers: new Headers(),
     },
     state,
+    params,
     cookies: {
       get: (name: string) => cookies[name],
       set: () => {},
-      delete: () => {},
+      delete: (name: string) => {
+        delete cookies[name];
+      },
     },
-  }) as unknown as Context;
+  }) as unknown as RouterContext<"/api/:userId">;
 
 Deno.test({
   name: "Delete Account Controller Tests",
@@ -63,7 +80,7 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "test@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
@@ -80,7 +97,7 @@ Deno.test({
         .then(() => true)
         .catch(() => false);
       const refreshTokenValid = await tokenService
-        .verifyToken(userTokens.refreshToken)
+        .verifyToken(userTokens.refreshToken, "refresh")
         .then(() => true)
         .catch(() => false);
 
@@ -89,36 +106,17 @@ Deno.test({
     });
 
     await t.step("should return 401 when no auth token present", async () => {
-      const ctx = createMockContext({
-        passwordOne: "Test123!@#$",
-        passwordTwo: "Test123!@#$",
-      });
+      const ctx = createMockContext();
 
-      await deleteUser(ctx);
+      await authorize()(ctx, () => deleteUser(ctx));
       const responseData = ctx.response.body as ResponseData;
 
       assertEquals(ctx.response.status, 401);
       assertEquals(responseData.error, "Missing or invalid Token");
     });
 
-    await t.step("should return 400 when passwords don't match", async () => {
-      const ctx = createMockContext(
-        {
-          passwordOne: "Test123!@#$",
-          passwordTwo: "DifferentPass123!@#",
-        },
-        { user: { userId: testUser.userId } },
-      );
-
-      await deleteUser(ctx);
-      const responseData = ctx.response.body as ResponseData;
-
-      assertEquals(ctx.response.status, 400);
-      assertEquals(responseData.error, "Passwords do not match");
-    });
-
     await t.step(
-      "should successfully delete user and blacklist tokens",
+      "should schedule deletion and blacklist tokens",
       async () => {
         // First verify tokens are not blacklisted initially
         const initialAccessBlacklist = await tokenService.isTokenBlacklisted(
@@ -139,23 +137,26 @@ Deno.test({
         );
 
         // Perform deletion
+        const cookies: Record<string, string> = {
+          refreshToken: userTokens.refreshToken,
+          csrfToken: "csrf-token",
+        };
         const ctx = createMockContext(
-          {
-            passwordOne: "Test123!@#$",
-            passwordTwo: "Test123!@#$",
-          },
+          null,
           {
             user: { userId: testUser.userId },
             accessToken: userTokens.accessToken,
-            refreshToken: userTokens.refreshToken,
           },
+          cookies,
+          { userId: testUser.userId },
         );
 
         await deleteUser(ctx);
         const responseData = ctx.response.body as ResponseData;
 
         assertEquals(ctx.response.status, 200);
-        assertEquals(responseData.data, "User has been permanently deleted");
+        assertExists(responseData.data?.scheduledFor);
+        assertEquals(cookies, {});
 
         // Verify tokens are now blacklisted
         const finalAccessBlacklist = await tokenService.isTokenBlacklisted(
@@ -176,9 +177,107 @@ Deno.test({
           "Refresh token should be blacklisted after deletion",
         );
 
-        // Verify user no longer exists
-        const deletedUser = await userService.findById(testUser.userId);
-        assertEquals(deletedUser, null, "User should be deleted from database");
+        // The account stays around until the grace period is over
+        const scheduledUser = await userService.findById(testUser.userId);
+        assertExists(scheduledUser?.deletionScheduledFor);
+      },
+    );
+
+    await t.step("should cancel the deletion on login", async () => {
+      const ctx = {
+        request: {
+          body: {
+            json: () =>
+              Promise.resolve({
+                username: "testuser",
+                password: "Tulip-Harbor-Ferry-92",
+              }),
+          },
+          ip: "127.0.0.1",
+          headers: new Headers(),
+        },
+        response: new Response(),
+        state: {},
+        cookies: { set: () => {} },
+      } as unknown as RouterContext<"/api/login">;
+
+      await login(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      const user = await userService.findById(testUser.userId);
+      assertEquals(user?.deletionScheduledFor, undefined);
+    });
+
+    await t.step(
+      "should purge the account and its data after the grace period",
+      async () => {
+        await noteService.createNote(testUser.userId, "Note", "content");
+        await todoService.createTodo(
+          testUser.userId,
+          "Todo",
+          "description",
+          [],
+        );
+        await userService.scheduleDeletion(testUser.userId);
+
+        // Leave behind what an account typically has in Redis
+        await RedisManager.reserveUsername(
+          "formername",
+          testUser.userId,
+          3600,
+        );
+        await RedisManager.setEmailOtp(testUser.userId, "code-hash", 600);
+        await tokenService.revokeAllForUser(testUser.userId);
+        await RateLimiter.trackAttempt("127.0.0.1", testUser.userId);
+        await checkRateLimit(
+          {
+            name: "todos",
+            algorithm: "sliding-window",
+            limit: 60,
+            window: 60,
+            by: "user",
+          },
+          `user:${testUser.userId}`,
+        );
+
+        // Nothing is due yet
+        assertEquals(await accountDeletionService.purgeDueAccounts(), 0);
+
+        const afterGrace = new Date(
+          Date.now() + (ACCOUNT_DELETION_GRACE + 60) * 1000,
+        );
+        assertEquals(
+          await accountDeletionService.purgeDueAccounts(afterGrace),
+          1,
+        );
+
+        assertEquals(await userService.findById(testUser.userId), null);
+        assertEquals(
+          await RedisManager.getUsernameReservation("formername"),
+          null,
+        );
+        assertEquals(await RedisManager.getEmailOtp(testUser.userId), null);
+        assertEquals(
+          await RedisManager.keys(`*${testUser.userId}*`),
+          [],
+        );
+        assertEquals(await todoService.countTodos(testUser.userId), 0);
+        assertEquals(
+          (await noteService.getNoteNames(testUser.userId)).length,
+          0,
+        );
+
+        const client = await connectToDb();
+        const tombstone = await client
+          .db()
+          .collection(Deno.env.get("TOMBSTONE_COLLECTION")!)
+          .findOne({ userIdHash: await sha256Hex(testUser.userId) });
+        assertExists(tombstone);
+        assertEquals(tombstone.purged.notes, 1);
+        assertEquals(tombstone.purged.todos, 1);
+        assertEquals(tombstone.username, undefined);
+
+        await closeDatabaseConnection();
       },
     );
   },
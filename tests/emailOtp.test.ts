@@ -0,0 +1,250 @@
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { Context } from "@oak/oak";
+import * as OTPAuth from "@hectorm/otpauth";
+import {
+  login,
+  sendEmailCode,
+  withEmailCode,
+} from "../src/controllers/login.ts";
+import { Response } from "../src/utils/response.ts";
+import { mailService, OutboxTransport } from "../src/services/mail.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: {
+    requireTwoFactor?: boolean;
+    tempToken?: string;
+    emailCodeAvailable?: boolean;
+    sent?: boolean;
+    user?: unknown;
+  };
+  error?: string;
+}
+
+const createMockContext = (
+  body: unknown,
+  cookies: Record<string, string> = {},
+): Context =>
+  ({
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: {},
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  }) as unknown as Context;
+
+Deno.test({
+  name: "Email OTP Login Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    const outbox = new OutboxTransport();
+    mailService.setTransport(outbox);
+    let emailCode = "";
+
+    const createTwoFactorUser = async (
+      username: string,
+      email: string,
+      emailVerified: boolean,
+      emailOtpEnabled: boolean,
+    ) => {
+      const user = await userService.createUser(
+        username,
+        email,
+        "Tulip-Harbor-Ferry-92",
+      );
+      const setup = await userService.enableTwoFactor(user.userId);
+      const totp = new OTPAuth.TOTP({
+        issuer: "toNotes",
+        label: "toNotesAuth",
+        algorithm: "SHA512",
+        digits: 6,
+        period: 30,
+        secret: setup.secret,
+      });
+      await userService.verifyTwoFactor(
+        user.userId,
+        totp.generate(),
+        setup.secret,
+      );
+      await (await connectToDb())
+        .db()
+        .collection("users")
+        .updateOne({ userId: user.userId }, { $set: { emailVerified } });
+      if (emailOtpEnabled) {
+        await userService.setEmailOtp(user.userId, true);
+      }
+    };
+
+    const startLogin = async (username: string) => {
+      const ctx = createMockContext({
+        username,
+        password: "Tulip-Harbor-Ferry-92",
+      });
+      await login(ctx);
+      return (ctx.response.body as ResponseData).data!;
+    };
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create users with 2FA", async () => {
+      await createTwoFactorUser("testuser", "test@example.com", true, true);
+      await createTwoFactorUser(
+        "unverified",
+        "unverified@example.com",
+        false,
+        false,
+      );
+      await createTwoFactorUser(
+        "notenrolled",
+        "notenrolled@example.com",
+        true,
+        false,
+      );
+    });
+
+    await t.step(
+      "should only offer email codes to enrolled users",
+      async () => {
+        assertEquals((await startLogin("testuser")).emailCodeAvailable, true);
+        assertEquals(
+          (await startLogin("unverified")).emailCodeAvailable,
+          false,
+        );
+        assertEquals(
+          (await startLogin("notenrolled")).emailCodeAvailable,
+          false,
+        );
+      },
+    );
+
+    await t.step("should not enroll an unverified email", async () => {
+      const user = await userService.findByUsername("unverified");
+      assertExists(user);
+      await assertRejects(
+        () => userService.setEmailOtp(user.userId, true),
+        Error,
+        "Email codes need a verified email address",
+      );
+    });
+
+    await t.step("should mail a six digit code", async () => {
+      const { tempToken } = await startLogin("testuser");
+      const ctx = createMockContext({ tempToken });
+
+      await sendEmailCode(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      const mail = outbox.lastMessageTo("test@example.com");
+      assertExists(mail);
+      const match = mail.text.match(/^\d{6}$/m);
+      assertExists(match);
+      emailCode = match[0];
+    });
+
+    await t.step("should not send another code right away", async () => {
+      const { tempToken } = await startLogin("testuser");
+      const ctx = createMockContext({ tempToken });
+
+      await sendEmailCode(ctx);
+
+      assertEquals(ctx.response.status, 429);
+    });
+
+    await t.step("should refuse an unverified email", async () => {
+      const { tempToken } = await startLogin("unverified");
+      const ctx = createMockContext({ tempToken });
+
+      await sendEmailCode(ctx);
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(outbox.lastMessageTo("unverified@example.com"), undefined);
+    });
+
+    await t.step("should refuse users who did not enroll", async () => {
+      const { tempToken } = await startLogin("notenrolled");
+      const ctx = createMockContext({ tempToken });
+
+      await sendEmailCode(ctx);
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(
+        (ctx.response.body as ResponseData).error,
+        "Email codes are not enabled for this account",
+      );
+      assertEquals(outbox.lastMessageTo("notenrolled@example.com"), undefined);
+    });
+
+    await t.step("should reject a wrong code", async () => {
+      const { tempToken } = await startLogin("testuser");
+      const ctx = createMockContext({
+        tempToken,
+        emailCode: emailCode === "000000" ? "111111" : "000000",
+      });
+
+      await withEmailCode(ctx);
+
+      assertEquals(ctx.response.status, 401);
+      assertEquals(
+        (ctx.response.body as ResponseData).error,
+        "Invalid email code",
+      );
+    });
+
+    await t.step("should log in with the mailed code", async () => {
+      const { tempToken } = await startLogin("testuser");
+      const cookies: Record<string, string> = {};
+      const ctx = createMockContext({ tempToken, emailCode }, cookies);
+
+      await withEmailCode(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      assertExists((ctx.response.body as ResponseData).data?.user);
+      assertExists(cookies["accessToken"]);
+    });
+
+    await t.step("should only accept a code once", async () => {
+      const { tempToken } = await startLogin("testuser");
+      const ctx = createMockContext({ tempToken, emailCode });
+
+      await withEmailCode(ctx);
+
+      assertEquals(ctx.response.status, 401);
+      assertEquals(
+        (ctx.response.body as ResponseData).error,
+        "Email code has expired. Please ask for a new one.",
+      );
+    });
+
+    await t.step("cleanup: delete test data and close connection", async () => {
+      const client = await connectToDb();
+      await client.db().collection("users").deleteMany({});
+      await closeDatabaseConnection();
+    });
+  },
+});
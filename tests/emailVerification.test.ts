@@ -0,0 +1,210 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { Context, RouterContext } from "@oak/oak";
+import {
+  resendVerification,
+  verifyEmail,
+} from "../src/controllers/emailVerification.ts";
+import { register } from "../src/controllers/registration.ts";
+import { requireVerifiedEmail } from "../src/middleware/verifiedEmail.ts";
+import { Response } from "../src/utils/response.ts";
+import { RateLimiter } from "../src/utils/rateLimiter.ts";
+import { mailService, OutboxTransport } from "../src/services/mail.ts";
+import { User } from "../src/models/user.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: {
+    message?: string;
+    user?: { emailVerified?: boolean };
+  };
+  error?: string;
+}
+
+function createMockContext<T extends string>(
+  body: unknown = undefined,
+  state: Record<string, unknown> = {},
+  params: Record<string, string> = {},
+): RouterContext<T> {
+  const cookies: Record<string, string> = {};
+  return {
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state,
+    params,
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  } as unknown as RouterContext<T>;
+}
+
+function tokenFromMail(text: string): string {
+  const match = text.match(/token=([^\s]+)/);
+  assertExists(match, "Verification link not found in mail");
+  return decodeURIComponent(match[1]);
+}
+
+Deno.test({
+  name: "Email Verification Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    const outbox = new OutboxTransport();
+    mailService.setTransport(outbox);
+
+    let testUser: User;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("should send a verification mail on register", async () => {
+      const ctx = createMockContext({
+        username: "testuser",
+        email: "test@example.com",
+        password: "Tulip-Harbor-Ferry-92",
+      }) as unknown as Context;
+
+      await register(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 201);
+      assertEquals(responseData.data?.user?.emailVerified, false);
+      assertExists(outbox.lastMessageTo("test@example.com"));
+
+      const createdUser = await userService.findByUsername("testuser");
+      assertExists(createdUser);
+      assertEquals(createdUser.emailVerified, false);
+      testUser = createdUser;
+    });
+
+    await t.step("should block 2FA setup while unverified", async () => {
+      const ctx = createMockContext<"/api/:userId/2fa/setup">(
+        undefined,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+      let nextCalled = false;
+
+      await requireVerifiedEmail("2fa")(ctx as unknown as Context, () => {
+        nextCalled = true;
+        return Promise.resolve();
+      });
+
+      assertEquals(nextCalled, false);
+      assertEquals(ctx.response.status, 403);
+    });
+
+    await t.step("should resend a fresh link", async () => {
+      await RateLimiter.resetAttempts(
+        "verify:127.0.0.1",
+        `verify:${testUser.userId}`,
+      );
+      const firstToken = tokenFromMail(
+        outbox.lastMessageTo("test@example.com")!.text,
+      );
+
+      const ctx = createMockContext<"/api/:userId/email/verify/resend">(
+        undefined,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+      await resendVerification(ctx);
+
+      assertEquals(ctx.response.status, 200);
+
+      const staleCtx = createMockContext({
+        token: firstToken,
+      }) as unknown as Context;
+      await verifyEmail(staleCtx);
+      assertEquals(staleCtx.response.status, 400);
+    });
+
+    await t.step("should reject an unknown token", async () => {
+      const ctx = createMockContext({
+        token: "not-a-real-token",
+      }) as unknown as Context;
+
+      await verifyEmail(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "Invalid or expired verification token");
+    });
+
+    await t.step("should verify the email with the latest link", async () => {
+      const token = tokenFromMail(
+        outbox.lastMessageTo("test@example.com")!.text,
+      );
+      const ctx = createMockContext({ token }) as unknown as Context;
+
+      await verifyEmail(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      const updated = await userService.findById(testUser.userId);
+      assertEquals(updated?.emailVerified, true);
+    });
+
+    await t.step("should allow 2FA setup once verified", async () => {
+      const ctx = createMockContext<"/api/:userId/2fa/setup">(
+        undefined,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+      let nextCalled = false;
+
+      await requireVerifiedEmail("2fa")(ctx as unknown as Context, () => {
+        nextCalled = true;
+        return Promise.resolve();
+      });
+
+      assertEquals(nextCalled, true);
+    });
+
+    await t.step("should not resend once verified", async () => {
+      const ctx = createMockContext<"/api/:userId/email/verify/resend">(
+        undefined,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await resendVerification(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "Email is already verified");
+    });
+
+    await t.step("cleanup: delete test user and close connection", async () => {
+      if (testUser) {
+        await userService.deleteUser(
+          testUser.userId,
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
+        );
+        await closeDatabaseConnection();
+      }
+    });
+  },
+});
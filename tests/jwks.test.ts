@@ -0,0 +1,103 @@
+import {
+  assert,
+  assertEquals,
+  assertExists,
+  assertNotEquals,
+} from "@std/assert";
+import { Context } from "@oak/oak";
+import { decodeProtectedHeader, JWK } from "@panva/jose";
+import { getJwks } from "../src/controllers/jwks.ts";
+import { keyService } from "../src/services/keys.ts";
+import { RedisManager } from "../src/services/redis.ts";
+import { tokenService } from "../src/services/token.ts";
+import { User } from "../src/models/user.ts";
+
+const createMockContext = (): Context =>
+  ({
+    request: {
+      headers: new Headers(),
+    },
+    response: {
+      status: 0,
+      body: undefined,
+      headers: new Headers(),
+    },
+    state: {},
+  }) as unknown as Context;
+
+const testUser: User = {
+  userId: crypto.randomUUID(),
+  username: "jwksuser",
+  passwordHash: "",
+  createdAt: new Date(),
+  email: "jwks@example.com",
+  twoFactorEnabled: false,
+};
+
+Deno.test({
+  name: "JWKS Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    let firstAccessToken: string;
+    let firstKid: string;
+
+    await t.step("should sign tokens with a kid header", async () => {
+      const tokenPair = await tokenService.generateTokenPair(testUser);
+      firstAccessToken = tokenPair.accessToken;
+
+      const header = decodeProtectedHeader(firstAccessToken);
+      assertExists(header.kid);
+      assert(header.alg === "ES256" || header.alg === "EdDSA");
+      firstKid = header.kid;
+    });
+
+    await t.step("should publish public keys only", async () => {
+      const ctx = createMockContext();
+      await getJwks(ctx);
+      const body = ctx.response.body as { keys: JWK[] };
+
+      assertEquals(ctx.response.status, 200);
+      assert(body.keys.some((key) => key.kid === firstKid));
+      for (const key of body.keys) {
+        assertEquals(key.d, undefined, "Private key material leaked");
+        assertEquals(key.use, "sig");
+      }
+    });
+
+    await t.step("should only store private keys encrypted", async () => {
+      const stored = JSON.parse((await RedisManager.getSigningKeys())!);
+
+      for (const record of stored) {
+        assertEquals(record.privateJwk, undefined);
+        assertExists(record.encryptedPrivateJwk);
+        assertEquals(record.encryptedPrivateJwk.includes('"d"'), false);
+      }
+    });
+
+    await t.step(
+      "should publish the next key before signing with it",
+      async () => {
+        const records = await keyService.rotate();
+        const staged = records[records.length - 1];
+
+        const tokenPair = await tokenService.generateTokenPair(testUser);
+        const header = decodeProtectedHeader(tokenPair.accessToken);
+        assertEquals(header.kid, firstKid);
+        assertNotEquals(staged.kid, firstKid);
+
+        const payload = await tokenService.verifyToken(firstAccessToken);
+        assertEquals(payload.userId, testUser.userId);
+
+        const ctx = createMockContext();
+        await getJwks(ctx);
+        const kids = (ctx.response.body as { keys: JWK[] }).keys.map((key) =>
+          key.kid
+        );
+        assert(kids.includes(firstKid));
+        assert(kids.includes(staged.kid));
+      },
+    );
+  },
+});
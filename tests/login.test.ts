@@ -1,4 +1,5 @@
-import { assertEquals, assertExists } from "@std/assert";
+import { assertEquals, assertExists, assertNotEquals } from "@std/assert";
+import * as argon2 from "@felix/argon2";
 import { Context } from "@oak/oak";
 import { User } from "../src/models/user.ts";
 import {
@@ -7,6 +8,7 @@ import {
   withTwoFactor,
 } from "../src/controllers/login.ts";
 import { Response } from "../src/utils/response.ts";
+import { verifyPassword } from "../src/services/password.ts";
 import { initializeServices, userService } from "../src/config/serviceSetup.ts";
 import * as OTPAuth from "@hectorm/otpauth";
 import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
@@ -32,6 +34,8 @@ const createMockContext = (
         value: body,
         json: () => Promise.resolve(body),
       },
+      ip: "127.0.0.1",
+      headers: new Headers(),
     },
     response: new Response(),
     state: {},
@@ -56,6 +60,8 @@ Deno.test({
 
     let testUser: User;
     let totp: OTPAuth.TOTP | undefined;
+    let recoveryCodes: string[] = [];
+    let usedTotpCode = "";
 
     await t.step("setup: initialize mongodb", async () => {
       try {
@@ -71,7 +77,7 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "test@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
@@ -87,7 +93,7 @@ Deno.test({
     await t.step("should return 401 for non-existent user", async () => {
       const ctx = createMockContext({
         username: "nonexistent",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
       await login(ctx);
       assertEquals(ctx.response.status, 401);
@@ -117,7 +123,7 @@ Deno.test({
         const ctx = createMockContext(
           {
             username: "testuser",
-            password: "Test123!@#$",
+            password: "Tulip-Harbor-Ferry-92",
           },
           cookies,
         );
@@ -133,6 +139,32 @@ Deno.test({
       },
     );
 
+    await t.step("should upgrade an outdated password hash", async () => {
+      const users = (await connectToDb()).db().collection("users");
+      const outdatedHash = await argon2.hash("Tulip-Harbor-Ferry-92", {
+        memoryCost: 19 * 1024,
+        timeCost: 2,
+      });
+      await users.updateOne(
+        { userId: testUser.userId },
+        { $set: { passwordHash: outdatedHash } },
+      );
+
+      const ctx = createMockContext({
+        username: "testuser",
+        password: "Tulip-Harbor-Ferry-92",
+      });
+      await login(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      const upgraded = await userService.findById(testUser.userId);
+      assertNotEquals(upgraded?.passwordHash, outdatedHash);
+      assertEquals(
+        await verifyPassword(upgraded!.passwordHash, "Tulip-Harbor-Ferry-92"),
+        { valid: true, needsRehash: false },
+      );
+    });
+
     // Test 2FA flow
     await t.step("should handle 2FA enabled user", async () => {
       const twoFactorSetup = await userService.enableTwoFactor(testUser.userId);
@@ -154,13 +186,14 @@ Deno.test({
         twoFactorSetup.secret,
       );
       assertExists(setupResult.recoveryCodes, "Should get recovery codes");
+      recoveryCodes = setupResult.recoveryCodes;
       const updatedUser = await userService.findById(testUser.userId);
       assertExists(updatedUser, "User should exist after 2FA setup");
       testUser = updatedUser;
 
       const ctx = createMockContext({
         username: "testuser",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await login(ctx);
@@ -176,7 +209,7 @@ Deno.test({
 
       const loginCtx = createMockContext({
         username: "testuser",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await login(loginCtx);
@@ -184,6 +217,7 @@ Deno.test({
       assertExists(loginResponse.data?.tempToken, "Should have temp token");
 
       const totpCode = totp.generate();
+      usedTotpCode = totpCode;
       const cookies: Record<string, string> = {};
       const verifyCtx = createMockContext(
         {
@@ -203,10 +237,33 @@ Deno.test({
       assertExists(cookies["refreshToken"]);
     });
 
+    await t.step("should reject a replayed 2FA code", async () => {
+      const loginCtx = createMockContext({
+        username: "testuser",
+        password: "Tulip-Harbor-Ferry-92",
+      });
+
+      await login(loginCtx);
+      const loginResponse = loginCtx.response.body as ResponseData;
+      assertExists(loginResponse.data?.tempToken);
+
+      const verifyCtx = createMockContext({
+        tempToken: loginResponse.data?.tempToken,
+        totpCode: usedTotpCode,
+      });
+
+      await withTwoFactor(verifyCtx);
+      assertEquals(verifyCtx.response.status, 401);
+      assertEquals(
+        (verifyCtx.response.body as ResponseData).error,
+        "Invalid 2FA code",
+      );
+    });
+
     await t.step("should reject invalid 2FA code", async () => {
       const loginCtx = createMockContext({
         username: "testuser",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await login(loginCtx);
@@ -229,7 +286,7 @@ Deno.test({
     await t.step("should authenticate with valid recovery code", async () => {
       const loginCtx = createMockContext({
         username: "testuser",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await login(loginCtx);
@@ -242,7 +299,12 @@ Deno.test({
         updatedUser?.recoveryCodes,
         "User should have recovery codes.",
       );
-      const recoveryCode = updatedUser!.recoveryCodes[0];
+      const recoveryCode = recoveryCodes[0];
+      assertEquals(
+        updatedUser!.recoveryCodes.includes(recoveryCode),
+        false,
+        "Recovery codes should only be stored hashed",
+      );
 
       const cookies: Record<string, string> = {};
       const verifyCtx = createMockContext(
@@ -266,7 +328,7 @@ Deno.test({
     await t.step("should reject invalid recovery code", async () => {
       const loginCtx = createMockContext({
         username: "testuser",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await login(loginCtx);
@@ -286,12 +348,49 @@ Deno.test({
       );
     });
 
+    await t.step(
+      "should revoke the temp token after repeated failures",
+      async () => {
+        assertExists(totp, "TOTP should be initialized");
+
+        const loginCtx = createMockContext({
+          username: "testuser",
+          password: "Tulip-Harbor-Ferry-92",
+        });
+
+        await login(loginCtx);
+        const loginResponse = loginCtx.response.body as ResponseData;
+        assertExists(loginResponse.data?.tempToken);
+        const tempToken = loginResponse.data?.tempToken;
+
+        for (let i = 0; i < 3; i++) {
+          const verifyCtx = createMockContext({
+            tempToken,
+            totpCode: "000000",
+          });
+          await withTwoFactor(verifyCtx);
+          assertEquals(verifyCtx.response.status, 401);
+        }
+
+        const verifyCtx = createMockContext({
+          tempToken,
+          totpCode: totp.generate(),
+        });
+        await withTwoFactor(verifyCtx);
+        assertEquals(verifyCtx.response.status, 401);
+        assertEquals(
+          (verifyCtx.response.body as ResponseData).error,
+          "Invalid or expired 2FA session",
+        );
+      },
+    );
+
     await t.step("cleanup: delete test user", async () => {
       if (testUser) {
         await userService.deleteUser(
           testUser.userId,
-          "Test123!@#$",
-          "Test123!@#$",
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
           totp ? totp.generate() : undefined,
         );
       }
@@ -2,6 +2,7 @@ import { assertEquals, assertExists } from "@std/assert";
 import { Context } from "@oak/oak";
 import { logout } from "../src/controllers/logout.ts";
 import { login } from "../src/controllers/login.ts";
+import { authMiddleware } from "../src/middleware/auth.ts";
 import { Response } from "../src/utils/response.ts";
 import { tokenService } from "../src/services/token.ts";
 import { User } from "../src/models/user.ts";
@@ -14,6 +15,10 @@ interface ResponseData {
       accessToken: string;
       refreshToken: string;
     };
+    tokens?: {
+      accessToken: string;
+      refreshToken: string;
+    };
     user?: { username: string };
     requireTwoFactor?: boolean;
     tempToken?: string;
@@ -25,15 +30,18 @@ interface ResponseData {
 const createMockContext = (
   body: unknown | null = null,
   cookies: Record<string, string> = {},
+  headers: Record<string, string> = {},
 ): Context =>
   ({
     request: {
       body: body
         ? {
-            value: body,
-            json: () => Promise.resolve(body),
-          }
+          value: body,
+          json: () => Promise.resolve(body),
+        }
         : undefined,
+      ip: "127.0.0.1",
+      headers: new Headers(headers),
     },
     response: new Response(),
     state: {},
@@ -71,7 +79,7 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "test@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
@@ -82,7 +90,7 @@ Deno.test({
       const loginCtx = createMockContext(
         {
           username: "testuser",
-          password: "Test123!@#$",
+          password: "Tulip-Harbor-Ferry-92",
         },
         loginCookies,
       );
@@ -99,6 +107,78 @@ Deno.test({
       assertEquals(ctx.response.status, 200);
     });
 
+    await t.step("should revoke a bearer token from token mode", async () => {
+      const loginCookies: Record<string, string> = {};
+      const loginCtx = createMockContext(
+        {
+          username: "testuser",
+          password: "Tulip-Harbor-Ferry-92",
+          mode: "token",
+        },
+        loginCookies,
+      );
+
+      await login(loginCtx);
+      const tokens = (loginCtx.response.body as ResponseData).data?.tokens;
+
+      assertExists(tokens);
+      assertEquals(loginCookies, {});
+
+      const headers = { Authorization: `Bearer ${tokens.accessToken}` };
+      const ctx = createMockContext(null, {}, headers);
+      await authMiddleware(ctx, () => Promise.resolve());
+      assertEquals(ctx.state.credential, "bearer");
+
+      await logout(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      const afterCtx = createMockContext(null, {}, headers);
+      let nextCalled = false;
+      await authMiddleware(afterCtx, () => {
+        nextCalled = true;
+        return Promise.resolve();
+      });
+
+      assertEquals(nextCalled, false);
+      assertEquals(afterCtx.response.status, 401);
+    });
+
+    await t.step("should not accept a refresh token as access", async () => {
+      const tokens = await tokenService.generateTokenPair(testUser);
+      const ctx = createMockContext(null, {}, {
+        Authorization: `Bearer ${tokens.refreshToken}`,
+      });
+      let nextCalled = false;
+
+      await authMiddleware(ctx, () => {
+        nextCalled = true;
+        return Promise.resolve();
+      });
+
+      assertEquals(nextCalled, false);
+      assertEquals(ctx.response.status, 401);
+    });
+
+    await t.step("should not accept a 2FA temp token as access", async () => {
+      const tempToken = await tokenService.generateTempToken(
+        testUser.userId,
+        "5m",
+        false,
+      );
+      const ctx = createMockContext(null, {}, {
+        Authorization: `Bearer ${tempToken}`,
+      });
+      let nextCalled = false;
+
+      await authMiddleware(ctx, () => {
+        nextCalled = true;
+        return Promise.resolve();
+      });
+
+      assertEquals(nextCalled, false);
+      assertEquals(ctx.response.status, 401);
+    });
+
     await t.step(
       "should return unauthorized when no tokens are present",
       async () => {
@@ -149,8 +229,8 @@ Deno.test({
       if (testUser) {
         await userService.deleteUser(
           testUser.userId,
-          "Test123!@#$",
-          "Test123!@#$",
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
         );
         await closeDatabaseConnection();
       }
@@ -0,0 +1,73 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import {
+  createTransport,
+  HttpTransport,
+  OutboxTransport,
+} from "../src/services/mail.ts";
+
+function withEnv(vars: Record<string, string | undefined>, fn: () => void) {
+  const previous = Object.fromEntries(
+    Object.keys(vars).map((name) => [name, Deno.env.get(name)]),
+  );
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) {
+        Deno.env.delete(name);
+      } else {
+        Deno.env.set(name, value);
+      }
+    }
+  };
+
+  apply(vars);
+  try {
+    fn();
+  } finally {
+    apply(previous);
+  }
+}
+
+Deno.test({
+  name: "Mail Transport Tests",
+
+  async fn(t) {
+    await t.step("should refuse to start in production without a relay", () => {
+      withEnv({ ENV: "PROD", MAIL_RELAY_URL: undefined }, () => {
+        assertThrows(
+          () => createTransport(),
+          Error,
+          "MAIL_RELAY_URL must be set in production",
+        );
+      });
+    });
+
+    await t.step("should use the relay when one is configured", () => {
+      withEnv(
+        { ENV: "PROD", MAIL_RELAY_URL: "https://mail.example.com/send" },
+        () => {
+          assertInstanceOf(createTransport(), HttpTransport);
+        },
+      );
+    });
+
+    await t.step("should keep mail in memory outside production", () => {
+      withEnv({ ENV: "DEV", MAIL_RELAY_URL: undefined }, () => {
+        assertInstanceOf(createTransport(), OutboxTransport);
+      });
+    });
+
+    await t.step("should only keep the latest messages", async () => {
+      const outbox = new OutboxTransport();
+      for (let i = 0; i <= OutboxTransport.LIMIT; i++) {
+        await outbox.send({
+          to: `user${i}@example.com`,
+          subject: "Hello",
+          text: "Hi",
+        });
+      }
+
+      assertEquals(outbox.messages.length, OutboxTransport.LIMIT);
+      assertEquals(outbox.lastMessageTo("user0@example.com"), undefined);
+    });
+  },
+});
@@ -98,7 +98,7 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "test@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
@@ -117,8 +117,8 @@ Deno.test({
     await t.step(
       "should return unauthorized when no user in state",
       async () => {
-        const ctx = createMockRouterContext<"/api/:userId/notes">(
-          `http://localhost/api/${testUser.userId}/notes?q=test`,
+        const ctx = createMockRouterContext<"/api/:userId/notes/search">(
+          `http://localhost/api/${testUser.userId}/notes/search?q=test`,
         );
         await searchNotes(ctx);
         const responseData = ctx.response.body as ResponseData;
@@ -128,8 +128,8 @@ Deno.test({
     );
 
     await t.step("should return notes for valid user", async () => {
-      const ctx = createMockRouterContext<"/api/:userId/notes">(
-        `http://localhost/api/${testUser.userId}/notes?q=Test`,
+      const ctx = createMockRouterContext<"/api/:userId/notes/search">(
+        `http://localhost/api/${testUser.userId}/notes/search?q=Test`,
         { user: { userId: testUser.userId } },
         "GET",
         {},
@@ -142,6 +142,18 @@ Deno.test({
       assertEquals(responseData.data?.notes?.[0]?.noteName, "Test Note");
     });
 
+    await t.step("should not search another user's notes", async () => {
+      const ctx = createMockRouterContext<"/api/:userId/notes/search">(
+        `http://localhost/api/someone-else/notes/search?q=Test`,
+        { user: { userId: testUser.userId } },
+        "GET",
+        {},
+        { userId: "someone-else" },
+      );
+      await searchNotes(ctx);
+      assertEquals(ctx.response.status, 403);
+    });
+
     await t.step("should create a note for valid user", async () => {
       const ctx = createMockRouterContext<"/api/:userId/notes/create">(
         `http://localhost/api/${testUser.userId}/notes/create`,
@@ -503,8 +515,8 @@ Deno.test({
         if (testUser) {
           await userService.deleteUser(
             testUser.userId,
-            "Test123!@#$",
-            "Test123!@#$",
+            "Tulip-Harbor-Ferry-92",
+            "Tulip-Harbor-Ferry-92",
           );
         }
         await closeDatabaseConnection();
@@ -0,0 +1,429 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { RouterContext } from "@oak/oak";
+import { exportJWK, generateKeyPair, SignJWT } from "@panva/jose";
+import {
+  oidcAuthorize,
+  oidcCallback,
+  oidcLinkAuthorize,
+} from "../src/controllers/oidc.ts";
+import { Response } from "../src/utils/response.ts";
+import { pkceChallenge } from "../src/utils/crypto.ts";
+import { User } from "../src/models/user.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: {
+    authorizationUrl?: string;
+    user?: { username: string; email: string };
+    linked?: string;
+  };
+  error?: string;
+}
+
+type OidcPath =
+  | "/api/auth/oidc/:provider/authorize"
+  | "/api/auth/oidc/:provider/callback"
+  | "/api/:userId/identities/:provider/authorize";
+
+function createMockContext<T extends OidcPath>(
+  provider: string,
+  query: Record<string, string> = {},
+  cookies: Record<string, string> = {},
+  userId?: string,
+): RouterContext<T> {
+  const url = new URL(`http://localhost/api/auth/oidc/${provider}/callback`);
+  url.search = new URLSearchParams(query).toString();
+
+  return {
+    request: {
+      url,
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: {},
+    params: { provider, userId },
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  } as unknown as RouterContext<T>;
+}
+
+// Just enough of an OpenID provider for the authorization code flow: codes
+// are handed out by the test instead of a login page.
+async function startMockIssuer(clientId: string) {
+  const { publicKey, privateKey } = await generateKeyPair("ES256");
+  const jwk = {
+    ...(await exportJWK(publicKey)),
+    kid: "mock-key",
+    alg: "ES256",
+  };
+  const codes = new Map<
+    string,
+    { challenge: string; claims: Record<string, unknown> }
+  >();
+  let issuer = "";
+
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+    async (request) => {
+      const { pathname } = new URL(request.url);
+
+      if (pathname === "/.well-known/openid-configuration") {
+        return globalThis.Response.json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+        });
+      }
+
+      if (pathname === "/jwks") {
+        return globalThis.Response.json({ keys: [jwk] });
+      }
+
+      if (pathname === "/token" && request.method === "POST") {
+        const form = new URLSearchParams(await request.text());
+        const grant = codes.get(form.get("code") ?? "");
+        codes.delete(form.get("code") ?? "");
+
+        if (
+          !grant || form.get("client_id") !== clientId ||
+          (await pkceChallenge(form.get("code_verifier") ?? "")) !==
+            grant.challenge
+        ) {
+          return globalThis.Response.json({ error: "invalid_grant" }, {
+            status: 400,
+          });
+        }
+
+        const idToken = await new SignJWT(grant.claims)
+          .setProtectedHeader({ alg: "ES256", kid: "mock-key" })
+          .setIssuer(issuer)
+          .setAudience(clientId)
+          .setIssuedAt()
+          .setExpirationTime("5m")
+          .sign(privateKey);
+
+        return globalThis.Response.json({
+          id_token: idToken,
+          token_type: "Bearer",
+        });
+      }
+
+      return new globalThis.Response("Not found", { status: 404 });
+    },
+  );
+  issuer = `http://127.0.0.1:${server.addr.port}`;
+
+  return {
+    issuer,
+    server,
+    issueCode: (authorizationUrl: string, claims: Record<string, unknown>) => {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = crypto.randomUUID();
+      codes.set(code, {
+        challenge: params.get("code_challenge")!,
+        claims: { ...claims, nonce: params.get("nonce") },
+      });
+      return { code, state: params.get("state")! };
+    },
+  };
+}
+
+Deno.test({
+  name: "OIDC Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    const issuer = await startMockIssuer("tuno-test-client");
+
+    Deno.env.set("OIDC_PROVIDERS", "mock");
+    Deno.env.set("OIDC_MOCK_ISSUER", issuer.issuer);
+    Deno.env.set("OIDC_MOCK_CLIENT_ID", "tuno-test-client");
+    Deno.env.set(
+      "OIDC_MOCK_REDIRECT_URI",
+      "http://localhost:3000/auth/callback/mock",
+    );
+
+    let passwordUser: User;
+    let oidcUserId: string;
+
+    // The browser that starts the flow keeps the state cookie for the
+    // callback.
+    let cookies: Record<string, string> = {};
+
+    async function authorize(): Promise<string> {
+      cookies = {};
+      const ctx = createMockContext<"/api/auth/oidc/:provider/authorize">(
+        "mock",
+        {},
+        cookies,
+      );
+      await oidcAuthorize(ctx);
+      const url = (ctx.response.body as ResponseData).data?.authorizationUrl;
+      assertExists(url);
+      return url;
+    }
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create password user", async () => {
+      passwordUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      assertExists(passwordUser);
+    });
+
+    await t.step("should reject an unknown provider", async () => {
+      const ctx = createMockContext<"/api/auth/oidc/:provider/authorize">(
+        "nope",
+      );
+
+      await oidcAuthorize(ctx);
+
+      assertEquals(ctx.response.status, 404);
+    });
+
+    await t.step("should build a PKCE authorization url", async () => {
+      const url = new URL(await authorize());
+
+      assertEquals(url.origin, issuer.issuer);
+      assertEquals(url.searchParams.get("code_challenge_method"), "S256");
+      assertExists(url.searchParams.get("state"));
+      assertExists(url.searchParams.get("nonce"));
+    });
+
+    await t.step("should create a new user on first sign-in", async () => {
+      const { code, state } = issuer.issueCode(await authorize(), {
+        sub: "mock-user-1",
+        email: "social@example.com",
+        email_verified: true,
+        preferred_username: "socialuser",
+      });
+      const ctx = createMockContext<"/api/auth/oidc/:provider/callback">(
+        "mock",
+        { code, state },
+        cookies,
+      );
+
+      await oidcCallback(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.user?.username, "socialuser");
+      assertExists(cookies["accessToken"]);
+
+      const created = await userService.findByEmail("social@example.com");
+      assertExists(created);
+      assertEquals(created.identities?.[0].subject, "mock-user-1");
+      assertEquals(created.passwordless, true);
+      oidcUserId = created.userId;
+    });
+
+    await t.step("should sign the same identity back in", async () => {
+      const { code, state } = issuer.issueCode(await authorize(), {
+        sub: "mock-user-1",
+        email: "social@example.com",
+        email_verified: true,
+      });
+      const ctx = createMockContext<"/api/auth/oidc/:provider/callback">(
+        "mock",
+        { code, state },
+        cookies,
+      );
+
+      await oidcCallback(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      const user = await userService.findByEmail("social@example.com");
+      assertEquals(user?.userId, oidcUserId);
+    });
+
+    await t.step(
+      "should refuse to link an unverified email to an existing account",
+      async () => {
+        const { code, state } = issuer.issueCode(await authorize(), {
+          sub: "mock-user-2",
+          email: "test@example.com",
+          email_verified: false,
+        });
+        const ctx = createMockContext<"/api/auth/oidc/:provider/callback">(
+          "mock",
+          { code, state },
+          cookies,
+        );
+
+        await oidcCallback(ctx);
+
+        assertEquals(ctx.response.status, 401);
+        const user = await userService.findById(passwordUser.userId);
+        assertEquals(user?.identities, undefined);
+      },
+    );
+
+    await t.step(
+      "should not link to an account whose email was never verified",
+      async () => {
+        const { code, state } = issuer.issueCode(await authorize(), {
+          sub: "mock-user-2",
+          email: "test@example.com",
+          email_verified: true,
+        });
+        const ctx = createMockContext<"/api/auth/oidc/:provider/callback">(
+          "mock",
+          { code, state },
+          cookies,
+        );
+
+        await oidcCallback(ctx);
+
+        assertEquals(ctx.response.status, 401);
+        const user = await userService.findById(passwordUser.userId);
+        assertEquals(user?.identities, undefined);
+      },
+    );
+
+    await t.step("setup: verify the password user's email", async () => {
+      const client = await connectToDb();
+      await client.db().collection("users").updateOne(
+        { userId: passwordUser.userId },
+        { $set: { emailVerified: true } },
+      );
+    });
+
+    await t.step(
+      "should link a verified email to an existing account",
+      async () => {
+        const { code, state } = issuer.issueCode(await authorize(), {
+          sub: "mock-user-2",
+          email: "test@example.com",
+          email_verified: true,
+        });
+        const ctx = createMockContext<"/api/auth/oidc/:provider/callback">(
+          "mock",
+          { code, state },
+          cookies,
+        );
+
+        await oidcCallback(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 200);
+        assertEquals(responseData.data?.user?.username, "testuser");
+        const user = await userService.findById(passwordUser.userId);
+        assertEquals(user?.identities?.[0].subject, "mock-user-2");
+      },
+    );
+
+    await t.step(
+      "should not complete a sign-in started in another browser",
+      async () => {
+        const { code, state } = issuer.issueCode(await authorize(), {
+          sub: "mock-user-1",
+          email: "social@example.com",
+          email_verified: true,
+        });
+        const ctx = createMockContext<"/api/auth/oidc/:provider/callback">(
+          "mock",
+          { code, state },
+        );
+
+        await oidcCallback(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 401);
+        assertEquals(responseData.error, "Invalid or expired sign-in state");
+      },
+    );
+
+    await t.step(
+      "should link a provider to the signed-in account on request",
+      async () => {
+        cookies = {};
+        const start = createMockContext<
+          "/api/:userId/identities/:provider/authorize"
+        >("mock", {}, cookies, oidcUserId);
+        await oidcLinkAuthorize(start);
+        const url = (start.response.body as ResponseData).data
+          ?.authorizationUrl;
+        assertExists(url);
+
+        const { code, state } = issuer.issueCode(url, {
+          sub: "mock-user-3",
+          email: "other@example.com",
+          email_verified: false,
+        });
+        const ctx = createMockContext<"/api/auth/oidc/:provider/callback">(
+          "mock",
+          { code, state },
+          cookies,
+        );
+
+        await oidcCallback(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 200);
+        assertEquals(responseData.data?.linked, "mock");
+        assertEquals(cookies["accessToken"], undefined);
+        const user = await userService.findById(oidcUserId);
+        assertEquals(user?.identities?.[1].subject, "mock-user-3");
+      },
+    );
+
+    await t.step("should not accept a used state", async () => {
+      const { code, state } = issuer.issueCode(await authorize(), {
+        sub: "mock-user-1",
+        email: "social@example.com",
+        email_verified: true,
+      });
+      const first = createMockContext<"/api/auth/oidc/:provider/callback">(
+        "mock",
+        { code, state },
+        { ...cookies },
+      );
+      await oidcCallback(first);
+      assertEquals(first.response.status, 200);
+
+      const replay = createMockContext<"/api/auth/oidc/:provider/callback">(
+        "mock",
+        { code, state },
+        { ...cookies },
+      );
+      await oidcCallback(replay);
+      const responseData = replay.response.body as ResponseData;
+
+      assertEquals(replay.response.status, 401);
+      assertEquals(responseData.error, "Invalid or expired sign-in state");
+    });
+
+    await t.step(
+      "cleanup: delete test users and close connection",
+      async () => {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await issuer.server.shutdown();
+        await closeDatabaseConnection();
+      },
+    );
+  },
+});
@@ -0,0 +1,400 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { Context, RouterContext } from "@oak/oak";
+import { base64url } from "@panva/jose";
+import {
+  deletePasskey,
+  listPasskeys,
+  passkeyLogin,
+  passkeyLoginOptions,
+  passkeyRegistrationOptions,
+  passkeyRegistrationVerify,
+  renamePasskey,
+} from "../src/controllers/passkey.ts";
+import { Response } from "../src/utils/response.ts";
+import { webauthnConfig } from "../src/utils/webauthn.ts";
+import { RateLimiter } from "../src/utils/rateLimiter.ts";
+import { User } from "../src/models/user.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+
+interface ResponseData {
+  data?: {
+    options?: { challenge: string };
+    challengeId?: string;
+    passkey?: { credentialId: string; name: string };
+    passkeys?: { credentialId: string; name: string }[];
+    user?: { username: string };
+  };
+  error?: string;
+}
+
+function createMockContext<T extends string>(
+  body: unknown = undefined,
+  state: Record<string, unknown> = {},
+  params: Record<string, string> = {},
+  cookies: Record<string, string> = {},
+): RouterContext<T> {
+  return {
+    request: {
+      body: {
+        has: body !== undefined,
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state,
+    params,
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  } as unknown as RouterContext<T>;
+}
+
+type CborValue = number | string | Uint8Array | Map<CborValue, CborValue>;
+
+function cborHead(major: number, length: number): number[] {
+  if (length < 24) return [(major << 5) | length];
+  if (length < 256) return [(major << 5) | 24, length];
+  return [(major << 5) | 25, length >> 8, length & 0xff];
+}
+
+function cbor(value: CborValue): Uint8Array<ArrayBuffer> {
+  if (typeof value === "number") {
+    return new Uint8Array(
+      value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value),
+    );
+  }
+  if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    return concat(new Uint8Array(cborHead(3, bytes.length)), bytes);
+  }
+  if (value instanceof Uint8Array) {
+    return concat(new Uint8Array(cborHead(2, value.length)), value);
+  }
+  const parts = [new Uint8Array(cborHead(5, value.size))];
+  for (const [key, item] of value) {
+    parts.push(cbor(key), cbor(item));
+  }
+  return concat(...parts);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function sha256(
+  data: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+// WebCrypto signs ECDSA as r || s; WebAuthn wants an ASN.1 DER sequence
+function toDer(signature: Uint8Array): Uint8Array<ArrayBuffer> {
+  const integer = (bytes: Uint8Array) => {
+    let i = 0;
+    while (i < bytes.length - 1 && bytes[i] === 0) i++;
+    let trimmed = bytes.slice(i);
+    if (trimmed[0] & 0x80) trimmed = concat(new Uint8Array([0]), trimmed);
+    return concat(new Uint8Array([0x02, trimmed.length]), trimmed);
+  };
+  const body = concat(
+    integer(signature.slice(0, 32)),
+    integer(signature.slice(32)),
+  );
+  return concat(new Uint8Array([0x30, body.length]), body);
+}
+
+// Minimal platform authenticator: "none" attestation and ES256 assertions
+class SoftwareAuthenticator {
+  credentialId = crypto.getRandomValues(new Uint8Array(16));
+  private keys?: CryptoKeyPair;
+  private counter = 0;
+
+  constructor(private rpId: string, private origin: string) {}
+
+  private clientData(type: string, challenge: string) {
+    return new TextEncoder().encode(JSON.stringify({
+      type,
+      challenge,
+      origin: this.origin,
+      crossOrigin: false,
+    }));
+  }
+
+  async create(challenge: string) {
+    this.keys = await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    );
+    const jwk = await crypto.subtle.exportKey("jwk", this.keys.publicKey);
+    const coseKey = cbor(
+      new Map<CborValue, CborValue>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, base64url.decode(jwk.x!)],
+        [-3, base64url.decode(jwk.y!)],
+      ]),
+    );
+    const authData = concat(
+      await sha256(new TextEncoder().encode(this.rpId)),
+      new Uint8Array([0x45, 0, 0, 0, 0]),
+      new Uint8Array(16),
+      new Uint8Array([0, this.credentialId.length]),
+      this.credentialId,
+      coseKey,
+    );
+    const attestationObject = cbor(
+      new Map<CborValue, CborValue>([
+        ["fmt", "none"],
+        ["attStmt", new Map()],
+        ["authData", authData],
+      ]),
+    );
+    const id = base64url.encode(this.credentialId);
+
+    return {
+      id,
+      rawId: id,
+      type: "public-key" as const,
+      response: {
+        clientDataJSON: base64url.encode(
+          this.clientData("webauthn.create", challenge),
+        ),
+        attestationObject: base64url.encode(attestationObject),
+        transports: ["internal" as const],
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  async get(challenge: string) {
+    this.counter++;
+    const authData = concat(
+      await sha256(new TextEncoder().encode(this.rpId)),
+      new Uint8Array([
+        0x05,
+        (this.counter >> 24) & 0xff,
+        (this.counter >> 16) & 0xff,
+        (this.counter >> 8) & 0xff,
+        this.counter & 0xff,
+      ]),
+    );
+    const clientDataJSON = this.clientData("webauthn.get", challenge);
+    const signature = new Uint8Array(
+      await crypto.subtle.sign(
+        { name: "ECDSA", hash: "SHA-256" },
+        this.keys!.privateKey,
+        concat(authData, await sha256(clientDataJSON)),
+      ),
+    );
+    const id = base64url.encode(this.credentialId);
+
+    return {
+      id,
+      rawId: id,
+      type: "public-key" as const,
+      response: {
+        clientDataJSON: base64url.encode(clientDataJSON),
+        authenticatorData: base64url.encode(authData),
+        signature: base64url.encode(toDer(signature)),
+      },
+      clientExtensionResults: {},
+    };
+  }
+}
+
+Deno.test({
+  name: "Passkey Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    const authenticator = new SoftwareAuthenticator(
+      webauthnConfig.rpID,
+      webauthnConfig.origin,
+    );
+    let testUser: User;
+    let credentialId: string;
+    let usedChallengeId: string;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await RateLimiter.resetAttempts("127.0.0.1");
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test user", async () => {
+      const createdUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      assertExists(createdUser);
+      testUser = createdUser;
+    });
+
+    await t.step("should register a passkey", async () => {
+      const state = { user: { userId: testUser.userId } };
+      const params = { userId: testUser.userId };
+
+      const optionsCtx = createMockContext<
+        "/api/:userId/passkeys/register/options"
+      >(undefined, state, params);
+      await passkeyRegistrationOptions(optionsCtx);
+      const options = (optionsCtx.response.body as ResponseData).data?.options;
+      assertEquals(optionsCtx.response.status, 200);
+      assertExists(options);
+
+      const verifyCtx = createMockContext<
+        "/api/:userId/passkeys/register/verify"
+      >(
+        {
+          credential: await authenticator.create(options.challenge),
+          name: "Laptop",
+        },
+        state,
+        params,
+      );
+      await passkeyRegistrationVerify(verifyCtx);
+      const responseData = verifyCtx.response.body as ResponseData;
+
+      assertEquals(verifyCtx.response.status, 201);
+      assertEquals(responseData.data?.passkey?.name, "Laptop");
+      credentialId = responseData.data!.passkey!.credentialId;
+      assertEquals(credentialId, base64url.encode(authenticator.credentialId));
+    });
+
+    await t.step("should log in with the passkey", async () => {
+      const optionsCtx = createMockContext({ username: "testuser" });
+      await passkeyLoginOptions(optionsCtx as unknown as Context);
+      const optionsData = optionsCtx.response.body as ResponseData;
+      assertEquals(optionsCtx.response.status, 200);
+      usedChallengeId = optionsData.data!.challengeId!;
+
+      const cookies: Record<string, string> = {};
+      const ctx = createMockContext(
+        {
+          challengeId: usedChallengeId,
+          credential: await authenticator.get(
+            optionsData.data!.options!.challenge,
+          ),
+        },
+        {},
+        {},
+        cookies,
+      );
+      await passkeyLogin(ctx as unknown as Context);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.user?.username, "testuser");
+      assertExists(cookies["accessToken"]);
+      assertExists(cookies["refreshToken"]);
+    });
+
+    await t.step("should not accept a used challenge", async () => {
+      const ctx = createMockContext({
+        challengeId: usedChallengeId,
+        credential: await authenticator.get("replayed"),
+      });
+
+      await passkeyLogin(ctx as unknown as Context);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 401);
+      assertEquals(responseData.error, "Authentication challenge expired");
+      await RateLimiter.resetAttempts("127.0.0.1");
+    });
+
+    await t.step("should rename the passkey", async () => {
+      const ctx = createMockContext<"/api/:userId/passkeys/:credentialId">(
+        { name: "Work Laptop" },
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId, credentialId },
+      );
+
+      await renamePasskey(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      const listCtx = createMockContext<"/api/:userId/passkeys">(
+        undefined,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+      await listPasskeys(listCtx);
+      const responseData = listCtx.response.body as ResponseData;
+
+      assertEquals(responseData.data?.passkeys?.length, 1);
+      assertEquals(responseData.data?.passkeys?.[0].name, "Work Laptop");
+    });
+
+    await t.step(
+      "should return forbidden for another user's passkeys",
+      async () => {
+        const ctx = createMockContext<"/api/:userId/passkeys">(
+          undefined,
+          { user: { userId: "someone-else" } },
+          { userId: testUser.userId },
+        );
+
+        await authorize()(ctx, () => listPasskeys(ctx));
+
+        assertEquals(ctx.response.status, 403);
+      },
+    );
+
+    await t.step("should delete the passkey", async () => {
+      const ctx = createMockContext<"/api/:userId/passkeys/:credentialId">(
+        undefined,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId, credentialId },
+      );
+
+      await deletePasskey(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      const again = createMockContext<"/api/:userId/passkeys/:credentialId">(
+        undefined,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId, credentialId },
+      );
+      await deletePasskey(again);
+      assertEquals(again.response.status, 404);
+    });
+
+    await t.step("cleanup: delete test user and close connection", async () => {
+      if (testUser) {
+        await userService.deleteUser(
+          testUser.userId,
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
+        );
+        await closeDatabaseConnection();
+      }
+    });
+  },
+});
@@ -0,0 +1,223 @@
+import { assert, assertEquals, assertExists } from "@std/assert";
+import { Context } from "@oak/oak";
+import {
+  forgotPassword,
+  resetPassword,
+} from "../src/controllers/passwordReset.ts";
+import { Response } from "../src/utils/response.ts";
+import { mailService, OutboxTransport } from "../src/services/mail.ts";
+import { verifyPassword } from "../src/services/password.ts";
+import { RateLimiter } from "../src/utils/rateLimiter.ts";
+import { User } from "../src/models/user.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import {
+  initializeServices,
+  sessionService,
+  userService,
+} from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: {
+    message?: string;
+  };
+  error?: string;
+}
+
+const createMockContext = (body: unknown): Context =>
+  ({
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: {},
+  }) as unknown as Context;
+
+function tokenFromMail(text: string): string {
+  const match = text.match(/token=([^\s]+)/);
+  assertExists(match, "Reset link not found in mail");
+  return decodeURIComponent(match[1]);
+}
+
+Deno.test({
+  name: "Password Reset Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    const outbox = new OutboxTransport();
+    mailService.setTransport(outbox);
+
+    let testUser: User;
+    let resetToken: string;
+    const newPassword = "Reset456!@#$";
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await client.db().collection("sessions").deleteMany({});
+        await RateLimiter.resetAttempts(
+          "forgot:127.0.0.1",
+          "forgot:test@example.com",
+        );
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test user", async () => {
+      const createdUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      assertExists(createdUser);
+      testUser = createdUser;
+    });
+
+    await t.step(
+      "should give the same answer for an unknown email",
+      async () => {
+        const ctx = createMockContext({ email: "nobody@example.com" });
+
+        await forgotPassword(ctx);
+
+        assertEquals(ctx.response.status, 200);
+        assertEquals(outbox.lastMessageTo("nobody@example.com"), undefined);
+      },
+    );
+
+    await t.step("should email a reset link", async () => {
+      const ctx = createMockContext({ email: "test@example.com" });
+
+      await forgotPassword(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      const mail = outbox.lastMessageTo("test@example.com");
+      assertExists(mail);
+      resetToken = tokenFromMail(mail.text);
+    });
+
+    await t.step("should invalidate an older link", async () => {
+      const ctx = createMockContext({ email: "test@example.com" });
+      await forgotPassword(ctx);
+      const staleToken = resetToken;
+      resetToken = tokenFromMail(
+        outbox.lastMessageTo("test@example.com")!.text,
+      );
+
+      const resetCtx = createMockContext({
+        token: staleToken,
+        newPassword,
+      });
+      await resetPassword(resetCtx);
+      const responseData = resetCtx.response.body as ResponseData;
+
+      assertEquals(resetCtx.response.status, 400);
+      assertEquals(responseData.error, "Invalid or expired reset token");
+    });
+
+    await t.step("should reject a weak password", async () => {
+      const ctx = createMockContext({
+        token: resetToken,
+        newPassword: "weak",
+      });
+
+      await resetPassword(ctx);
+
+      assertEquals(ctx.response.status, 400);
+    });
+
+    await t.step(
+      "should keep the link when the password contains the username",
+      async () => {
+        const ctx = createMockContext({
+          token: resetToken,
+          newPassword: "Testuser-Example-7",
+        });
+
+        await resetPassword(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 400);
+        assertEquals(responseData.error, "Password is too weak");
+      },
+    );
+
+    await t.step(
+      "should reset the password and revoke sessions",
+      async () => {
+        const tokenPair = await sessionService.startSession(
+          testUser,
+          "127.0.0.1",
+          "Test Browser",
+        );
+        assertExists(tokenPair);
+        assertEquals(
+          (await sessionService.listSessions(testUser.userId)).length,
+          1,
+        );
+
+        const ctx = createMockContext({ token: resetToken, newPassword });
+
+        await resetPassword(ctx);
+
+        assertEquals(ctx.response.status, 200);
+        const updated = await userService.findById(testUser.userId);
+        assert(
+          (await verifyPassword(updated!.passwordHash, newPassword)).valid,
+        );
+        assertEquals(
+          (await sessionService.listSessions(testUser.userId)).length,
+          0,
+        );
+      },
+    );
+
+    await t.step("should not accept the same token twice", async () => {
+      const ctx = createMockContext({
+        token: resetToken,
+        newPassword: "Another789!@#$",
+      });
+
+      await resetPassword(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "Invalid or expired reset token");
+    });
+
+    await t.step("should throttle repeated requests", async () => {
+      let status = 0;
+      for (let i = 0; i < 6; i++) {
+        const ctx = createMockContext({ email: "test@example.com" });
+        await forgotPassword(ctx);
+        status = ctx.response.status;
+      }
+
+      assertEquals(status, 429);
+      await RateLimiter.resetAttempts(
+        "forgot:127.0.0.1",
+        "forgot:test@example.com",
+      );
+    });
+
+    await t.step("cleanup: delete test user and close connection", async () => {
+      if (testUser) {
+        await userService.deleteUser(
+          testUser.userId,
+          newPassword,
+          newPassword,
+        );
+        await closeDatabaseConnection();
+      }
+    });
+  },
+});
@@ -0,0 +1,148 @@
+import { assertEquals, assertExists } from "@std/assert";
+import {
+  MIN_PASSWORD_SCORE,
+  scorePassword,
+} from "../src/utils/passwordStrength.ts";
+import { isBreachedPassword } from "../src/utils/breachedPasswords.ts";
+import {
+  checkPasswordPolicy,
+  PasswordPolicyError,
+} from "../src/services/password.ts";
+import { sha1Hex } from "../src/utils/crypto.ts";
+
+Deno.test({
+  name: "Password Strength Tests",
+
+  async fn(t) {
+    await t.step("should reject common passwords with padding", () => {
+      for (const password of ["password12!!", "p@ssw0rd2024!!"]) {
+        const strength = scorePassword(password);
+        assertEquals(strength.score < MIN_PASSWORD_SCORE, true, password);
+        assertEquals(
+          strength.warnings.includes("Contains a commonly used password"),
+          true,
+        );
+      }
+    });
+
+    await t.step(
+      "should see through capitals, leetspeak and suffixes",
+      () => {
+        for (
+          const password of ["Password12!!", "P@ssw0rd12!!", "iloveyou12!!"]
+        ) {
+          const strength = scorePassword(password);
+          assertEquals(strength.score < MIN_PASSWORD_SCORE, true, password);
+          assertEquals(
+            strength.warnings.includes(
+              "Ends with predictable digits or symbols like 123!",
+            ),
+            true,
+          );
+        }
+      },
+    );
+
+    await t.step("should reject the username with a number row", () => {
+      const strength = scorePassword("Test123!@#$", [
+        "testuser",
+        "test@example.com",
+      ]);
+
+      assertEquals(strength.score < MIN_PASSWORD_SCORE, true);
+      assertEquals(
+        strength.warnings.includes("Contains a keyboard pattern like qwerty"),
+        true,
+      );
+    });
+
+    await t.step("should accept long passphrases", () => {
+      const strength = scorePassword("mellow giraffe under a copper lamp");
+
+      assertEquals(strength.score, 4);
+      assertEquals(strength.warnings, []);
+    });
+
+    await t.step("should penalize keyboard runs and repeats", () => {
+      assertEquals(
+        scorePassword("asdfghjk").warnings,
+        ["Contains a keyboard pattern like qwerty"],
+      );
+      assertEquals(
+        scorePassword("zzzzzzzz").warnings,
+        ["Contains repeated characters like aaa"],
+      );
+    });
+
+    await t.step("should penalize the username and email", () => {
+      const password = "Marigold-Harbor";
+      const alone = scorePassword(password);
+      const personal = scorePassword(password, [
+        "marigold",
+        "harbor@example.com",
+      ]);
+
+      assertEquals(personal.entropy < alone.entropy, true);
+      assertEquals(
+        personal.warnings.includes("Contains your username or email"),
+        true,
+      );
+    });
+
+    await t.step("should score short passwords as 0", () => {
+      assertEquals(scorePassword("Zq8#").score, 0);
+    });
+  },
+});
+
+Deno.test({
+  name: "Breached Password Tests",
+
+  async fn(t) {
+    const directory = await Deno.makeTempDir();
+    const breached = "Fjord-Lantern-Walnut-42";
+    const hash = (await sha1Hex(breached)).toUpperCase();
+    await Deno.writeTextFile(
+      `${directory}/${hash.slice(0, 5)}.txt`,
+      `0000000000000000000000000000000000A:1\n${hash.slice(5)}:12\n`,
+    );
+    const previous = Deno.env.get("BREACHED_PASSWORDS_DIR");
+    Deno.env.set("BREACHED_PASSWORDS_DIR", directory);
+
+    try {
+      await t.step("should find a password in its prefix file", async () => {
+        assertEquals(await isBreachedPassword(breached), true);
+        assertEquals(
+          await isBreachedPassword("Fjord-Lantern-Walnut-43"),
+          false,
+        );
+      });
+
+      await t.step("should explain a breached password", async () => {
+        let rejection: PasswordPolicyError | undefined;
+        try {
+          await checkPasswordPolicy(breached);
+        } catch (error) {
+          if (error instanceof PasswordPolicyError) {
+            rejection = error;
+          }
+        }
+
+        assertExists(rejection);
+        assertEquals(
+          rejection.message,
+          "Password has appeared in a data breach",
+        );
+        assertEquals(rejection.feedback.breached, true);
+        assertEquals(rejection.feedback.score >= MIN_PASSWORD_SCORE, true);
+      });
+    } finally {
+      if (previous === undefined) {
+        Deno.env.delete("BREACHED_PASSWORDS_DIR");
+      } else {
+        Deno.env.set("BREACHED_PASSWORDS_DIR", previous);
+      }
+      await Deno.remove(directory, { recursive: true });
+    }
+  },
+});
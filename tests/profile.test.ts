@@ -74,7 +74,7 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "test@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
@@ -135,8 +135,8 @@ Deno.test({
       if (testUser) {
         await userService.deleteUser(
           testUser.userId,
-          "Test123!@#$",
-          "Test123!@#$",
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
         );
         await closeDatabaseConnection();
       }
@@ -0,0 +1,113 @@
+import { assertEquals } from "@std/assert";
+import { Context } from "@oak/oak";
+import { rateLimit } from "../src/middleware/rateLimit.ts";
+import { RateLimitPolicy } from "../src/utils/rateLimiter.ts";
+
+const createMockContext = (
+  ip: string,
+  user?: Record<string, unknown>,
+): Context =>
+  ({
+    request: { ip, headers: new Headers() },
+    response: { headers: new Headers() },
+    state: { user },
+  }) as unknown as Context;
+
+// Each run gets its own counters
+const policy = (
+  algorithm: RateLimitPolicy["algorithm"],
+  overrides: Partial<RateLimitPolicy> = {},
+): RateLimitPolicy => ({
+  name: `test:${algorithm}:${crypto.randomUUID()}`,
+  algorithm,
+  limit: 2,
+  window: 60,
+  ...overrides,
+});
+
+async function send(
+  middleware: ReturnType<typeof rateLimit>,
+  ctx: Context,
+): Promise<boolean> {
+  let passed = false;
+  await middleware(ctx, () => {
+    passed = true;
+    return Promise.resolve();
+  });
+  return passed;
+}
+
+Deno.test({
+  name: "Rate Limit Middleware Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    for (
+      const algorithm of [
+        "fixed-window",
+        "sliding-window",
+        "token-bucket",
+      ] as const
+    ) {
+      await t.step(`${algorithm}: should stop at the limit`, async () => {
+        const limiter = rateLimit(policy(algorithm));
+
+        const first = createMockContext("10.0.0.1");
+        assertEquals(await send(limiter, first), true);
+        assertEquals(first.response.headers.get("RateLimit-Limit"), "2");
+        assertEquals(first.response.headers.get("RateLimit-Remaining"), "1");
+        assertEquals(
+          first.response.headers.get("RateLimit-Policy"),
+          "2;w=60",
+        );
+
+        assertEquals(await send(limiter, createMockContext("10.0.0.1")), true);
+
+        const blocked = createMockContext("10.0.0.1");
+        assertEquals(await send(limiter, blocked), false);
+        assertEquals(blocked.response.status, 429);
+        assertEquals(blocked.response.headers.get("RateLimit-Remaining"), "0");
+        const retryAfter = Number(blocked.response.headers.get("Retry-After"));
+        assertEquals(retryAfter > 0 && retryAfter <= 60, true);
+
+        // Someone else still gets through
+        assertEquals(await send(limiter, createMockContext("10.0.0.2")), true);
+      });
+    }
+
+    await t.step("should count per user when asked to", async () => {
+      const limiter = rateLimit(policy("fixed-window", { by: "user" }));
+
+      assertEquals(
+        await send(limiter, createMockContext("10.0.0.1", { userId: "a" })),
+        true,
+      );
+      assertEquals(
+        await send(limiter, createMockContext("10.0.0.1", { userId: "a" })),
+        true,
+      );
+      assertEquals(
+        await send(limiter, createMockContext("10.0.0.1", { userId: "a" })),
+        false,
+      );
+      assertEquals(
+        await send(limiter, createMockContext("10.0.0.1", { userId: "b" })),
+        true,
+      );
+    });
+
+    await t.step("should refill a token bucket over time", async () => {
+      // One token every 100ms
+      const limiter = rateLimit(
+        policy("token-bucket", { limit: 1, window: 0.1 }),
+      );
+
+      assertEquals(await send(limiter, createMockContext("10.0.0.1")), true);
+      assertEquals(await send(limiter, createMockContext("10.0.0.1")), false);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      assertEquals(await send(limiter, createMockContext("10.0.0.1")), true);
+    });
+  },
+});
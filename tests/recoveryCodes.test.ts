@@ -0,0 +1,173 @@
+import { assertEquals, assertExists, assertNotEquals } from "@std/assert";
+import { RouterContext } from "@oak/oak";
+import * as OTPAuth from "@hectorm/otpauth";
+import { regenerateRecoveryCodes } from "../src/controllers/twoFactor.ts";
+import { Response } from "../src/utils/response.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { User } from "../src/models/user.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+
+interface ResponseData {
+  data?: { recoveryCodes?: string[] };
+  error?: string;
+}
+
+function createMockRouterContext(
+  body: unknown,
+  state: Record<string, unknown> = {},
+  params: { userId?: string } = {},
+): RouterContext<"/api/:userId/2fa/recovery-codes/regenerate"> {
+  return {
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state,
+    params: { userId: params.userId ?? "test" },
+  } as unknown as RouterContext<"/api/:userId/2fa/recovery-codes/regenerate">;
+}
+
+Deno.test({
+  name: "Recovery Code Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let testUser: User;
+    let totp: OTPAuth.TOTP;
+    let recoveryCodes: string[];
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test user with 2FA", async () => {
+      testUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      const { secret } = await userService.enableTwoFactor(testUser.userId);
+      totp = new OTPAuth.TOTP({
+        issuer: "toNotes",
+        label: "toNotesAuth",
+        algorithm: "SHA512",
+        digits: 6,
+        period: 30,
+        secret,
+      });
+      ({ recoveryCodes } = await userService.verifyTwoFactor(
+        testUser.userId,
+        totp.generate(),
+        secret,
+      ));
+      assertEquals(recoveryCodes.length, 10);
+    });
+
+    await t.step("should store hashes instead of the codes", async () => {
+      const user = await userService.findById(testUser.userId);
+
+      assertEquals(user?.recoveryCodes?.length, 10);
+      for (const code of recoveryCodes) {
+        assertEquals(user?.recoveryCodes?.includes(code), false);
+      }
+    });
+
+    await t.step("should accept each code only once", async () => {
+      assertEquals(
+        await userService.useRecoveryCode(testUser.userId, recoveryCodes[0]),
+        true,
+      );
+      assertEquals(
+        await userService.useRecoveryCode(testUser.userId, recoveryCodes[0]),
+        false,
+      );
+      assertEquals(
+        await userService.useRecoveryCode(
+          testUser.userId,
+          ` ${recoveryCodes[1].toLowerCase()} `,
+        ),
+        true,
+      );
+    });
+
+    await t.step("should let only one of two racing requests in", async () => {
+      const results = await Promise.all([
+        userService.useRecoveryCode(testUser.userId, recoveryCodes[3]),
+        userService.useRecoveryCode(testUser.userId, recoveryCodes[3]),
+      ]);
+
+      assertEquals(results.filter(Boolean).length, 1);
+    });
+
+    await t.step(
+      "should report the remaining codes in the profile",
+      async () => {
+        const profile = await userService.getProfile(testUser.userId);
+
+        assertEquals(profile.recoveryCodesRemaining, 7);
+      },
+    );
+
+    await t.step("should replace all recovery codes", async () => {
+      const ctx = createMockRouterContext(
+        {},
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await regenerateRecoveryCodes(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      const fresh = responseData.data?.recoveryCodes;
+      assertExists(fresh);
+      assertEquals(fresh.length, 10);
+      assertNotEquals(fresh[0], recoveryCodes[2]);
+
+      assertEquals(
+        await userService.useRecoveryCode(testUser.userId, recoveryCodes[2]),
+        false,
+      );
+      assertEquals(
+        await userService.useRecoveryCode(testUser.userId, fresh[0]),
+        true,
+      );
+      const profile = await userService.getProfile(testUser.userId);
+      assertEquals(profile.recoveryCodesRemaining, 9);
+    });
+
+    await t.step(
+      "should return forbidden for another user's account",
+      async () => {
+        const ctx = createMockRouterContext(
+          {},
+          { user: { userId: testUser.userId } },
+          { userId: "someone-else" },
+        );
+
+        await authorize()(ctx, () => regenerateRecoveryCodes(ctx));
+
+        assertEquals(ctx.response.status, 403);
+      },
+    );
+
+    await t.step("cleanup: delete test user and close connection", async () => {
+      const client = await connectToDb();
+      await client.db().collection("users").deleteMany({});
+      await closeDatabaseConnection();
+    });
+  },
+});
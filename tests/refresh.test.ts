@@ -0,0 +1,196 @@
+import { assertEquals, assertExists, assertNotEquals } from "@std/assert";
+import { Context } from "@oak/oak";
+import { decodeJwt } from "@panva/jose";
+import { refreshToken } from "../src/controllers/refresh.ts";
+import { Response } from "../src/utils/response.ts";
+import { tokenService } from "../src/services/token.ts";
+import { User } from "../src/models/user.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: {
+    expiresIn?: number;
+  };
+  error?: string;
+}
+
+const createMockContext = (
+  cookies: Record<string, string> = {},
+): Context =>
+  ({
+    request: {
+      body: undefined,
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: {},
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  }) as unknown as Context;
+
+Deno.test({
+  name: "Refresh Token Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let testUser: User;
+    let firstRefreshToken: string;
+    let secondRefreshToken: string;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test user and tokens", async () => {
+      const createdUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      assertExists(createdUser);
+      testUser = createdUser;
+
+      const tokenPair = await tokenService.generateTokenPair(testUser);
+      firstRefreshToken = tokenPair.refreshToken;
+    });
+
+    await t.step(
+      "should return unauthorized when no refresh cookie is present",
+      async () => {
+        const ctx = createMockContext({});
+        await refreshToken(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 401);
+        assertEquals(responseData.error, "No refresh token cookie");
+      },
+    );
+
+    await t.step("should rotate the refresh token", async () => {
+      const cookies: Record<string, string> = {
+        refreshToken: firstRefreshToken,
+        csrfToken: "cached-csrf-token",
+      };
+      const ctx = createMockContext(cookies);
+
+      await refreshToken(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.expiresIn, 15 * 60);
+      assertExists(cookies["accessToken"]);
+      assertExists(cookies["refreshToken"]);
+      assertNotEquals(cookies["refreshToken"], firstRefreshToken);
+      assertEquals(cookies["csrfToken"], "cached-csrf-token");
+
+      secondRefreshToken = cookies["refreshToken"];
+    });
+
+    await t.step("should reject a malformed refresh token", async () => {
+      const ctx = createMockContext({ refreshToken: "not-a-token" });
+      await refreshToken(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 401);
+      assertEquals(responseData.error, "Invalid or expired refresh token");
+    });
+
+    await t.step(
+      "should detect reuse of a rotated refresh token",
+      async () => {
+        const cookies: Record<string, string> = {
+          refreshToken: firstRefreshToken,
+        };
+        const ctx = createMockContext(cookies);
+
+        await refreshToken(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 401);
+        assertEquals(responseData.error, "Refresh token reuse detected");
+        assertEquals(cookies["refreshToken"], undefined);
+      },
+    );
+
+    await t.step(
+      "should revoke the whole family after reuse is detected",
+      async () => {
+        const ctx = createMockContext({ refreshToken: secondRefreshToken });
+        await refreshToken(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 401);
+        assertEquals(responseData.error, "Invalid or expired refresh token");
+      },
+    );
+
+    await t.step("should take roles from the stored account", async () => {
+      const { refreshToken: token } = await tokenService.generateTokenPair(
+        testUser,
+      );
+      const client = await connectToDb();
+      await client.db().collection("users").updateOne(
+        { userId: testUser.userId },
+        { $set: { roles: ["user", "admin"] } },
+      );
+
+      const cookies: Record<string, string> = { refreshToken: token };
+      const ctx = createMockContext(cookies);
+      await refreshToken(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(decodeJwt(cookies["accessToken"]).roles, ["user", "admin"]);
+    });
+
+    await t.step("should refuse to refresh a disabled account", async () => {
+      const { refreshToken: token } = await tokenService.generateTokenPair(
+        testUser,
+      );
+      const client = await connectToDb();
+      await client.db().collection("users").updateOne(
+        { userId: testUser.userId },
+        { $set: { disabled: true } },
+      );
+
+      const ctx = createMockContext({ refreshToken: token });
+      await refreshToken(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 403);
+      assertEquals(responseData.error, "Account is disabled");
+
+      await client.db().collection("users").updateOne(
+        { userId: testUser.userId },
+        { $unset: { disabled: "" } },
+      );
+    });
+
+    await t.step("cleanup: delete test user and close connection", async () => {
+      if (testUser) {
+        await userService.deleteUser(
+          testUser.userId,
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
+        );
+        await closeDatabaseConnection();
+      }
+    });
+  },
+});
@@ -17,6 +17,7 @@ interface ResponseData {
     message?: string;
   };
   error?: string;
+  details?: { score: number; warnings: string[] };
 }
 
 const createMockContext = (
@@ -28,10 +29,12 @@ const createMockContext = (
     request: {
       body: body
         ? {
-            value: body,
-            json: () => Promise.resolve(body),
-          }
+          value: body,
+          json: () => Promise.resolve(body),
+        }
         : undefined,
+      ip: "127.0.0.1",
+      headers: new Headers(),
     },
     response: {
       status: 200,
@@ -73,7 +76,7 @@ Deno.test({
       const createdUser = await userService.createUser(
         "testuser",
         "test@example.com",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
       );
       assertExists(createdUser);
       testUser = createdUser;
@@ -85,7 +88,7 @@ Deno.test({
         {
           username: "newuser",
           email: "newuser@example.com",
-          password: "Test123!@#$",
+          password: "Tulip-Harbor-Ferry-92",
         },
         cookies,
       );
@@ -119,7 +122,7 @@ Deno.test({
       const ctx = createMockContext({
         username: "newuser",
         email: "invalid-email",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await register(ctx);
@@ -140,17 +143,43 @@ Deno.test({
       const responseData = ctx.response.body as ResponseData;
 
       assertEquals(ctx.response.status, 400);
+      assertEquals(responseData.error, "Password is too weak");
+      assertEquals(responseData.details?.score, 0);
       assertEquals(
-        responseData.error,
-        "Password must have at least 2 special characters, 2 numbers, and be at least 8 characters long",
+        responseData.details?.warnings.includes(
+          "Must be at least 8 characters long",
+        ),
+        true,
       );
     });
 
+    await t.step(
+      "should return 400 for a password built on the username",
+      async () => {
+        const ctx = createMockContext({
+          username: "weakpassuser",
+          email: "weakpass@example.com",
+          password: "Weakpassuser12!",
+        });
+
+        await register(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 400);
+        assertEquals(
+          responseData.details?.warnings.includes(
+            "Contains your username or email",
+          ),
+          true,
+        );
+      },
+    );
+
     await t.step("should return 400 for existing username", async () => {
       const ctx = createMockContext({
         username: "testuser",
         email: "another@example.com",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await register(ctx);
@@ -164,7 +193,7 @@ Deno.test({
       const ctx = createMockContext({
         username: "anotheruser",
         email: "test@example.com",
-        password: "Test123!@#$",
+        password: "Tulip-Harbor-Ferry-92",
       });
 
       await register(ctx);
@@ -177,8 +206,8 @@ Deno.test({
     await t.step("cleanup: delete test data and close connection", async () => {
       await userService.deleteUser(
         testUser.userId,
-        "Test123!@#$",
-        "Test123!@#$",
+        "Tulip-Harbor-Ferry-92",
+        "Tulip-Harbor-Ferry-92",
       );
       await closeDatabaseConnection();
     });
@@ -0,0 +1,193 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { Context, RouterContext } from "@oak/oak";
+import { login } from "../src/controllers/login.ts";
+import { listSecurityEvents } from "../src/controllers/securityEvents.ts";
+import { SecurityEventPageResponse } from "../src/dto/securityEvent.ts";
+import { Response } from "../src/utils/response.ts";
+import { initializeServices, userService } from "../src/config/serviceSetup.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { User } from "../src/models/user.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+
+interface ResponseData {
+  data?: SecurityEventPageResponse;
+  error?: string;
+}
+
+const createLoginContext = (body: unknown, requestId: string): Context =>
+  ({
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers({ "user-agent": "Browser" }),
+    },
+    response: new Response(),
+    state: { requestId },
+    cookies: {
+      get: () => undefined,
+      set: () => {},
+      delete: () => {},
+    },
+  }) as unknown as Context;
+
+function createMockRouterContext(
+  url: string,
+  state: Record<string, unknown> = {},
+  params: { userId?: string } = {},
+): RouterContext<"/api/:userId/security/events"> {
+  const urlObj = new URL(url, "http://localhost");
+  return {
+    request: {
+      url: urlObj,
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state,
+    params: { userId: params.userId ?? "test" },
+  } as unknown as RouterContext<"/api/:userId/security/events">;
+}
+
+Deno.test({
+  name: "Security Event Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let testUser: User;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await client
+          .db()
+          .collection(Deno.env.get("SECURITY_EVENT_COLLECTION")!)
+          .deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create user and log in", async () => {
+      testUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+
+      const failed = createLoginContext(
+        { username: "testuser", password: "Wrong123!@#$" },
+        "request-1",
+      );
+      await login(failed);
+      assertEquals(failed.response.status, 401);
+
+      const succeeded = createLoginContext(
+        { username: "testuser", password: "Tulip-Harbor-Ferry-92" },
+        "request-2",
+      );
+      await login(succeeded);
+      assertEquals(succeeded.response.status, 200);
+    });
+
+    await t.step("should list login events newest first", async () => {
+      const ctx = createMockRouterContext(
+        `/api/${testUser.userId}/security/events`,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await listSecurityEvents(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.totalCount, 2);
+
+      const [latest, first] = responseData.data!.events;
+      assertEquals(latest.type, "login");
+      assertEquals(latest.success, true);
+      assertEquals(latest.requestId, "request-2");
+      assertEquals(latest.userAgent, "Browser");
+      assertEquals(first.success, false);
+      assertEquals(first.requestId, "request-1");
+      assertEquals(first.details?.reason, "invalid_password");
+    });
+
+    await t.step("should derive activity stats from the log", async () => {
+      const ctx = createMockRouterContext(
+        `/api/${testUser.userId}/security/events`,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await listSecurityEvents(ctx);
+      const activity = (ctx.response.body as ResponseData).data?.activity;
+
+      assertExists(activity);
+      assertEquals(activity.totalSessions, 1);
+      assertEquals(
+        new Date(activity.createdAt).getTime(),
+        testUser.createdAt.getTime(),
+      );
+    });
+
+    await t.step("should paginate events", async () => {
+      const ctx = createMockRouterContext(
+        `/api/${testUser.userId}/security/events?page=1&page_size=1`,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await listSecurityEvents(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.events.length, 1);
+      assertEquals(responseData.data?.pageCount, 2);
+      assertExists(responseData.data?.links["next"]);
+      assertEquals(responseData.data?.links["prev"], undefined);
+    });
+
+    await t.step("should reject an invalid page size", async () => {
+      const ctx = createMockRouterContext(
+        `/api/${testUser.userId}/security/events?page_size=0`,
+        { user: { userId: testUser.userId } },
+        { userId: testUser.userId },
+      );
+
+      await listSecurityEvents(ctx);
+
+      assertEquals(ctx.response.status, 400);
+    });
+
+    await t.step(
+      "should return forbidden for another user's events",
+      async () => {
+        const ctx = createMockRouterContext(
+          "/api/someone-else/security/events",
+          { user: { userId: testUser.userId } },
+          { userId: "someone-else" },
+        );
+
+        await authorize()(ctx, () => listSecurityEvents(ctx));
+
+        assertEquals(ctx.response.status, 403);
+      },
+    );
+
+    await t.step("cleanup: delete test data and close connection", async () => {
+      const client = await connectToDb();
+      await client.db().collection("users").deleteMany({});
+      await client
+        .db()
+        .collection(Deno.env.get("SECURITY_EVENT_COLLECTION")!)
+        .deleteMany({});
+      await closeDatabaseConnection();
+    });
+  },
+});
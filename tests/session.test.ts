@@ -0,0 +1,264 @@
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { Context, RouterContext } from "@oak/oak";
+import { listSessions, revokeSession } from "../src/controllers/session.ts";
+import { authMiddleware } from "../src/middleware/auth.ts";
+import { Response } from "../src/utils/response.ts";
+import { TokenRevoked, tokenService } from "../src/services/token.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { User } from "../src/models/user.ts";
+import {
+  initializeServices,
+  sessionService,
+  userService,
+} from "../src/config/serviceSetup.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+import { RedisManager } from "../src/services/redis.ts";
+
+interface ResponseData {
+  data?: {
+    sessions?: {
+      sessionId: string;
+      userAgent: string;
+      current: boolean;
+    }[];
+  };
+  error?: string;
+}
+
+function createMockRouterContext<T extends string>(
+  state: Record<string, unknown> = {},
+  params: Record<string, string> = {},
+  cookies: Record<string, string> = {},
+): RouterContext<T> {
+  return {
+    request: {
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state,
+    params,
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  } as unknown as RouterContext<T>;
+}
+
+Deno.test({
+  name: "Session Controller Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let testUser: User;
+    let laptopAccessToken: string;
+    let laptopSessionId: string;
+    let phoneSessionId: string;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await client.db().collection("sessions").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test user and sessions", async () => {
+      const createdUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      assertExists(createdUser);
+      testUser = createdUser;
+
+      const laptop = await sessionService.startSession(
+        testUser,
+        "10.0.0.1",
+        "Laptop Browser",
+      );
+      laptopAccessToken = laptop.accessToken;
+      laptopSessionId = (await tokenService.verifyToken(laptop.accessToken))
+        .sid as string;
+
+      const phone = await sessionService.startSession(
+        testUser,
+        "10.0.0.2",
+        "Phone App",
+      );
+      phoneSessionId = (await tokenService.verifyToken(phone.accessToken))
+        .sid as string;
+    });
+
+    await t.step("should list active sessions", async () => {
+      const ctx = createMockRouterContext<"/api/:userId/sessions">(
+        { user: { userId: testUser.userId, sid: laptopSessionId } },
+        { userId: testUser.userId },
+      );
+
+      await listSessions(ctx);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.sessions?.length, 2);
+
+      const current = responseData.data?.sessions?.find((session) =>
+        session.current
+      );
+      assertEquals(current?.sessionId, laptopSessionId);
+      assertEquals(current?.userAgent, "Laptop Browser");
+    });
+
+    await t.step("should not list sessions whose tokens ran out", async () => {
+      const expired = await sessionService.startSession(
+        testUser,
+        "10.0.0.3",
+        "Old Tablet",
+      );
+      const expiredSessionId =
+        (await tokenService.verifyToken(expired.accessToken)).sid as string;
+      // Drop the refresh family the way its TTL would
+      await RedisManager.revokeTokenFamily(expiredSessionId);
+
+      const sessions = await sessionService.listSessions(testUser.userId);
+
+      assertEquals(sessions.length, 2);
+      assertEquals(
+        sessions.some((session) => session.sessionId === expiredSessionId),
+        false,
+      );
+    });
+
+    await t.step(
+      "should return forbidden when userId does not match",
+      async () => {
+        const ctx = createMockRouterContext<"/api/:userId/sessions">(
+          { user: { userId: testUser.userId } },
+          { userId: "someone-else" },
+        );
+
+        await authorize()(ctx, () => listSessions(ctx));
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 403);
+        assertEquals(
+          responseData.error,
+          "You don't have access to this resource",
+        );
+      },
+    );
+
+    await t.step("should revoke another session", async () => {
+      const ctx = createMockRouterContext<"/api/:userId/sessions/:sid">(
+        { user: { userId: testUser.userId, sid: laptopSessionId } },
+        { userId: testUser.userId, sid: phoneSessionId },
+      );
+
+      await revokeSession(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(await sessionService.isSessionActive(phoneSessionId), false);
+      assertEquals(await sessionService.isSessionActive(laptopSessionId), true);
+    });
+
+    await t.step(
+      "should return not found for an already revoked session",
+      async () => {
+        const ctx = createMockRouterContext<"/api/:userId/sessions/:sid">(
+          { user: { userId: testUser.userId, sid: laptopSessionId } },
+          { userId: testUser.userId, sid: phoneSessionId },
+        );
+
+        await revokeSession(ctx);
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(ctx.response.status, 404);
+        assertEquals(responseData.error, "Session not found");
+      },
+    );
+
+    await t.step(
+      "auth middleware should reject tokens of a revoked session",
+      async () => {
+        const revokeCtx = createMockRouterContext<
+          "/api/:userId/sessions/:sid"
+        >(
+          { user: { userId: testUser.userId, sid: laptopSessionId } },
+          { userId: testUser.userId, sid: laptopSessionId },
+        );
+        await revokeSession(revokeCtx);
+        assertEquals(revokeCtx.response.status, 200);
+
+        const ctx = createMockRouterContext(
+          {},
+          {},
+          { accessToken: laptopAccessToken },
+        ) as unknown as Context;
+        let nextCalled = false;
+
+        await authMiddleware(ctx, () => {
+          nextCalled = true;
+          return Promise.resolve();
+        });
+        const responseData = ctx.response.body as ResponseData;
+
+        assertEquals(nextCalled, false);
+        assertEquals(ctx.response.status, 401);
+        assertEquals(responseData.error, "Session has been revoked");
+      },
+    );
+
+    await t.step(
+      "should revoke tokens issued in the same second as a revoke-all",
+      async () => {
+        const session = await sessionService.startSession(
+          testUser,
+          "10.0.0.4",
+          "Desktop Browser",
+        );
+        await tokenService.revokeAllForUser(testUser.userId);
+
+        await assertRejects(
+          () => tokenService.verifyToken(session.accessToken),
+          TokenRevoked,
+        );
+      },
+    );
+
+    await t.step(
+      "should accept tokens minted right after a revoke-all",
+      async () => {
+        await tokenService.revokeAllForUser(testUser.userId);
+        const session = await sessionService.startSession(
+          testUser,
+          "10.0.0.5",
+          "Desktop Browser",
+        );
+
+        const payload = await tokenService.verifyToken(session.accessToken);
+        assertEquals(payload.userId, testUser.userId);
+      },
+    );
+
+    await t.step("cleanup: delete test user and close connection", async () => {
+      if (testUser) {
+        await userService.deleteUser(
+          testUser.userId,
+          "Tulip-Harbor-Ferry-92",
+          "Tulip-Harbor-Ferry-92",
+        );
+        await closeDatabaseConnection();
+      }
+    });
+  },
+});
@@ -0,0 +1,263 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { RouterContext } from "@oak/oak";
+import * as OTPAuth from "@hectorm/otpauth";
+import { stepUp } from "../src/controllers/stepUp.ts";
+import { authorize } from "../src/middleware/authorize.ts";
+import { Response } from "../src/utils/response.ts";
+import { tokenService } from "../src/services/token.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { User } from "../src/models/user.ts";
+import { PasswordNotSet } from "../src/services/user.ts";
+import {
+  initializeServices,
+  sessionService,
+  userService,
+} from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: { elevatedUntil?: Date };
+  error?: string;
+}
+
+function createMockRouterContext(
+  body: unknown,
+  user: Record<string, unknown>,
+  params: { userId?: string } = {},
+): RouterContext<"/api/:userId/step-up"> {
+  return {
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: { user },
+    params: { userId: params.userId ?? "test" },
+  } as unknown as RouterContext<"/api/:userId/step-up">;
+}
+
+async function isElevated(
+  ctx: RouterContext<"/api/:userId/step-up">,
+): Promise<boolean> {
+  let nextCalled = false;
+  await authorize({ elevated: true })(ctx, () => {
+    nextCalled = true;
+    return Promise.resolve();
+  });
+  return nextCalled;
+}
+
+Deno.test({
+  name: "Step-up Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    await initializeServices();
+    let testUser: User;
+    let sessionUser: Record<string, unknown>;
+    let otherSessionUser: Record<string, unknown>;
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await client.db().collection("sessions").deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create test user and sessions", async () => {
+      testUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+
+      for (const userAgent of ["Laptop Browser", "Phone App"]) {
+        const { accessToken } = await sessionService.startSession(
+          testUser,
+          "127.0.0.1",
+          userAgent,
+        );
+        const { sid } = await tokenService.verifyToken(accessToken);
+        const user = { userId: testUser.userId, sid };
+        if (!sessionUser) {
+          sessionUser = user;
+        } else {
+          otherSessionUser = user;
+        }
+      }
+    });
+
+    await t.step("should require a step-up for sensitive routes", async () => {
+      const ctx = createMockRouterContext({}, sessionUser, {
+        userId: testUser.userId,
+      });
+
+      assertEquals(await isElevated(ctx), false);
+      assertEquals(ctx.response.status, 403);
+      assertEquals(
+        (ctx.response.body as ResponseData).error,
+        "Re-authentication required",
+      );
+    });
+
+    await t.step("should reject a wrong password", async () => {
+      const ctx = createMockRouterContext(
+        { password: "Wrong123!@#$" },
+        sessionUser,
+        { userId: testUser.userId },
+      );
+
+      await stepUp(ctx);
+
+      assertEquals(ctx.response.status, 400);
+      assertEquals(
+        (ctx.response.body as ResponseData).error,
+        "Invalid password",
+      );
+      assertEquals(await isElevated(ctx), false);
+    });
+
+    await t.step("should elevate only the current session", async () => {
+      const ctx = createMockRouterContext(
+        { password: "Tulip-Harbor-Ferry-92" },
+        sessionUser,
+        { userId: testUser.userId },
+      );
+
+      await stepUp(ctx);
+
+      assertEquals(ctx.response.status, 200);
+      assertExists((ctx.response.body as ResponseData).data?.elevatedUntil);
+      assertEquals(
+        await isElevated(
+          createMockRouterContext({}, sessionUser, { userId: testUser.userId }),
+        ),
+        true,
+      );
+      assertEquals(
+        await isElevated(
+          createMockRouterContext({}, otherSessionUser, {
+            userId: testUser.userId,
+          }),
+        ),
+        false,
+      );
+    });
+
+    await t.step("should drop the elevation with the session", async () => {
+      await sessionService.revokeSession(
+        testUser.userId,
+        sessionUser.sid as string,
+      );
+
+      assertEquals(
+        await isElevated(
+          createMockRouterContext({}, sessionUser, { userId: testUser.userId }),
+        ),
+        false,
+      );
+    });
+
+    await t.step("should require the second factor when enabled", async () => {
+      const { secret } = await userService.enableTwoFactor(testUser.userId);
+      const totp = new OTPAuth.TOTP({
+        issuer: "toNotes",
+        label: "toNotesAuth",
+        algorithm: "SHA512",
+        digits: 6,
+        period: 30,
+        secret,
+      });
+      await userService.verifyTwoFactor(
+        testUser.userId,
+        totp.generate(),
+        secret,
+      );
+
+      const withoutCode = createMockRouterContext(
+        { password: "Tulip-Harbor-Ferry-92" },
+        otherSessionUser,
+        { userId: testUser.userId },
+      );
+      await stepUp(withoutCode);
+      assertEquals(withoutCode.response.status, 400);
+
+      const code = totp.generate();
+      const withCode = createMockRouterContext(
+        { password: "Tulip-Harbor-Ferry-92", totp: code },
+        otherSessionUser,
+        { userId: testUser.userId },
+      );
+      await stepUp(withCode);
+      assertEquals(withCode.response.status, 200);
+
+      const replayed = createMockRouterContext(
+        { password: "Tulip-Harbor-Ferry-92", totp: code },
+        otherSessionUser,
+        { userId: testUser.userId },
+      );
+      await stepUp(replayed);
+      assertEquals(replayed.response.status, 400);
+      assertEquals(
+        (replayed.response.body as ResponseData).error,
+        "OTP has already been used",
+      );
+    });
+
+    await t.step(
+      "should send social sign-ups without a password to the reset",
+      async () => {
+        await (await connectToDb())
+          .db()
+          .collection("users")
+          .updateOne(
+            { userId: testUser.userId },
+            { $set: { passwordless: true } },
+          );
+        const ctx = createMockRouterContext(
+          { password: "Tulip-Harbor-Ferry-92" },
+          otherSessionUser,
+          { userId: testUser.userId },
+        );
+
+        await stepUp(ctx);
+
+        assertEquals(ctx.response.status, 403);
+        assertEquals(
+          (ctx.response.body as ResponseData).error,
+          new PasswordNotSet().message,
+        );
+      },
+    );
+
+    await t.step(
+      "should return forbidden for another user's account",
+      async () => {
+        const ctx = createMockRouterContext(
+          { password: "Tulip-Harbor-Ferry-92" },
+          otherSessionUser,
+          { userId: "someone-else" },
+        );
+
+        await authorize()(ctx, () => stepUp(ctx));
+
+        assertEquals(ctx.response.status, 403);
+      },
+    );
+
+    await t.step("cleanup: delete test data and close connection", async () => {
+      const client = await connectToDb();
+      await client.db().collection("users").deleteMany({});
+      await client.db().collection("sessions").deleteMany({});
+      await closeDatabaseConnection();
+    });
+  },
+});
@@ -0,0 +1,276 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { Context, RouterContext } from "@oak/oak";
+import * as OTPAuth from "@hectorm/otpauth";
+import { login, withTwoFactor } from "../src/controllers/login.ts";
+import { changePassword } from "../src/controllers/changePassword.ts";
+import {
+  listTrustedDevices,
+  revokeTrustedDevice,
+} from "../src/controllers/trustedDevice.ts";
+import { TrustedDeviceResponse } from "../src/dto/trustedDevice.ts";
+import { TRUSTED_DEVICE_COOKIE } from "../src/utils/cookies.ts";
+import { Response } from "../src/utils/response.ts";
+import { closeDatabaseConnection, connectToDb } from "../src/config/db.ts";
+import { User } from "../src/models/user.ts";
+import {
+  initializeServices,
+  trustedDeviceService,
+  userService,
+} from "../src/config/serviceSetup.ts";
+
+interface ResponseData {
+  data?: {
+    requireTwoFactor?: boolean;
+    tempToken?: string;
+    trustedUntil?: Date;
+    user?: unknown;
+    devices?: TrustedDeviceResponse[];
+  };
+  error?: string;
+}
+
+const createMockContext = (
+  body: unknown,
+  cookies: Record<string, string> = {},
+): Context =>
+  ({
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers({ "user-agent": "Laptop" }),
+    },
+    response: new Response(),
+    state: {},
+    cookies: {
+      get: (name: string) => cookies[name],
+      set: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+      delete: (name: string) => {
+        delete cookies[name];
+      },
+    },
+  }) as unknown as Context;
+
+function createMockRouterContext<T extends string>(
+  userId: string,
+  params: Record<string, string> = {},
+  body: unknown = {},
+): RouterContext<T> {
+  return {
+    request: {
+      body: {
+        value: body,
+        json: () => Promise.resolve(body),
+      },
+      ip: "127.0.0.1",
+      headers: new Headers(),
+    },
+    response: new Response(),
+    state: { user: { userId } },
+    params: { userId, ...params },
+  } as unknown as RouterContext<T>;
+}
+
+Deno.test({
+  name: "Trusted Device Tests",
+  sanitizeResources: false,
+  sanitizeOps: false,
+
+  async fn(t) {
+    Deno.env.set("TRUSTED_DEVICE_SECRET", "test-trusted-device-secret");
+    await initializeServices();
+    let testUser: User;
+    let totp: OTPAuth.TOTP;
+    const jar: Record<string, string> = {};
+
+    const devicesCollection = async () =>
+      (await connectToDb())
+        .db()
+        .collection(Deno.env.get("TRUSTED_DEVICE_COLLECTION")!);
+
+    const loginWith = async (
+      username: string,
+      cookies: Record<string, string>,
+    ) => {
+      const ctx = createMockContext(
+        { username, password: "Tulip-Harbor-Ferry-92" },
+        cookies,
+      );
+      await login(ctx);
+      return ctx;
+    };
+
+    await t.step("setup: initialize mongodb", async () => {
+      try {
+        const client = await connectToDb();
+        await client.db().collection("users").deleteMany({});
+        await (await devicesCollection()).deleteMany({});
+      } catch (error) {
+        console.error("Connection failed aborting test");
+        throw error;
+      }
+    });
+
+    await t.step("setup: create user with 2FA", async () => {
+      testUser = await userService.createUser(
+        "testuser",
+        "test@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      const setup = await userService.enableTwoFactor(testUser.userId);
+      totp = new OTPAuth.TOTP({
+        issuer: "toNotes",
+        label: "toNotesAuth",
+        algorithm: "SHA512",
+        digits: 6,
+        period: 30,
+        secret: setup.secret,
+      });
+      await userService.verifyTwoFactor(
+        testUser.userId,
+        totp.generate(),
+        setup.secret,
+      );
+    });
+
+    await t.step("should remember the device after a TOTP login", async () => {
+      const loginCtx = await loginWith("testuser", jar);
+      const { tempToken } = (loginCtx.response.body as ResponseData).data!;
+      assertExists(tempToken);
+
+      const verifyCtx = createMockContext(
+        {
+          tempToken,
+          totpCode: totp.generate(),
+          rememberDevice: true,
+        },
+        jar,
+      );
+      await withTwoFactor(verifyCtx);
+
+      assertEquals(verifyCtx.response.status, 200);
+      assertExists(
+        (verifyCtx.response.body as ResponseData).data?.trustedUntil,
+      );
+      assertExists(jar[TRUSTED_DEVICE_COOKIE]);
+    });
+
+    await t.step("should skip the second factor on that device", async () => {
+      const ctx = await loginWith("testuser", jar);
+      const responseData = ctx.response.body as ResponseData;
+
+      assertEquals(ctx.response.status, 200);
+      assertEquals(responseData.data?.requireTwoFactor, undefined);
+      assertExists(responseData.data?.user);
+    });
+
+    await t.step("should ignore a tampered cookie", async () => {
+      const [deviceId, expiry, signature] = jar[TRUSTED_DEVICE_COOKIE]
+        .split(".");
+      const forged = `${deviceId}.${Number(expiry) + 3600}.${signature}`;
+
+      const ctx = await loginWith("testuser", {
+        [TRUSTED_DEVICE_COOKIE]: forged,
+      });
+
+      assertEquals(
+        (ctx.response.body as ResponseData).data?.requireTwoFactor,
+        true,
+      );
+    });
+
+    await t.step("should not vouch for another user", async () => {
+      const other = await userService.createUser(
+        "otheruser",
+        "other@example.com",
+        "Tulip-Harbor-Ferry-92",
+      );
+      const setup = await userService.enableTwoFactor(other.userId);
+      await userService.verifyTwoFactor(
+        other.userId,
+        new OTPAuth.TOTP({
+          issuer: "toNotes",
+          label: "toNotesAuth",
+          algorithm: "SHA512",
+          digits: 6,
+          period: 30,
+          secret: setup.secret,
+        }).generate(),
+        setup.secret,
+      );
+
+      const ctx = await loginWith("otheruser", { ...jar });
+
+      assertEquals(
+        (ctx.response.body as ResponseData).data?.requireTwoFactor,
+        true,
+      );
+    });
+
+    await t.step("should list and revoke trusted devices", async () => {
+      const listCtx = createMockRouterContext<"/api/:userId/trusted-devices">(
+        testUser.userId,
+      );
+      await listTrustedDevices(listCtx);
+      const devices = (listCtx.response.body as ResponseData).data?.devices;
+
+      assertEquals(devices?.length, 1);
+      assertEquals(devices![0].userAgent, "Laptop");
+      assertExists(devices![0].lastUsedAt);
+
+      const revokeCtx = createMockRouterContext<
+        "/api/:userId/trusted-devices/:deviceId"
+      >(testUser.userId, { deviceId: devices![0].deviceId });
+      await revokeTrustedDevice(revokeCtx);
+      assertEquals(revokeCtx.response.status, 200);
+
+      const ctx = await loginWith("testuser", jar);
+      assertEquals(
+        (ctx.response.body as ResponseData).data?.requireTwoFactor,
+        true,
+      );
+    });
+
+    await t.step("should revoke every device on password change", async () => {
+      const { cookie } = await trustedDeviceService.trustDevice(
+        testUser.userId,
+        "127.0.0.1",
+        "Laptop",
+      );
+      assertExists(
+        await trustedDeviceService.verifyDevice(
+          testUser.userId,
+          cookie,
+        ),
+      );
+
+      const ctx = createMockRouterContext<"/api/:userId/change-password">(
+        testUser.userId,
+        {},
+        { newPassword: "NewPass123!@#$" },
+      );
+      await changePassword(ctx);
+      assertEquals(ctx.response.status, 200);
+
+      assertEquals(
+        await trustedDeviceService.verifyDevice(testUser.userId, cookie),
+        null,
+      );
+      assertEquals(
+        (await trustedDeviceService.listDevices(testUser.userId)).length,
+        0,
+      );
+    });
+
+    await t.step("cleanup: delete test data and close connection", async () => {
+      const client = await connectToDb();
+      await client.db().collection("users").deleteMany({});
+      await (await devicesCollection()).deleteMany({});
+      await closeDatabaseConnection();
+    });
+  },
+});
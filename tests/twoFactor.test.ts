@@ -1,4 +1,3 @@
-import { DisableTwoFactorRequest } from "../src/models/user.ts";
 import { ErrorCounter, HTTPMetrics } from "../src/utils/metrics.ts";
 import { Response } from "../src/utils/response.ts";
 import { Context } from "@oak/oak";
@@ -120,19 +119,8 @@ export async function disableTwoFactor(ctx: Context) {
       return Response.unauthorized(ctx, "Missing or invalid Token");
     }
 
-    // verify user
-    const body = await ctx.request.body.json();
-    const req: DisableTwoFactorRequest = {
-      password: body.password?.trim(),
-      totp: body.totp.trim(),
-    };
-
     try {
-      await userService.disableTwoFactor(
-        user.userId,
-        req.totp,
-        req.password,
-      );
+      await userService.disableTwoFactor(user.userId);
 
       return Response.success(ctx, { disable: true });
     } catch (error) {